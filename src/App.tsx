@@ -9,6 +9,9 @@ import { AuthProvider } from "./contexts/AuthContext";
 import ProtectedRoute from "./components/auth/ProtectedRoute";
 import Index from "./pages/Index";
 import Students from "./pages/Students";
+import StudentProfile from "./pages/StudentProfile";
+import Classes from "./pages/Classes";
+import Corrections from "./pages/Corrections";
 import Import from "./pages/Import";
 import Settings from "./pages/Settings";
 import Auth from "./pages/Auth";
@@ -42,6 +45,30 @@ const App = () => (
                   </ProtectedRoute>
                 } 
               />
+              <Route 
+                path="/students/:id" 
+                element={
+                  <ProtectedRoute>
+                    <StudentProfile />
+                  </ProtectedRoute>
+                } 
+              />
+              <Route 
+                path="/classes" 
+                element={
+                  <ProtectedRoute>
+                    <Classes />
+                  </ProtectedRoute>
+                } 
+              />
+              <Route 
+                path="/corrections" 
+                element={
+                  <ProtectedRoute>
+                    <Corrections />
+                  </ProtectedRoute>
+                } 
+              />
               <Route 
                 path="/import" 
                 element={
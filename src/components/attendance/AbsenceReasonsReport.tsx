@@ -0,0 +1,75 @@
+import React from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableHeader, TableRow, TableHead, TableBody, TableCell } from "@/components/ui/table";
+import { Progress } from "@/components/ui/progress";
+import { AbsenceReasonSummary, AttendanceCode } from "@/lib/types";
+import { DEFAULT_ATTENDANCE_CODES, getStatusLabel } from "@/lib/attendanceCodes";
+import { ClipboardList } from "lucide-react";
+
+interface AbsenceReasonsReportProps {
+  reasonData: AbsenceReasonSummary[];
+  attendanceCodes?: AttendanceCode[];
+  isLoading: boolean;
+  periodLabel: string;
+}
+
+const AbsenceReasonsReport: React.FC<AbsenceReasonsReportProps> = ({
+  reasonData,
+  attendanceCodes = DEFAULT_ATTENDANCE_CODES,
+  isLoading,
+  periodLabel
+}) => {
+  const total = reasonData.reduce((sum, reason) => sum + reason.total, 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <ClipboardList className="mr-2 h-5 w-5" />
+          Absences by Reason
+        </CardTitle>
+        <CardDescription>
+          Student-days marked absent, late or with another non-present code {periodLabel}.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-center py-4 text-muted-foreground">Loading absence reasons...</div>
+        ) : reasonData.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Reason</TableHead>
+                <TableHead>Breakdown</TableHead>
+                <TableHead className="w-40">Share</TableHead>
+                <TableHead className="text-right">Days</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {reasonData.map((reason) => (
+                <TableRow key={reason.reasonId || "none"}>
+                  <TableCell className="font-medium">{reason.reasonName}</TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {Object.entries(reason.statusCounts)
+                      .map(([status, count]) => `${count} ${getStatusLabel(status, attendanceCodes).toLowerCase()}`)
+                      .join(", ")}
+                  </TableCell>
+                  <TableCell>
+                    <Progress value={total > 0 ? reason.total / total * 100 : 0} className="h-2" />
+                  </TableCell>
+                  <TableCell className="text-right">{reason.total}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <div className="text-center py-4 text-muted-foreground">
+            No absences recorded {periodLabel}.
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AbsenceReasonsReport;
@@ -3,6 +3,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { AttendanceSummary } from "@/lib/types";
 import { Progress } from "@/components/ui/progress";
 import { cn } from "@/lib/utils";
+import { formatDateOnly } from "@/lib/dateUtils";
 
 interface AttendanceCardProps {
   summary: AttendanceSummary;
@@ -31,12 +32,12 @@ const AttendanceCard = ({ summary, className }: AttendanceCardProps) => {
       <CardHeader>
         <CardTitle className="text-xl">Attendance Summary</CardTitle>
         <CardDescription>
-          {new Date(summary.date).toLocaleDateString('en-US', { 
+          {formatDateOnly(summary.date, { 
             weekday: 'long', 
             year: 'numeric', 
             month: 'long', 
             day: 'numeric' 
-          })}
+          }, 'en-US')}
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-4">
@@ -0,0 +1,14 @@
+import { Circle } from "lucide-react";
+import { ATTENDANCE_ICONS } from "./attendanceIcons";
+
+interface AttendanceCodeIconProps {
+  icon: string;
+  className?: string;
+}
+
+const AttendanceCodeIcon = ({ icon, className }: AttendanceCodeIconProps) => {
+  const Icon = ATTENDANCE_ICONS[icon] ?? Circle;
+  return <Icon className={className} />;
+};
+
+export default AttendanceCodeIcon;
@@ -0,0 +1,104 @@
+import { useQuery } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { getAttendanceHistory } from "@/lib/supabaseService";
+import { DEFAULT_ATTENDANCE_CODES, getStatusLabel } from "@/lib/attendanceCodes";
+import { SESSION_LABELS } from "@/lib/attendanceRollup";
+import { AbsenceReason, AttendanceChange, AttendanceCode, Period, Student } from "@/lib/types";
+import { formatDateOnly } from "@/lib/dateUtils";
+
+interface AttendanceHistoryDialogProps {
+  student: Student | null;
+  date: string;
+  onOpenChange: (open: boolean) => void;
+  attendanceCodes?: AttendanceCode[];
+  absenceReasons?: AbsenceReason[];
+  periods?: Period[];
+}
+
+// Every change made to a student's registers on one day, across all registers
+const AttendanceHistoryDialog = ({
+  student,
+  date,
+  onOpenChange,
+  attendanceCodes = DEFAULT_ATTENDANCE_CODES,
+  absenceReasons = [],
+  periods = []
+}: AttendanceHistoryDialogProps) => {
+  const { data: changes = [], isLoading } = useQuery({
+    queryKey: ['attendance-history', student?.id, date],
+    queryFn: () => getAttendanceHistory(student!.id, date),
+    enabled: !!student
+  });
+
+  const getRegisterLabel = (change: AttendanceChange) => {
+    if (change.periodId) return periods.find(p => p.id === change.periodId)?.name || "Lesson";
+    if (change.session) return SESSION_LABELS[change.session];
+    return "Whole day";
+  };
+
+  const getReasonName = (reasonId?: string | null) =>
+    reasonId ? absenceReasons.find(r => r.id === reasonId)?.name || "Retired reason" : null;
+
+  return (
+    <Dialog open={!!student} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>History for {student?.firstName} {student?.lastName}</DialogTitle>
+          <DialogDescription>
+            Every change to this student's registers on {formatDateOnly(date)}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="rounded-md border max-h-96 overflow-y-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>When</TableHead>
+                <TableHead>Register</TableHead>
+                <TableHead>Change</TableHead>
+                <TableHead>Reason and note</TableHead>
+                <TableHead>By</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {changes.length > 0 ? (
+                changes.map((change) => (
+                  <TableRow key={change.id}>
+                    <TableCell className="whitespace-nowrap">
+                      {new Date(change.changedAt).toLocaleTimeString()}
+                    </TableCell>
+                    <TableCell>{getRegisterLabel(change)}</TableCell>
+                    <TableCell>
+                      {!change.newStatus ? (
+                        `Deleted ${getStatusLabel(change.oldStatus, attendanceCodes)}`
+                      ) : change.oldStatus ? (
+                        change.oldStatus === change.newStatus
+                          ? getStatusLabel(change.newStatus, attendanceCodes)
+                          : `${getStatusLabel(change.oldStatus, attendanceCodes)} → ${getStatusLabel(change.newStatus, attendanceCodes)}`
+                      ) : (
+                        `Marked ${getStatusLabel(change.newStatus, attendanceCodes)}`
+                      )}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {[getReasonName(change.newReasonId), change.newNotes].filter(Boolean).join(" · ") || "—"}
+                    </TableCell>
+                    <TableCell>{change.changedByName || "Unknown"}</TableCell>
+                  </TableRow>
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={5} className="h-16 text-center">
+                    {isLoading ? "Loading history..." : "No changes recorded."}
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AttendanceHistoryDialog;
@@ -4,10 +4,12 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Alert, AlertTitle, AlertDescription } from "@/components/ui/alert";
 import { Table, TableHeader, TableRow, TableHead, TableBody, TableCell } from "@/components/ui/table";
 import { AttendanceSummary } from "@/lib/types";
+import { getToday } from "@/lib/dateUtils";
 import { AlertCircle, TrendingDown, AlertTriangle, BellRing, Phone, Mail } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
+import { Link } from "react-router-dom";
 
 interface AttendanceTrendsProps {
   trendData: AttendanceSummary[];
@@ -47,7 +49,7 @@ const AttendanceTrends: React.FC<AttendanceTrendsProps> = ({ trendData, isLoadin
       const { data, error } = await supabase.functions.invoke('send-bulk-notifications', {
         body: {
           studentIds,
-          date: new Date().toISOString().split('T')[0],
+          date: getToday(),
           notificationType
         }
       });
@@ -98,7 +100,7 @@ const AttendanceTrends: React.FC<AttendanceTrendsProps> = ({ trendData, isLoadin
       const { data, error } = await supabase.functions.invoke('send-absence-notification', {
         body: {
           studentId: student.studentId,
-          date: new Date().toISOString().split('T')[0],
+          date: getToday(),
           notificationType,
           message: student.consecutiveAbsences && student.consecutiveAbsences >= 3
             ? `This is an important notification from the school attendance system. ${student.studentName} has been absent for ${student.consecutiveAbsences} consecutive days. Please contact the school immediately.`
@@ -247,6 +249,8 @@ const AttendanceTrends: React.FC<AttendanceTrendsProps> = ({ trendData, isLoadin
                   <TableHead>Student</TableHead>
                   <TableHead>Absence Rate</TableHead>
                   <TableHead>Consecutive Absences</TableHead>
+                  <TableHead>Half-Day Absences</TableHead>
+                  <TableHead>Avg. Minutes Late</TableHead>
                   <TableHead>Status</TableHead>
                   <TableHead>Action</TableHead>
                 </TableRow>
@@ -254,9 +258,19 @@ const AttendanceTrends: React.FC<AttendanceTrendsProps> = ({ trendData, isLoadin
               <TableBody>
                 {sortedData.map((summary) => (
                   <TableRow key={summary.studentId}>
-                    <TableCell>{summary.studentName}</TableCell>
+                    <TableCell>
+                      {summary.studentId ? (
+                        <Link to={`/students/${summary.studentId}`} className="hover:underline">
+                          {summary.studentName}
+                        </Link>
+                      ) : summary.studentName}
+                    </TableCell>
                     <TableCell>{summary.absenceRate?.toFixed(1)}%</TableCell>
                     <TableCell>{summary.consecutiveAbsences || 0}</TableCell>
+                    <TableCell>{summary.halfDayAbsences || 0}</TableCell>
+                    <TableCell>
+                      {summary.averageMinutesLate ? `${Math.round(summary.averageMinutesLate)} min` : '—'}
+                    </TableCell>
                     <TableCell>
                       {summary.needsAttention ? (
                         <span className="inline-flex items-center text-destructive">
@@ -6,6 +6,8 @@ import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { parseCSV, downloadCSVTemplate } from "@/lib/importUtils";
 import { ImportResult } from "@/lib/types";
 import { useState, useRef } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { getClasses } from "@/lib/supabaseService";
 import { Upload, Download, AlertCircle, CheckCircle } from "lucide-react";
 import { useToast } from "@/components/ui/use-toast";
 
@@ -21,6 +23,11 @@ const CSVImport = ({ onImportSuccess, isLoading = false }: CSVImportProps) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
 
+  const { data: classes = [] } = useQuery({
+    queryKey: ['classes'],
+    queryFn: getClasses
+  });
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFile = e.target.files?.[0] || null;
     setFile(selectedFile);
@@ -40,7 +47,7 @@ const CSVImport = ({ onImportSuccess, isLoading = false }: CSVImportProps) => {
     try {
       setLocalLoading(true);
       const text = await file.text();
-      const result = parseCSV(text);
+      const result = parseCSV(text, classes);
       setImportResult(result);
       
       if (result.success) {
@@ -0,0 +1,160 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/components/ui/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { requestCorrection } from "@/lib/supabaseService";
+import { DEFAULT_ATTENDANCE_CODES, getStatusLabel } from "@/lib/attendanceCodes";
+import { AbsenceReason, AttendanceCode, AttendanceRecord, RegisterSlot, Student } from "@/lib/types";
+import { formatDateOnly } from "@/lib/dateUtils";
+
+interface CorrectionRequestDialogProps {
+  student: Student | null;
+  date: string;
+  registerSlot: RegisterSlot;
+  registerLabel?: string | null;
+  record?: AttendanceRecord; // the student's current mark on this register, if any
+  attendanceCodes?: AttendanceCode[];
+  absenceReasons?: AbsenceReason[];
+  onOpenChange: (open: boolean) => void;
+}
+
+// Ask an admin to change a mark on a submitted register
+const CorrectionRequestDialog = ({
+  student,
+  date,
+  registerSlot,
+  registerLabel,
+  record,
+  attendanceCodes = DEFAULT_ATTENDANCE_CODES,
+  absenceReasons = [],
+  onOpenChange
+}: CorrectionRequestDialogProps) => {
+  const [requestedStatus, setRequestedStatus] = useState("");
+  const [reasonId, setReasonId] = useState("none");
+  const [notes, setNotes] = useState("");
+  const [reason, setReason] = useState("");
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (student) {
+      setRequestedStatus("");
+      setReasonId("none");
+      setNotes("");
+      setReason("");
+    }
+  }, [student]);
+
+  const requestMutation = useMutation({
+    mutationFn: () => requestCorrection({
+      studentId: student!.id,
+      date,
+      ...registerSlot,
+      currentStatus: record ? record.status : null,
+      requestedStatus,
+      requestedReasonId: reasonId === "none" ? null : reasonId,
+      requestedNotes: notes.trim(),
+      reason: reason.trim()
+    }, user!.id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['attendance-corrections'] });
+      toast({
+        title: "Correction requested",
+        description: "An admin will review it. You'll be notified of the decision.",
+      });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error requesting correction",
+        description: error.message || "There was a problem sending the request.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const canSubmit = !!requestedStatus && requestedStatus !== record?.status && !!reason.trim();
+
+  return (
+    <Dialog open={!!student} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Request a correction for {student?.firstName} {student?.lastName}</DialogTitle>
+          <DialogDescription>
+            {formatDateOnly(date)} · {registerLabel || "Whole day"}. Currently{" "}
+            {record ? getStatusLabel(record.status, attendanceCodes) : "not marked"}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Change to</Label>
+            <Select value={requestedStatus || undefined} onValueChange={setRequestedStatus}>
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a mark" />
+              </SelectTrigger>
+              <SelectContent>
+                {attendanceCodes
+                  .filter(code => code.code !== record?.status)
+                  .map(code => (
+                    <SelectItem key={code.code} value={code.code}>{code.label}</SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Absence reason</Label>
+            <Select value={reasonId} onValueChange={setReasonId} disabled={!requestedStatus || requestedStatus === "present"}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">No reason given</SelectItem>
+                {absenceReasons
+                  .filter(absenceReason => absenceReason.isActive)
+                  .map(absenceReason => (
+                    <SelectItem key={absenceReason.id} value={absenceReason.id}>{absenceReason.name}</SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2 col-span-2">
+            <Label htmlFor="correctionNotes">Note on the register (optional)</Label>
+            <Input
+              id="correctionNotes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2 col-span-2">
+            <Label htmlFor="correctionReason">Why is the change needed?</Label>
+            <Textarea
+              id="correctionReason"
+              placeholder="e.g. Was on the Year 9 field trip"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={requestMutation.isPending}>
+            Cancel
+          </Button>
+          <Button onClick={() => requestMutation.mutate()} disabled={!canSubmit || requestMutation.isPending}>
+            {requestMutation.isPending ? "Sending..." : "Request Correction"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CorrectionRequestDialog;
@@ -0,0 +1,232 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { Lock } from "lucide-react";
+import { DEFAULT_ATTENDANCE_CODES, getStatusLabel } from "@/lib/attendanceCodes";
+import { AttendanceCode, AttendanceRecord, AttendanceStatus, Student } from "@/lib/types";
+import AttendanceCodeIcon from "./AttendanceCodeIcon";
+
+type Mark = Pick<AttendanceRecord, 'studentId' | 'status' | 'notes' | 'reasonId'>;
+
+interface RapidRegisterProps {
+  students: Student[]; // in the order the register is taken
+  attendanceRecords: AttendanceRecord[];
+  attendanceCodes?: AttendanceCode[];
+  lockedClasses?: string[];
+  registerLabel?: string | null;
+  onSave: (marks: Mark[]) => Promise<unknown>;
+  isSaving?: boolean;
+  onExit: () => void;
+}
+
+// Letters for the built-in codes; every code can also be set by its number in the list
+const LETTER_KEYS: Record<string, AttendanceStatus> = {
+  p: 'present',
+  a: 'absent',
+  l: 'late',
+  e: 'excused'
+};
+
+// Keyboard-first register: arrows move between students, a key sets the mark and moves
+// on, and marks are queued until saved in one batch
+const RapidRegister = ({
+  students,
+  attendanceRecords,
+  attendanceCodes = DEFAULT_ATTENDANCE_CODES,
+  lockedClasses = [],
+  registerLabel,
+  onSave,
+  isSaving = false,
+  onExit
+}: RapidRegisterProps) => {
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [pending, setPending] = useState<Record<string, { status: AttendanceStatus; notes: string }>>({});
+  const [noteDraft, setNoteDraft] = useState<string | null>(null); // null when no note is open
+  const containerRef = useRef<HTMLDivElement>(null);
+  const rowRefs = useRef<(HTMLDivElement | null)[]>([]);
+
+  useEffect(() => {
+    containerRef.current?.focus();
+  }, []);
+
+  useEffect(() => {
+    rowRefs.current[activeIndex]?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const getRecord = (studentId: string) => attendanceRecords.find(r => r.studentId === studentId);
+
+  const getMark = (student: Student) => {
+    const record = getRecord(student.id);
+    const queued = pending[student.id];
+    return {
+      status: queued ? queued.status : record?.status ?? null,
+      notes: queued ? queued.notes : record?.notes || ""
+    };
+  };
+
+  const unmarkedCount = students.filter(s => !getMark(s).status).length;
+  const pendingCount = Object.keys(pending).length;
+  const activeStudent = students[activeIndex];
+  const isLocked = (student: Student) => lockedClasses.includes(student.class);
+
+  const queueMark = (student: Student, changes: Partial<{ status: AttendanceStatus; notes: string }>) => {
+    const current = getMark(student);
+    const status = changes.status ?? current.status;
+    if (!status) return; // a note needs a mark to go on
+
+    setPending(prev => ({ ...prev, [student.id]: { status, notes: changes.notes ?? current.notes } }));
+  };
+
+  const moveBy = (step: number) => {
+    setActiveIndex(index => Math.min(Math.max(index + step, 0), students.length - 1));
+  };
+
+  const save = async () => {
+    if (pendingCount === 0) return true;
+
+    const marks = Object.entries(pending).map(([studentId, mark]) => ({
+      studentId,
+      status: mark.status,
+      notes: mark.notes,
+      reasonId: getRecord(studentId)?.reasonId
+    }));
+
+    try {
+      await onSave(marks);
+      setPending({});
+      return true;
+    } catch {
+      return false; // the page reports the error; the queue is kept for another try
+    }
+  };
+
+  const handleDone = async () => {
+    if (await save()) onExit();
+  };
+
+  const closeNote = (keep: boolean) => {
+    if (keep && activeStudent) {
+      queueMark(activeStudent, { notes: noteDraft.trim() });
+    }
+    setNoteDraft(null);
+    containerRef.current?.focus();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (noteDraft !== null || !activeStudent) return;
+
+    if ((e.ctrlKey || e.metaKey) && (e.key === 's' || e.key === 'Enter')) {
+      e.preventDefault();
+      save();
+      return;
+    }
+
+    if (e.ctrlKey || e.metaKey || e.altKey) return;
+
+    const key = e.key.toLowerCase();
+    const status = LETTER_KEYS[key] ?? attendanceCodes[Number(key) - 1]?.code;
+
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      moveBy(e.key === 'ArrowDown' ? 1 : -1);
+    } else if (status && attendanceCodes.some(c => c.code === status)) {
+      e.preventDefault();
+      if (!isLocked(activeStudent)) {
+        queueMark(activeStudent, { status });
+        moveBy(1);
+      }
+    } else if (key === 'n' && !isLocked(activeStudent) && getMark(activeStudent).status) {
+      e.preventDefault();
+      setNoteDraft(getMark(activeStudent).notes);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div className="flex-1 space-y-1">
+          <div className="text-sm">
+            <strong>{unmarkedCount}</strong> of {students.length} still unmarked
+            {pendingCount > 0 && <span className="text-muted-foreground"> · {pendingCount} unsaved</span>}
+          </div>
+          <Progress value={students.length ? ((students.length - unmarkedCount) / students.length) * 100 : 0} />
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => save()} disabled={isSaving || pendingCount === 0}>
+            {isSaving ? "Saving..." : pendingCount > 0 ? `Save ${pendingCount} Changes` : "Save Changes"}
+          </Button>
+          <Button onClick={handleDone} disabled={isSaving}>
+            Done
+          </Button>
+        </div>
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        ↑/↓ move · {attendanceCodes.map((code, index) => {
+          const letter = Object.keys(LETTER_KEYS).find(k => LETTER_KEYS[k] === code.code);
+          return `${letter ? `${letter.toUpperCase()}/` : ''}${index + 1} ${code.label}`;
+        }).join(' · ')} · N note · Ctrl+S save
+      </p>
+
+      <div
+        ref={containerRef}
+        tabIndex={0}
+        onKeyDown={handleKeyDown}
+        className="rounded-md border max-h-[60vh] overflow-y-auto focus:outline-none focus:ring-2 focus:ring-primary"
+        aria-label={`Register${registerLabel ? ` · ${registerLabel}` : ''}`}
+      >
+        {students.length > 0 ? (
+          students.map((student, index) => {
+            const mark = getMark(student);
+            const code = attendanceCodes.find(c => c.code === mark.status);
+            const isActive = index === activeIndex;
+
+            return (
+              <div
+                key={student.id}
+                ref={el => { rowRefs.current[index] = el; }}
+                onClick={() => {
+                  setActiveIndex(index);
+                  containerRef.current?.focus();
+                }}
+                className={`flex items-center gap-3 px-4 py-2 border-b last:border-b-0 cursor-pointer ${isActive ? 'bg-secondary' : ''}`}
+              >
+                <span className="w-8 text-xs text-muted-foreground">{index + 1}</span>
+                <span className="flex-1">
+                  {student.lastName}, {student.firstName}
+                  <span className="ml-2 text-xs text-muted-foreground">{student.class}</span>
+                </span>
+                {isActive && noteDraft !== null ? (
+                  <Input
+                    autoFocus
+                    value={noteDraft}
+                    onChange={(e) => setNoteDraft(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') closeNote(true);
+                      if (e.key === 'Escape') closeNote(false);
+                    }}
+                    placeholder="Note, then Enter"
+                    className="h-7 w-64 text-xs"
+                  />
+                ) : (
+                  mark.notes && <span className="text-xs text-muted-foreground truncate max-w-[16rem]">{mark.notes}</span>
+                )}
+                {pending[student.id] && <span className="h-2 w-2 rounded-full bg-primary" title="Not saved yet" />}
+                {isLocked(student) && <Lock className="h-3 w-3 text-muted-foreground" />}
+                <span className="w-28 flex items-center gap-1 text-sm" style={code ? { color: code.color } : undefined}>
+                  {code && <AttendanceCodeIcon icon={code.icon} className="h-4 w-4" />}
+                  {mark.status ? getStatusLabel(mark.status, attendanceCodes) : <span className="text-muted-foreground">Unmarked</span>}
+                </span>
+              </div>
+            );
+          })
+        ) : (
+          <p className="p-6 text-center text-sm text-muted-foreground">No students to register.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RapidRegister;
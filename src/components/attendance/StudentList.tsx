@@ -2,9 +2,15 @@
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Student, AttendanceRecord } from "@/lib/types";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Student, AbsenceReason, AttendanceCode, AttendanceRecord } from "@/lib/types";
+import { formatMinutesLate } from "@/lib/arrivalTimes";
+import { DEFAULT_ATTENDANCE_CODES, UNMARKED_LABEL, UNMARKED_STATUS, getStatusCategory, getStatusLabel } from "@/lib/attendanceCodes";
+import { getToday } from "@/lib/dateUtils";
+import AttendanceCodeIcon from "./AttendanceCodeIcon";
 import { useState } from "react";
-import { CheckCircle, XCircle, Clock, AlertCircle, Search, Download, Trash2, ArrowUpDown, BellRing, Phone, Mail } from "lucide-react";
+import { Link } from "react-router-dom";
+import { Clock, Search, Download, Pencil, Trash2, ArrowRightLeft, ArrowUpDown, BellRing, CloudOff, FilePen, History, Lock, Phone, Mail } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
 
@@ -12,22 +18,44 @@ interface StudentListProps {
   students: Student[];
   isLoading: boolean;
   date?: string;
+  registerLabel?: string | null; // e.g. "Period 2" or "Morning session"
   attendanceRecords?: AttendanceRecord[];
+  attendanceCodes?: AttendanceCode[];
+  absenceReasons?: AbsenceReason[];
   onRecordAttendance?: (studentId: string, status: AttendanceRecord['status']) => void;
+  onRecordTimes?: (studentId: string, times: Pick<AttendanceRecord, 'arrivalTime' | 'departureTime'>) => void;
+  onRecordReason?: (studentId: string, details: Pick<AttendanceRecord, 'reasonId' | 'notes'>) => void;
+  onViewHistory?: (student: Student) => void;
+  onRequestCorrection?: (student: Student) => void; // offered on submitted registers
+  onEditStudent?: (student: Student) => void;
+  onTransferStudent?: (student: Student) => void;
   onDeleteStudent?: (studentId: string) => void;
-  filterStatus?: AttendanceRecord['status'] | null;
+  filterStatus?: AttendanceRecord['status'] | null; // a status code, a category such as "absent", or UNMARKED_STATUS
   selectedClass?: string | null;
+  lockedClasses?: string[]; // classes whose register has been submitted for this date
+  pendingStudentIds?: string[]; // marks saved on this device but not yet on the server
 }
 
 const StudentList = ({ 
   students, 
   isLoading, 
   date, 
+  registerLabel,
   attendanceRecords = [], 
+  attendanceCodes = DEFAULT_ATTENDANCE_CODES,
+  absenceReasons = [],
   onRecordAttendance,
+  onRecordTimes,
+  onRecordReason,
+  onViewHistory,
+  onRequestCorrection,
+  onEditStudent,
+  onTransferStudent,
   onDeleteStudent,
   filterStatus,
-  selectedClass
+  selectedClass,
+  lockedClasses = [],
+  pendingStudentIds = []
 }: StudentListProps) => {
   const [searchTerm, setSearchTerm] = useState("");
   const [sortBy, setSortBy] = useState<string>("lastName");
@@ -35,8 +63,14 @@ const StudentList = ({
   const [notificationInProgress, setNotificationInProgress] = useState<{[key: string]: boolean}>({});
   const { toast } = useToast();
   
+  // Without a register to take, the day's status is shown read-only
+  const showStatus = !onRecordAttendance && !!date;
+
+  const getAttendanceRecord = (studentId: string): AttendanceRecord | undefined =>
+    attendanceRecords.find(r => r.studentId === studentId);
+
   const getAttendanceStatus = (studentId: string): AttendanceRecord['status'] | null => {
-    const record = attendanceRecords.find(r => r.studentId === studentId);
+    const record = getAttendanceRecord(studentId);
     return record ? record.status : null;
   };
   
@@ -59,7 +93,7 @@ const StudentList = ({
       const { data, error } = await supabase.functions.invoke('send-absence-notification', {
         body: {
           studentId: student.id,
-          date: date || new Date().toISOString().split('T')[0],
+          date: date || getToday(),
           notificationType: type
         }
       });
@@ -104,7 +138,10 @@ const StudentList = ({
       student.studentId.includes(searchTerm) ||
       student.class.toLowerCase().includes(searchTerm.toLowerCase());
     
-    const matchesStatus = !filterStatus || getAttendanceStatus(student.id) === filterStatus;
+    const status = getAttendanceStatus(student.id);
+    const matchesStatus = !filterStatus || (filterStatus === UNMARKED_STATUS
+      ? !status
+      : status === filterStatus || getStatusCategory(status, attendanceCodes) === filterStatus);
     
     const matchesClass = !selectedClass || student.class === selectedClass;
     
@@ -138,7 +175,7 @@ const StudentList = ({
     let headers = ['Student ID', 'First Name', 'Last Name', 'Class', 'Grade Level', 'Email', 'Contact Phone'];
     
     if (includeAttendance) {
-      headers.push(`Attendance (${date})`);
+      headers.push(`Attendance (${date}${registerLabel ? ` ${registerLabel}` : ''})`, 'Reason', 'Notes', 'Arrival', 'Departure', 'Minutes Late');
     }
     
     const csvData = filteredStudents.map(student => {
@@ -153,8 +190,15 @@ const StudentList = ({
       ];
       
       if (includeAttendance) {
-        const status = getAttendanceStatus(student.id);
-        row.push(status ? status.charAt(0).toUpperCase() + status.slice(1) : 'Not recorded');
+        const record = getAttendanceRecord(student.id);
+        row.push(
+          record ? getStatusLabel(record.status, attendanceCodes) : UNMARKED_LABEL,
+          absenceReasons.find(r => r.id === record?.reasonId)?.name || '',
+          record?.notes ? `"${record.notes.replace(/"/g, '""')}"` : '',
+          record?.arrivalTime || '',
+          record?.departureTime || '',
+          record?.minutesLate ?? ''
+        );
       }
       
       return row;
@@ -169,7 +213,7 @@ const StudentList = ({
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `students_list_${date || new Date().toISOString().split('T')[0]}.csv`;
+    a.download = `students_list_${date || getToday()}${registerLabel ? `_${registerLabel.replace(/\s+/g, '_')}` : ''}.csv`;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
@@ -243,22 +287,46 @@ const StudentList = ({
                   )}
                 </Button>
               </TableHead>
+              {showStatus && <TableHead>Status</TableHead>}
               <TableHead>Contact</TableHead>
               <TableHead>Actions</TableHead>
-              {onRecordAttendance && <TableHead>Attendance</TableHead>}
-              {onDeleteStudent && <TableHead className="w-16">Delete</TableHead>}
+              {onRecordAttendance && <TableHead>{registerLabel ? `Attendance · ${registerLabel}` : 'Attendance'}</TableHead>}
+              {(onEditStudent || onTransferStudent || onDeleteStudent) && <TableHead className="w-32">Manage</TableHead>}
             </TableRow>
           </TableHeader>
           <TableBody>
             {sortedStudents.length > 0 ? (
               sortedStudents.map((student) => {
-                const status = getAttendanceStatus(student.id);
+                const record = getAttendanceRecord(student.id);
+                const status = record ? record.status : null;
+                const isLocked = lockedClasses.includes(student.class);
                 
                 return (
                   <TableRow key={student.id} className="group transition-all-200">
                     <TableCell className="font-medium">{student.studentId}</TableCell>
-                    <TableCell>{student.lastName}, {student.firstName}</TableCell>
+                    <TableCell>
+                      <Link to={`/students/${student.id}`} className="hover:underline">
+                        {student.lastName}, {student.firstName}
+                      </Link>
+                      {record?.minutesLate > 0 && (
+                        <span className="ml-2 inline-flex items-center text-xs text-amber-600">
+                          <Clock className="h-3 w-3 mr-1" />
+                          {formatMinutesLate(record.minutesLate)}
+                        </span>
+                      )}
+                    </TableCell>
                     <TableCell>{student.class}</TableCell>
+                    {showStatus && (
+                      <TableCell>
+                        {status ? (
+                          <span style={{ color: attendanceCodes.find(c => c.code === status)?.color }}>
+                            {getStatusLabel(status, attendanceCodes)}
+                          </span>
+                        ) : (
+                          <span className="text-muted-foreground">{UNMARKED_LABEL}</span>
+                        )}
+                      </TableCell>
+                    )}
                     <TableCell>
                       <div className="flex flex-col gap-1 text-sm">
                         {student.contactPhone && (
@@ -279,7 +347,7 @@ const StudentList = ({
                       </div>
                     </TableCell>
                     <TableCell>
-                      {status === 'absent' && (
+                      {getStatusCategory(status, attendanceCodes) === 'absent' && (
                         <div className="flex gap-2">
                           {student.contactPhone && (
                             <Button
@@ -325,57 +393,151 @@ const StudentList = ({
                     </TableCell>
                     {onRecordAttendance && (
                       <TableCell>
-                        <div className="flex space-x-1">
-                          <Button
-                            size="sm"
-                            variant={status === 'present' ? 'default' : 'outline'}
-                            className="h-8 w-8 p-0 rounded-full"
-                            onClick={() => onRecordAttendance(student.id, 'present')}
-                            title="Present"
-                          >
-                            <CheckCircle className="h-4 w-4" />
-                          </Button>
-                          <Button
-                            size="sm"
-                            variant={status === 'absent' ? 'default' : 'outline'}
-                            className="h-8 w-8 p-0 rounded-full"
-                            onClick={() => onRecordAttendance(student.id, 'absent')}
-                            title="Absent"
-                          >
-                            <XCircle className="h-4 w-4" />
-                          </Button>
-                          <Button
-                            size="sm"
-                            variant={status === 'late' ? 'default' : 'outline'}
-                            className="h-8 w-8 p-0 rounded-full"
-                            onClick={() => onRecordAttendance(student.id, 'late')}
-                            title="Late"
-                          >
-                            <Clock className="h-4 w-4" />
-                          </Button>
-                          <Button
-                            size="sm"
-                            variant={status === 'excused' ? 'default' : 'outline'}
-                            className="h-8 w-8 p-0 rounded-full"
-                            onClick={() => onRecordAttendance(student.id, 'excused')}
-                            title="Excused"
-                          >
-                            <AlertCircle className="h-4 w-4" />
-                          </Button>
+                        <div className="flex flex-wrap gap-1">
+                          {attendanceCodes.map((code) => (
+                            <Button
+                              key={code.code}
+                              size="sm"
+                              variant="outline"
+                              className="h-8 w-8 p-0 rounded-full"
+                              style={status === code.code
+                                ? { backgroundColor: code.color, borderColor: code.color, color: "white" }
+                                : { color: code.color }}
+                              onClick={() => onRecordAttendance(student.id, code.code)}
+                              disabled={isLocked}
+                              title={code.label}
+                            >
+                              <AttendanceCodeIcon icon={code.icon} className="h-4 w-4" />
+                            </Button>
+                          ))}
+                          {onViewHistory && record && (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              className="h-8 w-8 p-0 text-muted-foreground"
+                              onClick={() => onViewHistory(student)}
+                              title="View Changes"
+                            >
+                              <History className="h-4 w-4" />
+                            </Button>
+                          )}
+                          {pendingStudentIds.includes(student.id) && (
+                            <span className="inline-flex items-center text-amber-600" title="Saved on this device, waiting to sync">
+                              <CloudOff className="h-4 w-4" />
+                            </span>
+                          )}
+                          {isLocked && (onRequestCorrection ? (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              className="h-8 w-8 p-0 text-muted-foreground"
+                              onClick={() => onRequestCorrection(student)}
+                              title="Register submitted. Request a Correction"
+                            >
+                              <FilePen className="h-4 w-4" />
+                            </Button>
+                          ) : (
+                            <span className="inline-flex items-center text-xs text-muted-foreground" title="Register submitted">
+                              <Lock className="h-3 w-3" />
+                            </span>
+                          ))}
                         </div>
+                        {onRecordReason && record && record.status !== 'present' && (
+                          <div className="flex items-center gap-2 mt-2">
+                            <Select
+                              value={record.reasonId || "none"}
+                              onValueChange={(value) => onRecordReason(student.id, { reasonId: value === "none" ? null : value })}
+                              disabled={isLocked}
+                            >
+                              <SelectTrigger className="h-7 w-[10rem] px-2 text-xs" aria-label="Reason">
+                                <SelectValue placeholder="Reason" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="none">No reason given</SelectItem>
+                                {absenceReasons
+                                  .filter(reason => reason.isActive || reason.id === record.reasonId)
+                                  .map(reason => (
+                                    <SelectItem key={reason.id} value={reason.id}>{reason.name}</SelectItem>
+                                  ))}
+                              </SelectContent>
+                            </Select>
+                            <Input
+                              key={`notes-${record.notes}`}
+                              placeholder="Note (optional)"
+                              defaultValue={record.notes || ""}
+                              onBlur={(e) => e.target.value !== (record.notes || "") &&
+                                onRecordReason(student.id, { notes: e.target.value })}
+                              className="h-7 w-[10rem] px-2 text-xs"
+                              disabled={isLocked}
+                              aria-label="Note"
+                            />
+                          </div>
+                        )}
+                        {onRecordTimes && (
+                          <div className="flex items-center gap-2 mt-2 text-xs text-muted-foreground">
+                            <span>In</span>
+                            <Input
+                              key={`in-${record?.arrivalTime}`}
+                              type="time"
+                              defaultValue={record?.arrivalTime || ""}
+                              onBlur={(e) => e.target.value !== (record?.arrivalTime || "") &&
+                                onRecordTimes(student.id, { arrivalTime: e.target.value || null })}
+                              className="h-7 w-[6.5rem] px-2 text-xs"
+                              disabled={isLocked}
+                              aria-label="Arrival time"
+                            />
+                            <span>Out</span>
+                            <Input
+                              key={`out-${record?.departureTime}`}
+                              type="time"
+                              defaultValue={record?.departureTime || ""}
+                              onBlur={(e) => e.target.value !== (record?.departureTime || "") &&
+                                onRecordTimes(student.id, { departureTime: e.target.value || null })}
+                              className="h-7 w-[6.5rem] px-2 text-xs"
+                              disabled={isLocked}
+                              aria-label="Departure time"
+                            />
+                          </div>
+                        )}
                       </TableCell>
                     )}
-                    {onDeleteStudent && (
+                    {(onEditStudent || onTransferStudent || onDeleteStudent) && (
                       <TableCell>
-                        <Button
-                          size="sm"
-                          variant="ghost"
-                          className="h-8 w-8 p-0 text-destructive hover:text-destructive hover:bg-destructive/10"
-                          onClick={() => onDeleteStudent(student.id)}
-                          title="Delete Student"
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </Button>
+                        <div className="flex gap-1">
+                          {onEditStudent && (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              className="h-8 w-8 p-0"
+                              onClick={() => onEditStudent(student)}
+                              title="Edit Student"
+                            >
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                          )}
+                          {onTransferStudent && (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              className="h-8 w-8 p-0"
+                              onClick={() => onTransferStudent(student)}
+                              title="Transfer to Another Class"
+                            >
+                              <ArrowRightLeft className="h-4 w-4" />
+                            </Button>
+                          )}
+                          {onDeleteStudent && (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              className="h-8 w-8 p-0 text-destructive hover:text-destructive hover:bg-destructive/10"
+                              onClick={() => onDeleteStudent(student.id)}
+                              title="Delete Student"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </div>
                       </TableCell>
                     )}
                   </TableRow>
@@ -383,7 +545,7 @@ const StudentList = ({
               })
             ) : (
               <TableRow>
-                <TableCell colSpan={onRecordAttendance && onDeleteStudent ? 7 : (onRecordAttendance || onDeleteStudent ? 6 : 5)} className="h-24 text-center">
+                <TableCell colSpan={5 + (onRecordAttendance || showStatus ? 1 : 0) + (onEditStudent || onTransferStudent || onDeleteStudent ? 1 : 0)} className="h-24 text-center">
                   No students found.
                 </TableCell>
               </TableRow>
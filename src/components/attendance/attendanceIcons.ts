@@ -0,0 +1,29 @@
+import {
+  AlertCircle,
+  Ban,
+  Bus,
+  CheckCircle,
+  Circle,
+  Clock,
+  Home,
+  Laptop,
+  LucideIcon,
+  Stethoscope,
+  Trophy,
+  XCircle
+} from "lucide-react";
+
+// Icons an attendance code can use, keyed by the name stored in attendance_codes.icon
+export const ATTENDANCE_ICONS: Record<string, LucideIcon> = {
+  "check-circle": CheckCircle,
+  "x-circle": XCircle,
+  "clock": Clock,
+  "alert-circle": AlertCircle,
+  "bus": Bus,
+  "home": Home,
+  "stethoscope": Stethoscope,
+  "laptop": Laptop,
+  "ban": Ban,
+  "trophy": Trophy,
+  "circle": Circle
+};
@@ -2,6 +2,7 @@
 import { ReactNode, useEffect } from "react";
 import { useNavigate } from "react-router-dom";
 import { useAuth } from "@/contexts/AuthContext";
+import { useSchoolTimezone } from "@/hooks/use-school-timezone";
 
 type ProtectedRouteProps = {
   children: ReactNode;
@@ -10,6 +11,7 @@ type ProtectedRouteProps = {
 const ProtectedRoute = ({ children }: ProtectedRouteProps) => {
   const { user, loading } = useAuth();
   const navigate = useNavigate();
+  const { isLoading: isLoadingTimezone } = useSchoolTimezone(!!user);
 
   useEffect(() => {
     if (!loading && !user) {
@@ -17,8 +19,8 @@ const ProtectedRoute = ({ children }: ProtectedRouteProps) => {
     }
   }, [user, loading, navigate]);
 
-  // Show nothing while checking authentication
-  if (loading) {
+  // Show nothing while checking authentication and loading the school's timezone
+  if (loading || isLoadingTimezone) {
     return (
       <div className="flex items-center justify-center min-h-screen">
         <div className="animate-spin h-8 w-8 border-4 border-primary border-t-transparent rounded-full"></div>
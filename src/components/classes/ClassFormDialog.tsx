@@ -0,0 +1,150 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { SchoolClass } from "@/lib/types";
+
+type ClassFormValues = Omit<SchoolClass, "id"> & { id?: string };
+
+interface ClassFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  schoolClass?: SchoolClass | null; // the class being edited, or none to add one
+  onSave: (values: ClassFormValues) => void;
+  isSaving?: boolean;
+}
+
+const EMPTY_CLASS: ClassFormValues = {
+  name: "",
+  gradeLevel: 1,
+  homeroomTeacher: "",
+  homeroomTeacherEmail: "",
+  room: "",
+  capacity: null
+};
+
+const ClassFormDialog = ({ open, onOpenChange, schoolClass, onSave, isSaving = false }: ClassFormDialogProps) => {
+  const [values, setValues] = useState<ClassFormValues>(EMPTY_CLASS);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (open) {
+      setValues(schoolClass ? { ...schoolClass } : EMPTY_CLASS);
+      setErrors({});
+    }
+  }, [open, schoolClass]);
+
+  const setValue = <K extends keyof ClassFormValues>(key: K, value: ClassFormValues[K]) => {
+    setValues(prev => ({ ...prev, [key]: value }));
+  };
+
+  const handleSubmit = () => {
+    const newErrors: Record<string, string> = {};
+
+    if (!values.name.trim()) {
+      newErrors.name = "Name is required";
+    }
+    if (!Number.isInteger(values.gradeLevel) || values.gradeLevel < 1) {
+      newErrors.gradeLevel = "Grade must be a whole number";
+    }
+    if (values.capacity != null && (!Number.isInteger(values.capacity) || values.capacity < 1)) {
+      newErrors.capacity = "Capacity must be a positive whole number";
+    }
+    if (values.homeroomTeacherEmail && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(values.homeroomTeacherEmail)) {
+      newErrors.homeroomTeacherEmail = "Enter a valid email address";
+    }
+
+    setErrors(newErrors);
+    if (Object.keys(newErrors).length > 0) return;
+
+    onSave({ ...values, name: values.name.trim() });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{schoolClass ? `Edit ${schoolClass.name}` : "Add Class"}</DialogTitle>
+          <DialogDescription>
+            {schoolClass
+              ? "Renaming a class moves its students with it."
+              : "Students can only be imported into or placed in classes listed here."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="className">Name</Label>
+            <Input
+              id="className"
+              placeholder="10A"
+              value={values.name}
+              onChange={(e) => setValue("name", e.target.value)}
+            />
+            {errors.name && <p className="text-sm text-destructive">{errors.name}</p>}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="classGrade">Grade</Label>
+            <Input
+              id="classGrade"
+              type="number"
+              min={1}
+              value={values.gradeLevel}
+              onChange={(e) => setValue("gradeLevel", Number(e.target.value))}
+            />
+            {errors.gradeLevel && <p className="text-sm text-destructive">{errors.gradeLevel}</p>}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="classTeacher">Homeroom teacher</Label>
+            <Input
+              id="classTeacher"
+              value={values.homeroomTeacher || ""}
+              onChange={(e) => setValue("homeroomTeacher", e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="classTeacherEmail">Teacher email</Label>
+            <Input
+              id="classTeacherEmail"
+              type="email"
+              value={values.homeroomTeacherEmail || ""}
+              onChange={(e) => setValue("homeroomTeacherEmail", e.target.value)}
+            />
+            {errors.homeroomTeacherEmail && <p className="text-sm text-destructive">{errors.homeroomTeacherEmail}</p>}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="classRoom">Room</Label>
+            <Input
+              id="classRoom"
+              value={values.room || ""}
+              onChange={(e) => setValue("room", e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="classCapacity">Capacity</Label>
+            <Input
+              id="classCapacity"
+              type="number"
+              min={1}
+              value={values.capacity ?? ""}
+              onChange={(e) => setValue("capacity", e.target.value ? Number(e.target.value) : null)}
+            />
+            {errors.capacity && <p className="text-sm text-destructive">{errors.capacity}</p>}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSaving}>
+            {isSaving ? "Saving..." : "Save Class"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ClassFormDialog;
@@ -0,0 +1,27 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AcademicYear } from "@/lib/types";
+
+interface AcademicYearSelectProps {
+  years: AcademicYear[];
+  value: string | null;
+  onChange: (yearId: string) => void;
+  disabled?: boolean;
+}
+
+const AcademicYearSelect = ({ years, value, onChange, disabled }: AcademicYearSelectProps) => (
+  <Select value={value || undefined} onValueChange={onChange} disabled={disabled || years.length === 0}>
+    <SelectTrigger className="w-[200px]">
+      <SelectValue placeholder="Academic year" />
+    </SelectTrigger>
+    <SelectContent>
+      {years.map(year => (
+        <SelectItem key={year.id} value={year.id}>
+          {year.name}
+          {year.isCurrent ? " (current)" : year.status === "archived" ? " (archived)" : ""}
+        </SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
+
+export default AcademicYearSelect;
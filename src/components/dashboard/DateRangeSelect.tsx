@@ -0,0 +1,67 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { DateRange } from "@/lib/types";
+import { addDays } from "@/lib/dateUtils";
+
+interface DateRangeSelectProps {
+  value: DateRange;
+  onChange: (range: DateRange) => void;
+  today: string; // YYYY-MM-DD
+  disabled?: boolean;
+}
+
+const getPresets = (today: string): Record<string, { label: string; range: DateRange }> => ({
+  today: { label: "Today", range: { from: today, to: today } },
+  yesterday: { label: "Yesterday", range: { from: addDays(today, -1), to: addDays(today, -1) } },
+  week: { label: "Last 7 days", range: { from: addDays(today, -6), to: today } },
+  month: { label: "This month", range: { from: `${today.slice(0, 8)}01`, to: today } }
+});
+
+// A quick pick for common periods, or any single day or range through the two date inputs
+const DateRangeSelect = ({ value, onChange, today, disabled }: DateRangeSelectProps) => {
+  const presets = getPresets(today);
+  const preset = Object.keys(presets).find(key =>
+    presets[key].range.from === value.from && presets[key].range.to === value.to
+  ) || "custom";
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Select
+        value={preset}
+        onValueChange={key => presets[key] && onChange(presets[key].range)}
+        disabled={disabled}
+      >
+        <SelectTrigger className="w-[140px]">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {Object.entries(presets).map(([key, { label }]) => (
+            <SelectItem key={key} value={key}>{label}</SelectItem>
+          ))}
+          <SelectItem value="custom" disabled>Custom</SelectItem>
+        </SelectContent>
+      </Select>
+      <Input
+        type="date"
+        aria-label="From"
+        value={value.from}
+        max={value.to}
+        onChange={(e) => e.target.value && onChange({ from: e.target.value, to: e.target.value > value.to ? e.target.value : value.to })}
+        className="w-auto"
+        disabled={disabled}
+      />
+      <span className="text-sm text-muted-foreground">to</span>
+      <Input
+        type="date"
+        aria-label="To"
+        value={value.to}
+        min={value.from}
+        onChange={(e) => e.target.value && onChange({ from: e.target.value < value.from ? e.target.value : value.from, to: e.target.value })}
+        className="w-auto"
+        disabled={disabled}
+      />
+    </div>
+  );
+};
+
+export default DateRangeSelect;
@@ -0,0 +1,138 @@
+import React, { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableHeader, TableRow, TableHead, TableBody, TableCell } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { AttendanceRecord, RegisterState, RegisterSubmission, SchoolClass, Student } from "@/lib/types";
+import { REGISTER_STATE_LABELS, getRegisterCompletion, isPastCutoff } from "@/lib/registerCompletion";
+import { toSchoolTime } from "@/lib/dateUtils";
+import { AlertTriangle, ClipboardCheck } from "lucide-react";
+
+interface RegisterCompletionProps {
+  date: string;
+  today: string;
+  classes: SchoolClass[];
+  students: Student[];
+  attendanceRecords: AttendanceRecord[]; // one per student for the day
+  submissions: RegisterSubmission[];
+  cutoffTime: string | null; // HH:mm, the school's register reminder time
+  nonInstructionalReason?: string | null;
+  onSelectClass?: (className: string) => void;
+}
+
+const STATE_VARIANTS: Record<RegisterState, "default" | "secondary" | "destructive" | "outline"> = {
+  submitted: "default",
+  complete: "secondary",
+  in_progress: "outline",
+  not_started: "outline",
+  not_submitted: "destructive",
+  missing: "destructive"
+};
+
+// How long between checks for the cutoff time passing while the dashboard is open
+const CLOCK_INTERVAL_MS = 60 * 1000;
+
+// Which classes have taken the day's register, flagging those missing or not submitted after the cutoff
+const RegisterCompletion: React.FC<RegisterCompletionProps> = ({
+  date,
+  today,
+  classes,
+  students,
+  attendanceRecords,
+  submissions,
+  cutoffTime,
+  nonInstructionalReason,
+  onSelectClass
+}) => {
+  const [now, setNow] = useState(() => toSchoolTime(new Date()));
+
+  useEffect(() => {
+    if (date !== today) return;
+    const timer = setInterval(() => setNow(toSchoolTime(new Date())), CLOCK_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [date, today]);
+
+  const isOverdue = !nonInstructionalReason && isPastCutoff(date, today, now, cutoffTime);
+  const completion = getRegisterCompletion(classes, students, attendanceRecords, submissions, isOverdue);
+  const missing = completion.filter(row => row.state === 'missing');
+  const notSubmitted = completion.filter(row => row.state === 'not_submitted');
+  const submittedCount = completion.filter(row => row.state === 'submitted').length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <ClipboardCheck className="mr-2 h-5 w-5" />
+          Registers Taken
+        </CardTitle>
+        <CardDescription>
+          {nonInstructionalReason
+            ? `Not a school day (${nonInstructionalReason}), so no registers are expected.`
+            : `${submittedCount} of ${completion.length} classes have submitted. ${cutoffTime
+              ? `Registers with no one marked by ${cutoffTime} are missing, and those marked but not submitted are flagged.`
+              : "No register reminder time is set, so today's registers aren't flagged."}`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {missing.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2 rounded-md border border-destructive/50 p-3 text-sm">
+            <AlertTriangle className="h-4 w-4 text-destructive" />
+            <span>{cutoffTime && date === today ? `Missing after ${cutoffTime}:` : "Missing:"}</span>
+            {missing.map(row => (
+              <Badge key={row.className} variant="destructive" title={row.homeroomTeacher || undefined}>
+                {row.className}
+              </Badge>
+            ))}
+          </div>
+        )}
+        {notSubmitted.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2 rounded-md border p-3 text-sm">
+            <AlertTriangle className="h-4 w-4 text-muted-foreground" />
+            <span>Marked but not submitted:</span>
+            {notSubmitted.map(row => (
+              <Badge key={row.className} variant="outline" title={row.homeroomTeacher || undefined}>
+                {row.className}
+              </Badge>
+            ))}
+          </div>
+        )}
+        {completion.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Class</TableHead>
+                <TableHead>Teacher</TableHead>
+                <TableHead>Marked</TableHead>
+                <TableHead>Register</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {completion.map(row => (
+                <TableRow
+                  key={row.className}
+                  className={onSelectClass ? "cursor-pointer" : undefined}
+                  onClick={() => onSelectClass?.(row.className)}
+                >
+                  <TableCell className="font-medium">{row.className}</TableCell>
+                  <TableCell className="text-muted-foreground">{row.homeroomTeacher || "—"}</TableCell>
+                  <TableCell>{row.markedCount} / {row.totalStudents}</TableCell>
+                  <TableCell>
+                    <Badge variant={STATE_VARIANTS[row.state]}>{REGISTER_STATE_LABELS[row.state]}</Badge>
+                    {row.submission && (
+                      <span className="ml-2 text-xs text-muted-foreground">
+                        {row.submission.submittedByName || "unknown"}, {new Date(row.submission.submittedAt).toLocaleTimeString()}
+                      </span>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <div className="text-center py-4 text-muted-foreground">No classes set up yet.</div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RegisterCompletion;
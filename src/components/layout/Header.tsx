@@ -4,6 +4,8 @@ import { useTheme } from "@/contexts/ThemeContext";
 import { Sun, Moon, School, Menu, Settings } from "lucide-react";
 import { useState } from "react";
 import { Link, useLocation } from "react-router-dom";
+import NotificationsMenu from "./NotificationsMenu";
+import SyncStatus from "./SyncStatus";
 
 const Header = () => {
   const { theme, toggleTheme } = useTheme();
@@ -13,6 +15,8 @@ const Header = () => {
   const navLinks = [
     { name: "Dashboard", path: "/" },
     { name: "Students", path: "/students" },
+    { name: "Classes", path: "/classes" },
+    { name: "Corrections", path: "/corrections" },
     { name: "Import", path: "/import" },
     { name: "Settings", path: "/settings" }
   ];
@@ -43,6 +47,8 @@ const Header = () => {
         </nav>
 
         <div className="flex items-center gap-2">
+          <SyncStatus />
+          <NotificationsMenu />
           <Button
             variant="ghost"
             size="icon"
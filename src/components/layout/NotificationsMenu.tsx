@@ -0,0 +1,81 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useNavigate } from "react-router-dom";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Button } from "@/components/ui/button";
+import { Bell } from "lucide-react";
+import { useAuth } from "@/contexts/AuthContext";
+import { getUserNotifications, markNotificationsRead } from "@/lib/supabaseService";
+
+const NotificationsMenu = () => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+
+  const { data: notifications = [] } = useQuery({
+    queryKey: ['user-notifications', user?.id],
+    queryFn: getUserNotifications,
+    enabled: !!user,
+    refetchInterval: 60000
+  });
+
+  const unread = notifications.filter(n => !n.readAt);
+
+  const markReadMutation = useMutation({
+    mutationFn: markNotificationsRead,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['user-notifications'] });
+    }
+  });
+
+  if (!user) return null;
+
+  // Opening the menu counts as reading what's in it
+  const handleOpenChange = (open: boolean) => {
+    if (open && unread.length > 0) {
+      markReadMutation.mutate(unread.map(n => n.id));
+    }
+  };
+
+  return (
+    <DropdownMenu onOpenChange={handleOpenChange}>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative rounded-full" aria-label="Notifications">
+          <Bell className="h-5 w-5" />
+          {unread.length > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 bg-destructive text-destructive-foreground rounded-full text-[10px] leading-4 min-w-4 px-1">
+              {unread.length}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <DropdownMenuLabel>Notifications</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {notifications.length > 0 ? (
+          notifications.map((notification) => (
+            <DropdownMenuItem
+              key={notification.id}
+              className="flex flex-col items-start gap-0.5"
+              onClick={() => notification.link && navigate(notification.link)}
+            >
+              <span className={notification.readAt ? "text-sm" : "text-sm font-medium"}>{notification.title}</span>
+              {notification.body && <span className="text-xs text-muted-foreground">{notification.body}</span>}
+              <span className="text-xs text-muted-foreground">{new Date(notification.createdAt).toLocaleString()}</span>
+            </DropdownMenuItem>
+          ))
+        ) : (
+          <p className="px-2 py-4 text-sm text-center text-muted-foreground">No notifications.</p>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default NotificationsMenu;
@@ -0,0 +1,89 @@
+import { useQuery } from "@tanstack/react-query";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Button } from "@/components/ui/button";
+import { CloudOff, RefreshCw, TriangleAlert } from "lucide-react";
+import { useAttendanceSync } from "@/hooks/use-attendance-sync";
+import { getStudents } from "@/lib/supabaseService";
+import { getStatusLabel } from "@/lib/attendanceCodes";
+import { formatDateOnly } from "@/lib/dateUtils";
+
+// Shows marks saved on this device but not yet on the server, and keeps trying to send them
+const SyncStatus = () => {
+  const { queuedMarks, isOnline, isSyncing, retry, discard } = useAttendanceSync({ autoSync: true });
+
+  const { data: students = [] } = useQuery({
+    queryKey: ['students', true],
+    queryFn: () => getStudents(false),
+    enabled: queuedMarks.length > 0
+  });
+
+  if (isOnline && queuedMarks.length === 0) return null;
+
+  const failed = queuedMarks.filter(entry => entry.lastError);
+
+  const getStudentName = (studentId: string) => {
+    const student = students.find(s => s.id === studentId);
+    return student ? `${student.firstName} ${student.lastName}` : "Student";
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className={`flex items-center gap-1 rounded-full ${failed.length > 0 ? "text-destructive" : "text-amber-600"}`}
+        >
+          {failed.length > 0 ? (
+            <TriangleAlert className="h-4 w-4" />
+          ) : isOnline ? (
+            <RefreshCw className={`h-4 w-4 ${isSyncing ? "animate-spin" : ""}`} />
+          ) : (
+            <CloudOff className="h-4 w-4" />
+          )}
+          <span className="text-xs">
+            {queuedMarks.length > 0 ? `${queuedMarks.length} to sync` : "Offline"}
+          </span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 space-y-3">
+        <div>
+          <p className="text-sm font-medium">{isOnline ? "Online" : "Offline"}</p>
+          <p className="text-xs text-muted-foreground">
+            {queuedMarks.length === 0
+              ? "Marks you take are kept on this device until the connection is back."
+              : `${queuedMarks.length} ${queuedMarks.length === 1 ? "mark is" : "marks are"} saved on this device and will be sent automatically.`}
+            {failed.length > 0 && " Marks refused by the server are only sent again when you sync now."}
+          </p>
+        </div>
+
+        {failed.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-xs font-medium text-destructive">Refused by the server</p>
+            {failed.map(entry => (
+              <div key={entry.key} className="flex items-start justify-between gap-2 text-xs">
+                <div>
+                  <p>
+                    {getStudentName(entry.mark.studentId)} · {formatDateOnly(entry.date)} · {getStatusLabel(entry.mark.status)}
+                  </p>
+                  <p className="text-muted-foreground">{entry.lastError}</p>
+                </div>
+                <Button size="sm" variant="ghost" className="h-6 px-2 text-xs" onClick={() => discard([entry.key])}>
+                  Discard
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {queuedMarks.length > 0 && (
+          <Button size="sm" variant="outline" className="w-full" onClick={() => retry()} disabled={!isOnline || isSyncing}>
+            {isSyncing ? "Syncing..." : "Sync Now"}
+          </Button>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default SyncStatus;
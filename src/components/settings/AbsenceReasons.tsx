@@ -0,0 +1,140 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Plus } from "lucide-react";
+import { useToast } from "@/components/ui/use-toast";
+import { getAbsenceReasons, saveAbsenceReason } from "@/lib/supabaseService";
+import { AbsenceReason } from "@/lib/types";
+
+const AbsenceReasons = () => {
+  const [name, setName] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: reasons = [], isLoading } = useQuery({
+    queryKey: ['absence-reasons', 'all'],
+    queryFn: () => getAbsenceReasons(true)
+  });
+
+  const saveReasonMutation = useMutation({
+    mutationFn: saveAbsenceReason,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['absence-reasons'] });
+      setName("");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error saving absence reason",
+        description: error.message || "There was a problem saving the absence reason.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const handleAddReason = () => {
+    if (!name.trim()) {
+      toast({
+        title: "Missing name",
+        description: "Please give the reason a name, e.g. \"Illness\".",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (reasons.some(r => r.name.toLowerCase() === name.trim().toLowerCase())) {
+      toast({
+        title: "Reason already exists",
+        description: `There is already an absence reason called "${name.trim()}".`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    saveReasonMutation.mutate({
+      name: name.trim(),
+      isActive: true,
+      sortOrder: reasons.length
+    });
+  };
+
+  // Reasons are retired rather than deleted so past records keep their reason
+  const handleToggleActive = (reason: AbsenceReason, isActive: boolean) => {
+    saveReasonMutation.mutate({ ...reason, isActive });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Absence Reasons</CardTitle>
+        <CardDescription>
+          The reasons teachers can pick when marking a student absent, late or excused. Retired
+          reasons can no longer be picked but stay on the records that already use them.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Reason</TableHead>
+                <TableHead className="w-24">Active</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {reasons.length > 0 ? (
+                reasons.map((reason) => (
+                  <TableRow key={reason.id}>
+                    <TableCell className={reason.isActive ? "font-medium" : "text-muted-foreground line-through"}>
+                      {reason.name}
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={reason.isActive}
+                        onCheckedChange={(checked) => handleToggleActive(reason, checked)}
+                        disabled={saveReasonMutation.isPending}
+                        aria-label={`${reason.name} active`}
+                      />
+                    </TableCell>
+                  </TableRow>
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={2} className="h-24 text-center">
+                    {isLoading ? "Loading absence reasons..." : "No absence reasons defined."}
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+
+        <div className="flex flex-col sm:flex-row gap-4 items-end">
+          <div className="space-y-2 flex-1">
+            <Label htmlFor="reasonName">New reason</Label>
+            <Input
+              id="reasonName"
+              placeholder="Illness"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+          <Button
+            onClick={handleAddReason}
+            disabled={saveReasonMutation.isPending}
+            className="flex items-center gap-2"
+          >
+            <Plus className="h-4 w-4" />
+            Add Reason
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AbsenceReasons;
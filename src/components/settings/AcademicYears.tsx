@@ -0,0 +1,228 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { GraduationCap, Plus, RefreshCw } from "lucide-react";
+import { useToast } from "@/components/ui/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { getAcademicYears, rebuildAttendanceSummary, saveAcademicYear } from "@/lib/supabaseService";
+import { AcademicYear } from "@/lib/types";
+import RolloverWizard from "./RolloverWizard";
+
+const AcademicYears = () => {
+  const [name, setName] = useState("");
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [isWizardOpen, setIsWizardOpen] = useState(false);
+  const { toast } = useToast();
+  const { isAdmin } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: years = [], isLoading } = useQuery({
+    queryKey: ['academic-years'],
+    queryFn: getAcademicYears
+  });
+
+  const currentYear = years.find(year => year.isCurrent);
+
+  const saveYearMutation = useMutation({
+    mutationFn: saveAcademicYear,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['academic-years'] });
+      setName("");
+      setStartDate("");
+      setEndDate("");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error saving academic year",
+        description: error.message || "There was a problem saving the academic year.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  // Recomputes the year's stored daily totals, e.g. after importing past attendance
+  const rebuildSummaryMutation = useMutation({
+    mutationFn: (year: AcademicYear) => rebuildAttendanceSummary({ from: year.startDate, to: year.endDate }),
+    onSuccess: (_, year) => {
+      ['attendance-summary', 'class-summaries', 'attendance-trends'].forEach(key =>
+        queryClient.invalidateQueries({ queryKey: [key] })
+      );
+      toast({
+        title: "Summary rebuilt",
+        description: `Attendance totals for ${year.name} have been recomputed.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error rebuilding summary",
+        description: error.message || "There was a problem rebuilding the attendance summary.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const handleAddYear = () => {
+    if (!name.trim() || !startDate || !endDate) {
+      toast({
+        title: "Missing details",
+        description: "Please enter a name, start date and end date.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (endDate <= startDate) {
+      toast({
+        title: "Invalid dates",
+        description: "The year must end after it starts.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    saveYearMutation.mutate({ name: name.trim(), startDate, endDate });
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Academic Years</CardTitle>
+          <CardDescription>
+            Attendance is filed under the academic year its date falls in. The dashboard can show
+            any year; archived years are read-only.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Year</TableHead>
+                  <TableHead>Dates</TableHead>
+                  <TableHead>Status</TableHead>
+                  {isAdmin && <TableHead className="w-44" />}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {years.length > 0 ? (
+                  years.map((year) => (
+                    <TableRow key={year.id}>
+                      <TableCell className="font-medium">{year.name}</TableCell>
+                      <TableCell>{year.startDate} – {year.endDate}</TableCell>
+                      <TableCell>
+                        {year.isCurrent ? (
+                          <Badge>Current</Badge>
+                        ) : (
+                          <Badge variant={year.status === "archived" ? "secondary" : "outline"}>
+                            {year.status === "archived" ? "Archived" : "Upcoming"}
+                          </Badge>
+                        )}
+                      </TableCell>
+                      {isAdmin && (
+                        <TableCell>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => rebuildSummaryMutation.mutate(year)}
+                            disabled={rebuildSummaryMutation.isPending}
+                            className="flex items-center gap-2"
+                          >
+                            <RefreshCw className="h-4 w-4" />
+                            Rebuild Summary
+                          </Button>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))
+                ) : (
+                  <TableRow>
+                    <TableCell colSpan={isAdmin ? 4 : 3} className="h-24 text-center">
+                      {isLoading ? "Loading academic years..." : "No academic years defined."}
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-4 gap-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="yearName">Name</Label>
+              <Input
+                id="yearName"
+                placeholder="2027"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="yearStart">Starts</Label>
+              <Input
+                id="yearStart"
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="yearEnd">Ends</Label>
+              <Input
+                id="yearEnd"
+                type="date"
+                value={endDate}
+                onChange={(e) => setEndDate(e.target.value)}
+              />
+            </div>
+            <Button
+              onClick={handleAddYear}
+              disabled={saveYearMutation.isPending}
+              className="flex items-center gap-2"
+            >
+              <Plus className="h-4 w-4" />
+              Add Year
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>End-of-Year Rollover</CardTitle>
+          <CardDescription>
+            Archive the current year's attendance, promote students to the next grade and
+            graduate the final grade.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Button
+            onClick={() => setIsWizardOpen(true)}
+            disabled={!currentYear || !isAdmin}
+            className="flex items-center gap-2"
+          >
+            <GraduationCap className="h-4 w-4" />
+            {currentYear ? `Roll Over ${currentYear.name}` : "No current year"}
+          </Button>
+          {!isAdmin && (
+            <p className="mt-2 text-sm text-muted-foreground">Only an admin can roll over the academic year.</p>
+          )}
+          {currentYear && (
+            <RolloverWizard
+              year={currentYear}
+              open={isWizardOpen}
+              onOpenChange={setIsWizardOpen}
+            />
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default AcademicYears;
@@ -0,0 +1,266 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Pencil, Plus, Trash2, X } from "lucide-react";
+import { useToast } from "@/components/ui/use-toast";
+import { getAttendanceCodes, saveAttendanceCode, deleteAttendanceCode } from "@/lib/supabaseService";
+import { CATEGORY_LABELS, UNMARKED_STATUS, toStatusCode } from "@/lib/attendanceCodes";
+import AttendanceCodeIcon from "@/components/attendance/AttendanceCodeIcon";
+import { ATTENDANCE_ICONS } from "@/components/attendance/attendanceIcons";
+import { AttendanceCategory, AttendanceCode } from "@/lib/types";
+
+const AttendanceCodes = () => {
+  const [editingCode, setEditingCode] = useState<string | null>(null);
+  const [label, setLabel] = useState("");
+  const [color, setColor] = useState("#6b7280");
+  const [icon, setIcon] = useState("circle");
+  const [countsAs, setCountsAs] = useState<AttendanceCategory>("neutral");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: codes = [], isLoading } = useQuery({
+    queryKey: ['attendance-codes'],
+    queryFn: getAttendanceCodes
+  });
+
+  const resetForm = () => {
+    setEditingCode(null);
+    setLabel("");
+    setColor("#6b7280");
+    setIcon("circle");
+    setCountsAs("neutral");
+  };
+
+  const saveCodeMutation = useMutation({
+    mutationFn: saveAttendanceCode,
+    onSuccess: () => {
+      // Every rate depends on the counts-as flags
+      queryClient.invalidateQueries();
+      resetForm();
+      toast({
+        title: "Attendance code saved",
+        description: "The list of attendance codes has been updated.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error saving attendance code",
+        description: error.message || "There was a problem saving the attendance code.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const deleteCodeMutation = useMutation({
+    mutationFn: deleteAttendanceCode,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['attendance-codes'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error deleting attendance code",
+        description: error.message || "There was a problem deleting the attendance code.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const handleEdit = (code: AttendanceCode) => {
+    setEditingCode(code.code);
+    setLabel(code.label);
+    setColor(code.color);
+    setIcon(code.icon);
+    setCountsAs(code.countsAs);
+  };
+
+  const handleSave = () => {
+    const code = editingCode || toStatusCode(label);
+
+    if (!code) {
+      toast({
+        title: "Missing label",
+        description: "Please give the code a label, e.g. \"School trip\".",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (code === UNMARKED_STATUS) {
+      toast({
+        title: "Reserved label",
+        description: `"${label.trim()}" is how students with no mark yet are shown. Please choose another label.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (!editingCode && codes.some(c => c.code === code)) {
+      toast({
+        title: "Code already exists",
+        description: `There is already an attendance code called "${label.trim()}".`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const existing = codes.find(c => c.code === code);
+
+    saveCodeMutation.mutate({
+      code,
+      label: label.trim(),
+      color,
+      icon,
+      countsAs,
+      sortOrder: existing ? existing.sortOrder : codes.length
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Attendance Codes</CardTitle>
+        <CardDescription>
+          The statuses teachers can mark on a register. Whether a code counts as present, absent or
+          neutral decides how it is treated in attendance rates, absence totals and alerts; neutral
+          codes are left out of rates altogether.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Code</TableHead>
+                <TableHead>Label</TableHead>
+                <TableHead>Counts As</TableHead>
+                <TableHead className="w-24">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {codes.length > 0 ? (
+                codes.map((code) => (
+                  <TableRow key={code.code}>
+                    <TableCell>
+                      <span className="inline-flex items-center gap-2 font-medium" style={{ color: code.color }}>
+                        <AttendanceCodeIcon icon={code.icon} className="h-4 w-4" />
+                        {code.code}
+                      </span>
+                    </TableCell>
+                    <TableCell>{code.label}</TableCell>
+                    <TableCell>{CATEGORY_LABELS[code.countsAs]}</TableCell>
+                    <TableCell>
+                      <div className="flex gap-1">
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="h-8 w-8 p-0"
+                          onClick={() => handleEdit(code)}
+                          title="Edit Code"
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        {!code.isSystem && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            className="h-8 w-8 p-0 text-destructive hover:text-destructive hover:bg-destructive/10"
+                            onClick={() => deleteCodeMutation.mutate(code.code)}
+                            disabled={deleteCodeMutation.isPending}
+                            title="Delete Code"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={4} className="h-24 text-center">
+                    {isLoading ? "Loading attendance codes..." : "No attendance codes defined."}
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-5 gap-4 items-end">
+          <div className="space-y-2">
+            <Label htmlFor="codeLabel">Label</Label>
+            <Input
+              id="codeLabel"
+              placeholder="School trip"
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="codeColor">Colour</Label>
+            <Input
+              id="codeColor"
+              type="color"
+              value={color}
+              onChange={(e) => setColor(e.target.value)}
+              className="p-1"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Icon</Label>
+            <Select value={icon} onValueChange={setIcon}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.keys(ATTENDANCE_ICONS).map((name) => (
+                  <SelectItem key={name} value={name}>
+                    <span className="flex items-center gap-2">
+                      <AttendanceCodeIcon icon={name} className="h-4 w-4" />
+                      {name}
+                    </span>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Counts As</Label>
+            <Select value={countsAs} onValueChange={(value) => setCountsAs(value as AttendanceCategory)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(CATEGORY_LABELS) as AttendanceCategory[]).map((category) => (
+                  <SelectItem key={category} value={category}>{CATEGORY_LABELS[category]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              onClick={handleSave}
+              disabled={saveCodeMutation.isPending}
+              className="flex items-center gap-2 flex-1"
+            >
+              {editingCode ? <Pencil className="h-4 w-4" /> : <Plus className="h-4 w-4" />}
+              {editingCode ? "Update" : "Add Code"}
+            </Button>
+            {editingCode && (
+              <Button variant="outline" size="icon" onClick={resetForm} title="Cancel">
+                <X className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AttendanceCodes;
@@ -0,0 +1,260 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/components/ui/use-toast";
+import { getPeriods, savePeriod, deletePeriod } from "@/lib/supabaseService";
+import { SESSION_LABELS } from "@/lib/attendanceRollup";
+import { AttendanceSession, Period } from "@/lib/types";
+import { useAuth } from "@/contexts/AuthContext";
+
+const BellSchedule = () => {
+  const [name, setName] = useState("");
+  const [startTime, setStartTime] = useState("08:00");
+  const [endTime, setEndTime] = useState("08:45");
+  const [session, setSession] = useState<AttendanceSession>("am");
+  const [periodToDelete, setPeriodToDelete] = useState<Period | null>(null);
+  const { toast } = useToast();
+  const { isAdmin } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: periods = [], isLoading } = useQuery({
+    queryKey: ['periods'],
+    queryFn: getPeriods
+  });
+
+  const savePeriodMutation = useMutation({
+    mutationFn: savePeriod,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['periods'] });
+      setName("");
+      toast({
+        title: "Period saved",
+        description: "The bell schedule has been updated.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error saving period",
+        description: error.message || "There was a problem saving the period.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const updateSessionMutation = useMutation({
+    mutationFn: savePeriod,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['periods'] });
+      toast({
+        title: "Session changed",
+        description: "Days with registers for this period have been worked out again.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error changing session",
+        description: error.message || "There was a problem changing the period's session.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const deletePeriodMutation = useMutation({
+    mutationFn: deletePeriod,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['periods'] });
+      setPeriodToDelete(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error deleting period",
+        description: error.message || "There was a problem deleting the period.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const handleAddPeriod = () => {
+    if (!name.trim()) {
+      toast({
+        title: "Missing name",
+        description: "Please give the period a name, e.g. \"Period 1\".",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (endTime <= startTime) {
+      toast({
+        title: "Invalid times",
+        description: "The period must end after it starts.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    savePeriodMutation.mutate({
+      name: name.trim(),
+      startTime,
+      endTime,
+      session,
+      sortOrder: periods.length
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Bell Schedule</CardTitle>
+        <CardDescription>
+          Define the lessons of the school day and the half-day session each belongs to. Teachers can
+          take a register for each period, and the dashboard rolls periods up into morning and
+          afternoon sessions and then into one status per day. Admins can move a period to the
+          other session; past days are worked out again.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Period</TableHead>
+                <TableHead>Starts</TableHead>
+                <TableHead>Ends</TableHead>
+                <TableHead>Session</TableHead>
+                <TableHead className="w-16">Delete</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {periods.length > 0 ? (
+                periods.map((period) => (
+                  <TableRow key={period.id}>
+                    <TableCell className="font-medium">{period.name}</TableCell>
+                    <TableCell>{period.startTime}</TableCell>
+                    <TableCell>{period.endTime}</TableCell>
+                    <TableCell>
+                      {isAdmin ? (
+                        <Select
+                          value={period.session}
+                          onValueChange={(value) => updateSessionMutation.mutate({ ...period, session: value as AttendanceSession })}
+                          disabled={updateSessionMutation.isPending}
+                        >
+                          <SelectTrigger className="h-8 w-48">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="am">{SESSION_LABELS.am}</SelectItem>
+                            <SelectItem value="pm">{SESSION_LABELS.pm}</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      ) : (
+                        SESSION_LABELS[period.session]
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-8 w-8 p-0 text-destructive hover:text-destructive hover:bg-destructive/10"
+                        onClick={() => setPeriodToDelete(period)}
+                        disabled={deletePeriodMutation.isPending}
+                        title="Delete Period"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={5} className="h-24 text-center">
+                    {isLoading ? "Loading periods..." : "No periods defined. Registers are taken for the whole day."}
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-5 gap-4 items-end">
+          <div className="space-y-2">
+            <Label htmlFor="periodName">Name</Label>
+            <Input
+              id="periodName"
+              placeholder="Period 1"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="periodStart">Starts</Label>
+            <Input
+              id="periodStart"
+              type="time"
+              value={startTime}
+              onChange={(e) => setStartTime(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="periodEnd">Ends</Label>
+            <Input
+              id="periodEnd"
+              type="time"
+              value={endTime}
+              onChange={(e) => setEndTime(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Session</Label>
+            <Select value={session} onValueChange={(value) => setSession(value as AttendanceSession)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="am">{SESSION_LABELS.am}</SelectItem>
+                <SelectItem value="pm">{SESSION_LABELS.pm}</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <Button
+            onClick={handleAddPeriod}
+            disabled={savePeriodMutation.isPending}
+            className="flex items-center gap-2"
+          >
+            <Plus className="h-4 w-4" />
+            Add Period
+          </Button>
+        </div>
+      </CardContent>
+
+      <AlertDialog open={!!periodToDelete} onOpenChange={(open) => !open && setPeriodToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete period {periodToDelete?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Only periods that have never had a register taken can be deleted.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => periodToDelete && deletePeriodMutation.mutate(periodToDelete.id)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
+
+export default BellSchedule;
@@ -0,0 +1,231 @@
+import { useEffect, useMemo, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/components/ui/use-toast";
+import { getStudents, rolloverAcademicYear } from "@/lib/supabaseService";
+import { buildClassMap, suggestNextYear } from "@/lib/academicYears";
+import { AcademicYear } from "@/lib/types";
+
+interface RolloverWizardProps {
+  year: AcademicYear;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const STEPS = ["Next year", "Classes", "Confirm"];
+
+const RolloverWizard = ({ year, open, onOpenChange }: RolloverWizardProps) => {
+  const [step, setStep] = useState(0);
+  const [nextYear, setNextYear] = useState(() => suggestNextYear(year));
+  const [finalGrade, setFinalGrade] = useState<number | null>(null);
+  const [classMap, setClassMap] = useState<Record<string, string>>({});
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: students = [] } = useQuery({
+    queryKey: ['students', false],
+    queryFn: () => getStudents(false),
+    enabled: open
+  });
+
+  const highestGrade = students.reduce((max, student) => Math.max(max, student.gradeLevel), 0);
+  const effectiveFinalGrade = finalGrade ?? highestGrade;
+
+  // Reset the wizard each time it is opened
+  useEffect(() => {
+    if (open) {
+      setStep(0);
+      setNextYear(suggestNextYear(year));
+      setFinalGrade(null);
+    }
+  }, [open, year]);
+
+  useEffect(() => {
+    setClassMap(buildClassMap(students, effectiveFinalGrade));
+  }, [students, effectiveFinalGrade]);
+
+  const classCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    students.forEach(student => {
+      counts[student.class] = (counts[student.class] || 0) + 1;
+    });
+    return counts;
+  }, [students]);
+
+  const graduating = students.filter(student => student.gradeLevel >= effectiveFinalGrade);
+  const promoted = students.length - graduating.length;
+
+  const rolloverMutation = useMutation({
+    mutationFn: rolloverAcademicYear,
+    onSuccess: (result) => {
+      // Students, classes and every year-scoped figure change
+      queryClient.invalidateQueries();
+      onOpenChange(false);
+      toast({
+        title: `${year.name} rolled over`,
+        description: `${result.promoted} students promoted, ${result.graduated} graduated and ${result.archivedRecords} attendance records archived.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Rollover failed",
+        description: error.message || "Nothing was changed. Please check the details and try again.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const canContinue = step !== 0 || (
+    nextYear.name.trim() !== "" &&
+    nextYear.startDate > year.endDate &&
+    nextYear.endDate > nextYear.startDate &&
+    effectiveFinalGrade > 0
+  );
+
+  const handleRollover = () => {
+    rolloverMutation.mutate({
+      yearId: year.id,
+      nextYear: { ...nextYear, name: nextYear.name.trim() },
+      finalGrade: effectiveFinalGrade,
+      classMap
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Roll over {year.name}</DialogTitle>
+          <DialogDescription>
+            Step {step + 1} of {STEPS.length}: {STEPS[step]}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 0 && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="nextYearName">Next year</Label>
+                <Input
+                  id="nextYearName"
+                  value={nextYear.name}
+                  onChange={(e) => setNextYear(prev => ({ ...prev, name: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="nextYearStart">Starts</Label>
+                <Input
+                  id="nextYearStart"
+                  type="date"
+                  value={nextYear.startDate}
+                  onChange={(e) => setNextYear(prev => ({ ...prev, startDate: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="nextYearEnd">Ends</Label>
+                <Input
+                  id="nextYearEnd"
+                  type="date"
+                  value={nextYear.endDate}
+                  onChange={(e) => setNextYear(prev => ({ ...prev, endDate: e.target.value }))}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="finalGrade">Final grade</Label>
+              <Input
+                id="finalGrade"
+                type="number"
+                min={1}
+                value={effectiveFinalGrade || ""}
+                onChange={(e) => setFinalGrade(Number(e.target.value))}
+                className="w-32"
+              />
+              <p className="text-sm text-muted-foreground">
+                Students in this grade or above graduate and leave the register.
+              </p>
+            </div>
+          </div>
+        )}
+
+        {step === 1 && (
+          <div className="space-y-2">
+            <p className="text-sm text-muted-foreground">
+              Choose the class each class moves into next year. Grade numbers in class names are
+              bumped automatically; change any that follow a different pattern.
+            </p>
+            <div className="rounded-md border max-h-80 overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Class this year</TableHead>
+                    <TableHead>Students</TableHead>
+                    <TableHead>Class next year</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {Object.keys(classMap).sort().map(className => (
+                    <TableRow key={className}>
+                      <TableCell className="font-medium">{className}</TableCell>
+                      <TableCell>{classCounts[className] || 0}</TableCell>
+                      <TableCell>
+                        <Input
+                          value={classMap[className]}
+                          onChange={(e) => setClassMap(prev => ({ ...prev, [className]: e.target.value }))}
+                          className="h-8 w-40"
+                        />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  {Object.keys(classMap).length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={3} className="h-16 text-center">
+                        No classes to promote.
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+
+        {step === 2 && (
+          <div className="space-y-2 text-sm">
+            <p>When you confirm:</p>
+            <ul className="list-disc pl-6 space-y-1">
+              <li>Attendance for {year.name} ({year.startDate} – {year.endDate}) is archived and can no longer be changed.</li>
+              <li>{nextYear.name.trim()} ({nextYear.startDate} – {nextYear.endDate}) becomes the current year.</li>
+              <li>{promoted} students move up a grade into their new classes.</li>
+              <li>{graduating.length} students in grade {effectiveFinalGrade} or above graduate.</li>
+            </ul>
+            <p className="text-muted-foreground">This cannot be undone.</p>
+          </div>
+        )}
+
+        <DialogFooter>
+          {step > 0 && (
+            <Button variant="outline" onClick={() => setStep(step - 1)} disabled={rolloverMutation.isPending}>
+              Back
+            </Button>
+          )}
+          {step < STEPS.length - 1 ? (
+            <Button onClick={() => setStep(step + 1)} disabled={!canContinue}>
+              Next
+            </Button>
+          ) : (
+            <Button onClick={handleRollover} disabled={rolloverMutation.isPending}>
+              {rolloverMutation.isPending ? "Rolling over..." : "Roll Over"}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RolloverWizard;
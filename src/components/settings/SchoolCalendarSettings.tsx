@@ -0,0 +1,370 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/components/ui/use-toast";
+import {
+  getSchoolCalendar,
+  updateSchoolSettings,
+  saveAcademicTerm,
+  deleteAcademicTerm,
+  saveCalendarClosure,
+  deleteCalendarClosure
+} from "@/lib/supabaseService";
+import { CLOSURE_TYPE_LABELS, DEFAULT_WEEKEND_DAYS, WEEKDAY_LABELS } from "@/lib/schoolCalendar";
+import { ClosureType } from "@/lib/types";
+
+const formatRange = (startDate: string, endDate: string) =>
+  startDate === endDate ? startDate : `${startDate} – ${endDate}`;
+
+const SchoolCalendarSettings = () => {
+  const [termName, setTermName] = useState("");
+  const [termStart, setTermStart] = useState("");
+  const [termEnd, setTermEnd] = useState("");
+  const [closureName, setClosureName] = useState("");
+  const [closureStart, setClosureStart] = useState("");
+  const [closureEnd, setClosureEnd] = useState("");
+  const [closureType, setClosureType] = useState<ClosureType>("public_holiday");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: calendar, isLoading } = useQuery({
+    queryKey: ['school-calendar'],
+    queryFn: getSchoolCalendar
+  });
+
+  const terms = calendar?.terms || [];
+  const closures = calendar?.closures || [];
+  const weekendDays = calendar?.weekendDays || DEFAULT_WEEKEND_DAYS;
+
+  // Rates everywhere depend on which days are instructional
+  const onCalendarChanged = () => {
+    queryClient.invalidateQueries();
+  };
+
+  const onCalendarError = (title: string) => (error: Error) => {
+    toast({
+      title,
+      description: error.message || "There was a problem updating the school calendar.",
+      variant: "destructive",
+    });
+  };
+
+  const weekendMutation = useMutation({
+    mutationFn: (days: number[]) => updateSchoolSettings({ weekendDays: days }),
+    onSuccess: onCalendarChanged,
+    onError: onCalendarError("Error saving weekend days")
+  });
+
+  const saveTermMutation = useMutation({
+    mutationFn: saveAcademicTerm,
+    onSuccess: () => {
+      onCalendarChanged();
+      setTermName("");
+      setTermStart("");
+      setTermEnd("");
+    },
+    onError: onCalendarError("Error saving term")
+  });
+
+  const deleteTermMutation = useMutation({
+    mutationFn: deleteAcademicTerm,
+    onSuccess: onCalendarChanged,
+    onError: onCalendarError("Error deleting term")
+  });
+
+  const saveClosureMutation = useMutation({
+    mutationFn: saveCalendarClosure,
+    onSuccess: () => {
+      onCalendarChanged();
+      setClosureName("");
+      setClosureStart("");
+      setClosureEnd("");
+    },
+    onError: onCalendarError("Error saving closure")
+  });
+
+  const deleteClosureMutation = useMutation({
+    mutationFn: deleteCalendarClosure,
+    onSuccess: onCalendarChanged,
+    onError: onCalendarError("Error deleting closure")
+  });
+
+  const toggleWeekendDay = (day: number, checked: boolean) => {
+    weekendMutation.mutate(
+      checked ? [...weekendDays, day].sort((a, b) => a - b) : weekendDays.filter(d => d !== day)
+    );
+  };
+
+  const validateRange = (name: string, startDate: string, endDate: string) => {
+    if (!name.trim() || !startDate) {
+      toast({
+        title: "Missing details",
+        description: "Please enter a name and a start date.",
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    if (endDate && endDate < startDate) {
+      toast({
+        title: "Invalid dates",
+        description: "The end date must be on or after the start date.",
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    return true;
+  };
+
+  const handleAddTerm = () => {
+    if (!validateRange(termName, termStart, termEnd)) return;
+
+    saveTermMutation.mutate({
+      name: termName.trim(),
+      startDate: termStart,
+      endDate: termEnd || termStart
+    });
+  };
+
+  const handleAddClosure = () => {
+    if (!validateRange(closureName, closureStart, closureEnd)) return;
+
+    saveClosureMutation.mutate({
+      name: closureName.trim(),
+      startDate: closureStart,
+      endDate: closureEnd || closureStart,
+      closureType
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>School Week</CardTitle>
+          <CardDescription>
+            Days of the week with no school. Registers taken on these days are left out of
+            attendance rates and consecutive-absence alerts.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-wrap gap-6">
+            {WEEKDAY_LABELS.map((label, day) => (
+              <div key={label} className="flex items-center gap-2">
+                <Checkbox
+                  id={`weekend-${day}`}
+                  checked={weekendDays.includes(day)}
+                  onCheckedChange={(checked) => toggleWeekendDay(day, checked === true)}
+                  disabled={isLoading || weekendMutation.isPending}
+                />
+                <Label htmlFor={`weekend-${day}`}>{label}</Label>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Academic Terms</CardTitle>
+          <CardDescription>
+            Only days inside a term count as school days. If no terms are set up, every day
+            outside the weekend and closures counts.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Term</TableHead>
+                  <TableHead>Dates</TableHead>
+                  <TableHead className="w-16">Delete</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {terms.length > 0 ? (
+                  terms.map((term) => (
+                    <TableRow key={term.id}>
+                      <TableCell className="font-medium">{term.name}</TableCell>
+                      <TableCell>{formatRange(term.startDate, term.endDate)}</TableCell>
+                      <TableCell>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="h-8 w-8 p-0 text-destructive hover:text-destructive hover:bg-destructive/10"
+                          onClick={() => deleteTermMutation.mutate(term.id)}
+                          disabled={deleteTermMutation.isPending}
+                          title="Delete Term"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                ) : (
+                  <TableRow>
+                    <TableCell colSpan={3} className="h-24 text-center">
+                      {isLoading ? "Loading terms..." : "No terms defined."}
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-4 gap-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="termName">Name</Label>
+              <Input
+                id="termName"
+                placeholder="Term 1"
+                value={termName}
+                onChange={(e) => setTermName(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="termStart">Starts</Label>
+              <Input
+                id="termStart"
+                type="date"
+                value={termStart}
+                onChange={(e) => setTermStart(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="termEnd">Ends</Label>
+              <Input
+                id="termEnd"
+                type="date"
+                value={termEnd}
+                onChange={(e) => setTermEnd(e.target.value)}
+              />
+            </div>
+            <Button
+              onClick={handleAddTerm}
+              disabled={saveTermMutation.isPending}
+              className="flex items-center gap-2"
+            >
+              <Plus className="h-4 w-4" />
+              Add Term
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Holidays and Closures</CardTitle>
+          <CardDescription>
+            Public holidays, breaks inside a term, unplanned closures and staff days with no pupils.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Dates</TableHead>
+                  <TableHead className="w-16">Delete</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {closures.length > 0 ? (
+                  closures.map((closure) => (
+                    <TableRow key={closure.id}>
+                      <TableCell className="font-medium">{closure.name}</TableCell>
+                      <TableCell>{CLOSURE_TYPE_LABELS[closure.closureType]}</TableCell>
+                      <TableCell>{formatRange(closure.startDate, closure.endDate)}</TableCell>
+                      <TableCell>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="h-8 w-8 p-0 text-destructive hover:text-destructive hover:bg-destructive/10"
+                          onClick={() => deleteClosureMutation.mutate(closure.id)}
+                          disabled={deleteClosureMutation.isPending}
+                          title="Delete Closure"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                ) : (
+                  <TableRow>
+                    <TableCell colSpan={4} className="h-24 text-center">
+                      {isLoading ? "Loading closures..." : "No holidays or closures defined."}
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-5 gap-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="closureName">Name</Label>
+              <Input
+                id="closureName"
+                placeholder="Independence Day"
+                value={closureName}
+                onChange={(e) => setClosureName(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select value={closureType} onValueChange={(value) => setClosureType(value as ClosureType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(CLOSURE_TYPE_LABELS) as ClosureType[]).map((type) => (
+                    <SelectItem key={type} value={type}>{CLOSURE_TYPE_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="closureStart">From</Label>
+              <Input
+                id="closureStart"
+                type="date"
+                value={closureStart}
+                onChange={(e) => setClosureStart(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="closureEnd">To (optional)</Label>
+              <Input
+                id="closureEnd"
+                type="date"
+                value={closureEnd}
+                onChange={(e) => setClosureEnd(e.target.value)}
+              />
+            </div>
+            <Button
+              onClick={handleAddClosure}
+              disabled={saveClosureMutation.isPending}
+              className="flex items-center gap-2"
+            >
+              <Plus className="h-4 w-4" />
+              Add Closure
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default SchoolCalendarSettings;
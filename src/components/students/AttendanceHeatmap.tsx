@@ -0,0 +1,97 @@
+import { AttendanceCode, DailyAttendance, DateRange, SchoolCalendar } from "@/lib/types";
+import { getStatusLabel } from "@/lib/attendanceCodes";
+import { getNonInstructionalReason } from "@/lib/schoolCalendar";
+import { addDays, getToday } from "@/lib/dateUtils";
+import { cn } from "@/lib/utils";
+
+interface AttendanceHeatmapProps {
+  days: DailyAttendance[];
+  calendar: SchoolCalendar;
+  range: DateRange;
+  codes: AttendanceCode[];
+}
+
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const LEGEND = [
+  { label: 'Present', className: 'bg-green-500' },
+  { label: 'Late', className: 'bg-amber-400' },
+  { label: 'Half day absent', className: 'bg-orange-500' },
+  { label: 'Absent', className: 'bg-red-600' },
+  { label: 'Excused / other', className: 'bg-blue-400' },
+  { label: 'Not marked', className: 'bg-muted' },
+  { label: 'No school', className: 'bg-muted/30' }
+];
+
+const getWeekday = (date: string) => new Date(`${date}T00:00:00Z`).getUTCDay();
+
+const getDayClassName = (day: DailyAttendance | undefined, isSchoolDay: boolean, isFuture: boolean) => {
+  if (!isSchoolDay) return 'bg-muted/30';
+  if (isFuture) return 'border border-dashed border-muted';
+  if (!day) return 'bg-muted';
+  if (day.category === 'absent') return 'bg-red-600';
+  if (day.category === 'neutral') return 'bg-blue-400';
+  if (day.isHalfDayAbsence) return 'bg-orange-500';
+  if (day.status === 'late' || day.minutesLate > 0) return 'bg-amber-400';
+  return 'bg-green-500';
+};
+
+// One square per day, a column per week (Sunday first), coloured by the day's rolled-up status
+const AttendanceHeatmap = ({ days, calendar, range, codes }: AttendanceHeatmapProps) => {
+  const today = getToday();
+  const daysByDate = new Map(days.map(day => [day.date, day]));
+
+  const weeks: string[][] = [];
+  for (let date = addDays(range.from, -getWeekday(range.from)); date <= range.to; date = addDays(date, 7)) {
+    weeks.push(Array.from({ length: 7 }, (_, i) => addDays(date, i)));
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="overflow-x-auto">
+        <div className="inline-flex gap-[3px]">
+          {weeks.map((week) => {
+            const firstOfMonth = week.find(date => date.endsWith('-01') && date >= range.from && date <= range.to);
+
+            return (
+              <div key={week[0]} className="flex flex-col gap-[3px]">
+                <div className="h-4 text-[10px] leading-4 text-muted-foreground whitespace-nowrap">
+                  {firstOfMonth ? MONTH_LABELS[Number(firstOfMonth.slice(5, 7)) - 1] : ''}
+                </div>
+                {week.map((date) => {
+                  if (date < range.from || date > range.to) {
+                    return <div key={date} className="h-3 w-3" />;
+                  }
+
+                  const day = daysByDate.get(date);
+                  const closedReason = getNonInstructionalReason(date, calendar);
+                  const description = closedReason
+                    ?? (day ? getStatusLabel(day.status, codes) + (day.isHalfDayAbsence ? ' (half day absent)' : '') : 'Not marked');
+
+                  return (
+                    <div
+                      key={date}
+                      title={`${date}: ${description}`}
+                      className={cn('h-3 w-3 rounded-sm', getDayClassName(day, !closedReason, date > today))}
+                    />
+                  );
+                })}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-4 text-xs text-muted-foreground">
+        {LEGEND.map((item) => (
+          <div key={item.label} className="flex items-center gap-1">
+            <div className={cn('h-3 w-3 rounded-sm', item.className)} />
+            {item.label}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default AttendanceHeatmap;
@@ -0,0 +1,190 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { getClasses } from "@/lib/supabaseService";
+import { StudentFormErrors, validateStudent } from "@/lib/studentValidation";
+import { Student } from "@/lib/types";
+
+interface StudentFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  student?: Student | null; // the student being edited, or none to add one
+  otherStudents?: Student[]; // used to catch duplicate student IDs
+  onSave: (student: Student) => void;
+  isSaving?: boolean;
+}
+
+const EMPTY_STUDENT: Student = {
+  id: "",
+  firstName: "",
+  lastName: "",
+  class: "",
+  gradeLevel: 0,
+  studentId: "",
+  email: "",
+  contactPhone: "",
+  notificationPreference: undefined
+};
+
+const StudentFormDialog = ({ open, onOpenChange, student, otherStudents = [], onSave, isSaving = false }: StudentFormDialogProps) => {
+  const [values, setValues] = useState<Student>(EMPTY_STUDENT);
+  const [errors, setErrors] = useState<StudentFormErrors>({});
+
+  const { data: classes = [] } = useQuery({
+    queryKey: ['classes'],
+    queryFn: getClasses,
+    enabled: open
+  });
+
+  useEffect(() => {
+    if (open) {
+      setValues(student ? { ...student, email: student.email || "", contactPhone: student.contactPhone || "" } : EMPTY_STUDENT);
+      setErrors({});
+    }
+  }, [open, student]);
+
+  const setValue = <K extends keyof Student>(key: K, value: Student[K]) => {
+    setValues(prev => ({ ...prev, [key]: value }));
+  };
+
+  // A student's grade is always their class's grade
+  const handleClassChange = (className: string) => {
+    const schoolClass = classes.find(c => c.name === className);
+    setValues(prev => ({ ...prev, class: className, gradeLevel: schoolClass ? schoolClass.gradeLevel : prev.gradeLevel }));
+  };
+
+  const handleSubmit = () => {
+    const trimmed: Student = {
+      ...values,
+      firstName: values.firstName.trim(),
+      lastName: values.lastName.trim(),
+      studentId: values.studentId.trim(),
+      email: values.email?.trim() || null,
+      contactPhone: values.contactPhone?.trim() || null
+    };
+
+    const newErrors = validateStudent(trimmed, classes, otherStudents);
+    setErrors(newErrors);
+    if (Object.keys(newErrors).length > 0) return;
+
+    onSave(trimmed);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{student ? `Edit ${student.firstName} ${student.lastName}` : "Add Student"}</DialogTitle>
+          <DialogDescription>
+            To add many students at once, use the CSV import instead.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="studentFirstName">First name</Label>
+            <Input
+              id="studentFirstName"
+              value={values.firstName}
+              onChange={(e) => setValue("firstName", e.target.value)}
+            />
+            {errors.firstName && <p className="text-sm text-destructive">{errors.firstName}</p>}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="studentLastName">Last name</Label>
+            <Input
+              id="studentLastName"
+              value={values.lastName}
+              onChange={(e) => setValue("lastName", e.target.value)}
+            />
+            {errors.lastName && <p className="text-sm text-destructive">{errors.lastName}</p>}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="studentNumber">Student ID</Label>
+            <Input
+              id="studentNumber"
+              value={values.studentId}
+              onChange={(e) => setValue("studentId", e.target.value)}
+            />
+            {errors.studentId && <p className="text-sm text-destructive">{errors.studentId}</p>}
+          </div>
+          <div className="space-y-2">
+            <Label>Class</Label>
+            <Select value={values.class || undefined} onValueChange={handleClassChange}>
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a class" />
+              </SelectTrigger>
+              <SelectContent>
+                {classes.map((schoolClass) => (
+                  <SelectItem key={schoolClass.id} value={schoolClass.name}>
+                    {schoolClass.name} (grade {schoolClass.gradeLevel})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {student && (
+              <p className="text-xs text-muted-foreground">
+                This corrects the current class. To move the student from a date, use Transfer.
+              </p>
+            )}
+            {errors.class && <p className="text-sm text-destructive">{errors.class}</p>}
+            {errors.gradeLevel && <p className="text-sm text-destructive">{errors.gradeLevel}</p>}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="studentEmail">Email</Label>
+            <Input
+              id="studentEmail"
+              type="email"
+              value={values.email || ""}
+              onChange={(e) => setValue("email", e.target.value)}
+            />
+            {errors.email && <p className="text-sm text-destructive">{errors.email}</p>}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="studentPhone">Contact phone</Label>
+            <Input
+              id="studentPhone"
+              type="tel"
+              value={values.contactPhone || ""}
+              onChange={(e) => setValue("contactPhone", e.target.value)}
+            />
+            {errors.contactPhone && <p className="text-sm text-destructive">{errors.contactPhone}</p>}
+          </div>
+          <div className="space-y-2 col-span-2">
+            <Label>Notify family by</Label>
+            <Select
+              value={values.notificationPreference || "none"}
+              onValueChange={(value) => setValue("notificationPreference", value === "none" ? undefined : value as Student['notificationPreference'])}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">No preference</SelectItem>
+                <SelectItem value="sms">SMS</SelectItem>
+                <SelectItem value="whatsapp">WhatsApp</SelectItem>
+                <SelectItem value="email">Email</SelectItem>
+              </SelectContent>
+            </Select>
+            {errors.notificationPreference && <p className="text-sm text-destructive">{errors.notificationPreference}</p>}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSaving}>
+            {isSaving ? "Saving..." : "Save Student"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default StudentFormDialog;
@@ -0,0 +1,118 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/components/ui/use-toast";
+import { getClasses, transferStudent } from "@/lib/supabaseService";
+import { getToday } from "@/lib/dateUtils";
+import { Student } from "@/lib/types";
+
+interface TransferStudentDialogProps {
+  student: Student | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Move a student to another class from a given date. Attendance before that date stays
+// with their old class in class statistics.
+const TransferStudentDialog = ({ student, onOpenChange }: TransferStudentDialogProps) => {
+  const today = getToday();
+  const [className, setClassName] = useState("");
+  const [effectiveDate, setEffectiveDate] = useState(today);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: classes = [] } = useQuery({
+    queryKey: ['classes'],
+    queryFn: getClasses,
+    enabled: !!student
+  });
+
+  useEffect(() => {
+    if (student) {
+      setClassName("");
+      setEffectiveDate(getToday());
+    }
+  }, [student]);
+
+  const transferMutation = useMutation({
+    mutationFn: () => transferStudent(student!.id, className, effectiveDate),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['students'] });
+      queryClient.invalidateQueries({ queryKey: ['student', student!.id] });
+      queryClient.invalidateQueries({ queryKey: ['class-enrollments', student!.id] });
+      queryClient.invalidateQueries({ queryKey: ['students-dashboard'] });
+      queryClient.invalidateQueries({ queryKey: ['class-summaries'] });
+      toast({
+        title: "Student transferred",
+        description: `${student!.firstName} ${student!.lastName} is in ${className} from ${effectiveDate}.`,
+      });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Transfer failed",
+        description: error.message || "There was a problem transferring the student.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const canTransfer = !!className && !!effectiveDate && effectiveDate <= today;
+
+  return (
+    <Dialog open={!!student} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Transfer {student?.firstName} {student?.lastName}</DialogTitle>
+          <DialogDescription>
+            Currently in {student?.class}. Attendance before the transfer date stays with {student?.class}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>New class</Label>
+            <Select value={className || undefined} onValueChange={setClassName}>
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a class" />
+              </SelectTrigger>
+              <SelectContent>
+                {classes
+                  .filter(schoolClass => schoolClass.name !== student?.class)
+                  .map((schoolClass) => (
+                    <SelectItem key={schoolClass.id} value={schoolClass.name}>
+                      {schoolClass.name} (grade {schoolClass.gradeLevel})
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="transferDate">From</Label>
+            <Input
+              id="transferDate"
+              type="date"
+              max={today}
+              value={effectiveDate}
+              onChange={(e) => setEffectiveDate(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={transferMutation.isPending}>
+            Cancel
+          </Button>
+          <Button onClick={() => transferMutation.mutate()} disabled={!canTransfer || transferMutation.isPending}>
+            {transferMutation.isPending ? "Transferring..." : "Transfer"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TransferStudentDialog;
@@ -4,10 +4,12 @@ import { supabase } from "@/integrations/supabase/client";
 import { useNavigate } from "react-router-dom";
 import { toast } from "@/components/ui/use-toast";
 import { Session, User } from "@supabase/supabase-js";
+import { getUserRoles } from "@/lib/supabaseService";
 
 type AuthContextType = {
   session: Session | null;
   user: User | null;
+  isAdmin: boolean;
   signIn: (email: string, password: string) => Promise<void>;
   signUp: (email: string, password: string, firstName: string, lastName: string) => Promise<void>;
   signOut: () => Promise<void>;
@@ -19,6 +21,7 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [session, setSession] = useState<Session | null>(null);
   const [user, setUser] = useState<User | null>(null);
+  const [isAdmin, setIsAdmin] = useState(false);
   const [loading, setLoading] = useState(true);
   const navigate = useNavigate();
 
@@ -40,6 +43,19 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     return () => subscription.unsubscribe();
   }, []);
 
+  // Roles gate admin-only actions in the UI; row level security enforces them
+  const userId = user?.id;
+  useEffect(() => {
+    if (!userId) {
+      setIsAdmin(false);
+      return;
+    }
+
+    getUserRoles(userId)
+      .then(roles => setIsAdmin(roles.includes('admin')))
+      .catch(() => setIsAdmin(false));
+  }, [userId]);
+
   const validateEmail = (email: string) => {
     if (!email.endsWith("@adventistcollege.mu")) {
       throw new Error("Only emails from adventistcollege.mu domain are allowed");
@@ -129,6 +145,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       value={{
         session,
         user,
+        isAdmin,
         signIn,
         signUp,
         signOut,
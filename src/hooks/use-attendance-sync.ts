@@ -0,0 +1,100 @@
+import { useCallback, useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { discardQueuedMarks, getQueuedMarks, syncQueuedMarks, SyncResult } from "@/lib/offlineQueue";
+
+const SYNC_INTERVAL_MS = 30000;
+
+// Marks waiting on this device, and the results of sending them. Pass autoSync in the one
+// place that should drive background syncing (the header), so it doesn't run per page.
+export function useAttendanceSync({ autoSync = false }: { autoSync?: boolean } = {}) {
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: queuedMarks = [] } = useQuery({
+    queryKey: ['queued-marks'],
+    queryFn: getQueuedMarks,
+    networkMode: 'always'
+  });
+
+  const handleSyncResult = useCallback((result: SyncResult) => {
+    queryClient.invalidateQueries({ queryKey: ['queued-marks'] });
+
+    if (result.synced > 0 || result.conflicts.length > 0) {
+      queryClient.invalidateQueries({ queryKey: ['attendance'] });
+      queryClient.invalidateQueries({ queryKey: ['attendance-history'] });
+    }
+
+    if (result.conflicts.length > 0) {
+      toast({
+        title: `${result.conflicts.length} offline ${result.conflicts.length === 1 ? "mark was" : "marks were"} not applied`,
+        description: "Someone else changed the same records while you were offline. Their changes have been kept.",
+        variant: "destructive",
+      });
+    }
+
+    if (result.failed > 0) {
+      toast({
+        title: `${result.failed} ${result.failed === 1 ? "mark" : "marks"} could not be saved`,
+        description: "They are kept on this device. Open the sync status to see why, then retry or discard them.",
+        variant: "destructive",
+      });
+    }
+  }, [queryClient, toast]);
+
+  const syncMutation = useMutation({
+    mutationFn: (retryFailed: boolean) => syncQueuedMarks({ retryFailed }),
+    networkMode: 'always',
+    onSuccess: handleSyncResult
+  });
+
+  const { mutate } = syncMutation;
+  const sync = useCallback(() => mutate(false), [mutate]);
+  // Also resends the marks the server refused, which background syncs leave alone
+  const retry = useCallback(() => mutate(true), [mutate]);
+
+  const discardMutation = useMutation({
+    mutationFn: discardQueuedMarks,
+    networkMode: 'always',
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['queued-marks'] });
+    }
+  });
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      if (autoSync) sync();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [autoSync, sync]);
+
+  // Retry while anything is waiting, in case the browser never reports coming back online.
+  // Refused marks don't count: they wait for a manual retry or discard.
+  const hasPendingMarks = queuedMarks.some(entry => !entry.lastError);
+  useEffect(() => {
+    if (!autoSync || !hasPendingMarks) return;
+
+    sync();
+    const interval = setInterval(() => sync(), SYNC_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [autoSync, hasPendingMarks, sync]);
+
+  return {
+    queuedMarks,
+    isOnline,
+    isSyncing: syncMutation.isPending,
+    sync,
+    retry,
+    discard: discardMutation.mutate,
+    handleSyncResult
+  };
+}
@@ -0,0 +1,56 @@
+import { useEffect } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+
+// Queries that show register marks, and those that show the student list
+const ATTENDANCE_QUERY_KEYS = [
+  ['dashboard-attendance-records'],
+  ['attendance-summary'],
+  ['class-summaries'],
+  ['attendance'],
+  ['attendance-history']
+];
+
+const STUDENT_QUERY_KEYS = [
+  ['students-dashboard'],
+  ['students'],
+  ['attendance-summary'],
+  ['class-summaries']
+];
+
+// A teacher saving a whole class sends one event per student, so wait for them to settle
+const REFRESH_DELAY_MS = 500;
+
+// Refetch the affected queries whenever anyone changes a register, a submission or a student
+export function useRealtimeAttendance() {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    const pendingKeys = new Map<string, string[]>();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const scheduleRefresh = (keys: string[][]) => {
+      keys.forEach(key => pendingKeys.set(key.join('|'), key));
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        pendingKeys.forEach(key => queryClient.invalidateQueries({ queryKey: key }));
+        pendingKeys.clear();
+      }, REFRESH_DELAY_MS);
+    };
+
+    const channel = supabase
+      .channel('attendance-changes')
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'attendance_records' },
+        () => scheduleRefresh(ATTENDANCE_QUERY_KEYS))
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'students' },
+        () => scheduleRefresh(STUDENT_QUERY_KEYS))
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'register_submissions' },
+        () => scheduleRefresh([['register-submissions']]))
+      .subscribe();
+
+    return () => {
+      clearTimeout(timer);
+      supabase.removeChannel(channel);
+    };
+  }, [queryClient]);
+}
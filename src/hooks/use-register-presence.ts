@@ -0,0 +1,41 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { RegisterEditor } from "@/lib/types";
+
+// Everyone else with a class register open. Pass the register this user has open to be
+// listed too, or null to only watch (e.g. from the dashboard).
+export function useRegisterPresence(editing: { className: string; date: string } | null): RegisterEditor[] {
+  const { user } = useAuth();
+  const [editors, setEditors] = useState<RegisterEditor[]>([]);
+
+  const userId = user?.id;
+  const name = [user?.user_metadata?.first_name, user?.user_metadata?.last_name].filter(Boolean).join(" ") || user?.email || "";
+  const className = editing?.className;
+  const date = editing?.date;
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const channel = supabase.channel('register-presence', {
+      config: { presence: { key: userId } }
+    });
+
+    channel
+      .on('presence', { event: 'sync' }, () => {
+        const state = channel.presenceState<RegisterEditor>();
+        setEditors(Object.values(state).flat().filter(editor => editor.userId !== userId));
+      })
+      .subscribe(async (status) => {
+        if (status === 'SUBSCRIBED' && className && date) {
+          await channel.track({ userId, name, className, date });
+        }
+      });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId, name, className, date]);
+
+  return editors;
+}
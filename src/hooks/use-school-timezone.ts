@@ -0,0 +1,19 @@
+import { useQuery } from "@tanstack/react-query";
+import { getSchoolSettings } from "@/lib/supabaseService";
+import { setSchoolTimezone } from "@/lib/dateUtils";
+
+// Load the school's timezone before pages work out "today". Offline the query pauses rather
+// than loading, so pages still render with the last timezone seen on this device.
+export function useSchoolTimezone(enabled: boolean) {
+  const { data: settings, isLoading } = useQuery({
+    queryKey: ['school-settings'],
+    queryFn: getSchoolSettings,
+    enabled
+  });
+
+  if (settings) {
+    setSchoolTimezone(settings.timezone);
+  }
+
+  return { isLoading };
+}
@@ -9,35 +9,422 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      absence_reasons: {
+        Row: {
+          created_at: string
+          id: string
+          is_active: boolean
+          name: string
+          sort_order: number
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name: string
+          sort_order?: number
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name?: string
+          sort_order?: number
+        }
+        Relationships: []
+      }
+      academic_terms: {
+        Row: {
+          created_at: string
+          end_date: string
+          id: string
+          name: string
+          start_date: string
+        }
+        Insert: {
+          created_at?: string
+          end_date: string
+          id?: string
+          name: string
+          start_date: string
+        }
+        Update: {
+          created_at?: string
+          end_date?: string
+          id?: string
+          name?: string
+          start_date?: string
+        }
+        Relationships: []
+      }
+      academic_years: {
+        Row: {
+          created_at: string
+          end_date: string
+          id: string
+          is_current: boolean
+          name: string
+          start_date: string
+          status: string
+        }
+        Insert: {
+          created_at?: string
+          end_date: string
+          id?: string
+          is_current?: boolean
+          name: string
+          start_date: string
+          status?: string
+        }
+        Update: {
+          created_at?: string
+          end_date?: string
+          id?: string
+          is_current?: boolean
+          name?: string
+          start_date?: string
+          status?: string
+        }
+        Relationships: []
+      }
+      attendance_codes: {
+        Row: {
+          code: string
+          color: string
+          counts_as: string
+          created_at: string
+          icon: string
+          is_system: boolean
+          label: string
+          sort_order: number
+        }
+        Insert: {
+          code: string
+          color?: string
+          counts_as: string
+          created_at?: string
+          icon?: string
+          is_system?: boolean
+          label: string
+          sort_order?: number
+        }
+        Update: {
+          code?: string
+          color?: string
+          counts_as?: string
+          created_at?: string
+          icon?: string
+          is_system?: boolean
+          label?: string
+          sort_order?: number
+        }
+        Relationships: []
+      }
+      attendance_corrections: {
+        Row: {
+          current_status: string | null
+          date: string
+          id: string
+          period_id: string | null
+          reason: string
+          requested_at: string
+          requested_by: string | null
+          requested_by_name: string | null
+          requested_notes: string | null
+          requested_reason_id: string | null
+          requested_status: string
+          review_note: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          reviewed_by_name: string | null
+          session: string | null
+          status: string
+          student_id: string
+        }
+        Insert: {
+          current_status?: string | null
+          date: string
+          id?: string
+          period_id?: string | null
+          reason: string
+          requested_at?: string
+          requested_by?: string | null
+          requested_by_name?: string | null
+          requested_notes?: string | null
+          requested_reason_id?: string | null
+          requested_status: string
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          reviewed_by_name?: string | null
+          session?: string | null
+          status?: string
+          student_id: string
+        }
+        Update: {
+          current_status?: string | null
+          date?: string
+          id?: string
+          period_id?: string | null
+          reason?: string
+          requested_at?: string
+          requested_by?: string | null
+          requested_by_name?: string | null
+          requested_notes?: string | null
+          requested_reason_id?: string | null
+          requested_status?: string
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          reviewed_by_name?: string | null
+          session?: string | null
+          status?: string
+          student_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "attendance_corrections_period_id_fkey"
+            columns: ["period_id"]
+            isOneToOne: false
+            referencedRelation: "periods"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attendance_corrections_requested_reason_id_fkey"
+            columns: ["requested_reason_id"]
+            isOneToOne: false
+            referencedRelation: "absence_reasons"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attendance_corrections_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      attendance_daily_summary: {
+        Row: {
+          absence_days: number
+          category: string
+          class_name: string
+          date: string
+          half_day_absences: number
+          late_arrivals: number
+          minutes_late: number
+          status: string
+          students: number
+        }
+        Insert: {
+          absence_days?: number
+          category: string
+          class_name: string
+          date: string
+          half_day_absences?: number
+          late_arrivals?: number
+          minutes_late?: number
+          status: string
+          students: number
+        }
+        Update: {
+          absence_days?: number
+          category?: string
+          class_name?: string
+          date?: string
+          half_day_absences?: number
+          late_arrivals?: number
+          minutes_late?: number
+          status?: string
+          students?: number
+        }
+        Relationships: []
+      }
+      attendance_notifications: {
+        Row: {
+          created_at: string
+          id: string
+          message: string
+          notification_date: string
+          notification_type: string
+          student_id: string
+          success: boolean
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          message: string
+          notification_date?: string
+          notification_type: string
+          student_id: string
+          success?: boolean
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          message?: string
+          notification_date?: string
+          notification_type?: string
+          student_id?: string
+          success?: boolean
+        }
+        Relationships: [
+          {
+            foreignKeyName: "attendance_notifications_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      attendance_record_history: {
+        Row: {
+          changed_at: string
+          changed_by: string | null
+          changed_by_name: string | null
+          date: string
+          id: string
+          new_notes: string | null
+          new_reason_id: string | null
+          new_status: string | null
+          old_notes: string | null
+          old_reason_id: string | null
+          old_status: string | null
+          period_id: string | null
+          record_id: string
+          session: string | null
+          student_id: string
+        }
+        Insert: {
+          changed_at?: string
+          changed_by?: string | null
+          changed_by_name?: string | null
+          date: string
+          id?: string
+          new_notes?: string | null
+          new_reason_id?: string | null
+          new_status?: string | null
+          old_notes?: string | null
+          old_reason_id?: string | null
+          old_status?: string | null
+          period_id?: string | null
+          record_id: string
+          session?: string | null
+          student_id: string
+        }
+        Update: {
+          changed_at?: string
+          changed_by?: string | null
+          changed_by_name?: string | null
+          date?: string
+          id?: string
+          new_notes?: string | null
+          new_reason_id?: string | null
+          new_status?: string | null
+          old_notes?: string | null
+          old_reason_id?: string | null
+          old_status?: string | null
+          period_id?: string | null
+          record_id?: string
+          session?: string | null
+          student_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "attendance_record_history_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       attendance_records: {
         Row: {
+          academic_year_id: string | null
+          arrival_time: string | null
           created_at: string
           created_by: string | null
           date: string
+          departure_time: string | null
           id: string
+          minutes_late: number | null
           notes: string | null
+          period_id: string | null
+          reason_id: string | null
+          session: string | null
           status: string
           student_id: string
+          updated_at: string | null
+          updated_by: string | null
         }
         Insert: {
+          academic_year_id?: string | null
+          arrival_time?: string | null
           created_at?: string
           created_by?: string | null
           date: string
+          departure_time?: string | null
           id?: string
+          minutes_late?: number | null
           notes?: string | null
+          period_id?: string | null
+          reason_id?: string | null
+          session?: string | null
           status: string
           student_id: string
+          updated_at?: string | null
+          updated_by?: string | null
         }
         Update: {
+          academic_year_id?: string | null
+          arrival_time?: string | null
           created_at?: string
           created_by?: string | null
           date?: string
+          departure_time?: string | null
           id?: string
+          minutes_late?: number | null
           notes?: string | null
+          period_id?: string | null
+          reason_id?: string | null
+          session?: string | null
           status?: string
           student_id?: string
+          updated_at?: string | null
+          updated_by?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "attendance_records_academic_year_id_fkey"
+            columns: ["academic_year_id"]
+            isOneToOne: false
+            referencedRelation: "academic_years"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attendance_records_period_id_fkey"
+            columns: ["period_id"]
+            isOneToOne: false
+            referencedRelation: "periods"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attendance_records_reason_id_fkey"
+            columns: ["reason_id"]
+            isOneToOne: false
+            referencedRelation: "absence_reasons"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attendance_records_status_fkey"
+            columns: ["status"]
+            isOneToOne: false
+            referencedRelation: "attendance_codes"
+            referencedColumns: ["code"]
+          },
           {
             foreignKeyName: "attendance_records_student_id_fkey"
             columns: ["student_id"]
@@ -47,6 +434,351 @@ export type Database = {
           },
         ]
       }
+      calendar_closures: {
+        Row: {
+          closure_type: string
+          created_at: string
+          end_date: string
+          id: string
+          name: string
+          start_date: string
+        }
+        Insert: {
+          closure_type?: string
+          created_at?: string
+          end_date: string
+          id?: string
+          name: string
+          start_date: string
+        }
+        Update: {
+          closure_type?: string
+          created_at?: string
+          end_date?: string
+          id?: string
+          name?: string
+          start_date?: string
+        }
+        Relationships: []
+      }
+      class_enrollments: {
+        Row: {
+          class: string
+          created_at: string
+          end_date: string | null
+          id: string
+          start_date: string
+          student_id: string
+        }
+        Insert: {
+          class: string
+          created_at?: string
+          end_date?: string | null
+          id?: string
+          start_date: string
+          student_id: string
+        }
+        Update: {
+          class?: string
+          created_at?: string
+          end_date?: string | null
+          id?: string
+          start_date?: string
+          student_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "class_enrollments_class_fkey"
+            columns: ["class"]
+            isOneToOne: false
+            referencedRelation: "classes"
+            referencedColumns: ["name"]
+          },
+          {
+            foreignKeyName: "class_enrollments_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      classes: {
+        Row: {
+          capacity: number | null
+          created_at: string
+          grade_level: number
+          homeroom_teacher: string | null
+          homeroom_teacher_email: string | null
+          id: string
+          name: string
+          room: string | null
+        }
+        Insert: {
+          capacity?: number | null
+          created_at?: string
+          grade_level: number
+          homeroom_teacher?: string | null
+          homeroom_teacher_email?: string | null
+          id?: string
+          name: string
+          room?: string | null
+        }
+        Update: {
+          capacity?: number | null
+          created_at?: string
+          grade_level?: number
+          homeroom_teacher?: string | null
+          homeroom_teacher_email?: string | null
+          id?: string
+          name?: string
+          room?: string | null
+        }
+        Relationships: []
+      }
+      periods: {
+        Row: {
+          created_at: string
+          end_time: string
+          id: string
+          name: string
+          session: string
+          sort_order: number
+          start_time: string
+        }
+        Insert: {
+          created_at?: string
+          end_time: string
+          id?: string
+          name: string
+          session?: string
+          sort_order?: number
+          start_time: string
+        }
+        Update: {
+          created_at?: string
+          end_time?: string
+          id?: string
+          name?: string
+          session?: string
+          sort_order?: number
+          start_time?: string
+        }
+        Relationships: []
+      }
+      register_reminders: {
+        Row: {
+          class: string
+          date: string
+          id: string
+          kind: string
+          recipients: string[]
+          sent_at: string
+        }
+        Insert: {
+          class: string
+          date: string
+          id?: string
+          kind: string
+          recipients?: string[]
+          sent_at?: string
+        }
+        Update: {
+          class?: string
+          date?: string
+          id?: string
+          kind?: string
+          recipients?: string[]
+          sent_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "register_reminders_class_fkey"
+            columns: ["class"]
+            isOneToOne: false
+            referencedRelation: "classes"
+            referencedColumns: ["name"]
+          },
+        ]
+      }
+      register_submissions: {
+        Row: {
+          class: string
+          date: string
+          id: string
+          submitted_at: string
+          submitted_by: string | null
+          submitted_by_name: string | null
+        }
+        Insert: {
+          class: string
+          date: string
+          id?: string
+          submitted_at?: string
+          submitted_by?: string | null
+          submitted_by_name?: string | null
+        }
+        Update: {
+          class?: string
+          date?: string
+          id?: string
+          submitted_at?: string
+          submitted_by?: string | null
+          submitted_by_name?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "register_submissions_class_fkey"
+            columns: ["class"]
+            isOneToOne: false
+            referencedRelation: "classes"
+            referencedColumns: ["name"]
+          },
+        ]
+      }
+      school_settings: {
+        Row: {
+          exclude_neutral_from_rates: boolean
+          id: boolean
+          late_counts_as_present: boolean
+          late_cutoff_time: string
+          office_email: string | null
+          register_escalation_time: string | null
+          register_reminder_time: string | null
+          timezone: string
+          updated_at: string
+          weekend_days: number[]
+        }
+        Insert: {
+          exclude_neutral_from_rates?: boolean
+          id?: boolean
+          late_counts_as_present?: boolean
+          late_cutoff_time?: string
+          office_email?: string | null
+          register_escalation_time?: string | null
+          register_reminder_time?: string | null
+          timezone?: string
+          updated_at?: string
+          weekend_days?: number[]
+        }
+        Update: {
+          exclude_neutral_from_rates?: boolean
+          id?: boolean
+          late_counts_as_present?: boolean
+          late_cutoff_time?: string
+          office_email?: string | null
+          register_escalation_time?: string | null
+          register_reminder_time?: string | null
+          timezone?: string
+          updated_at?: string
+          weekend_days?: number[]
+        }
+        Relationships: []
+      }
+      student_attendance_days: {
+        Row: {
+          absence_days: number
+          category: string
+          class_name: string
+          date: string
+          is_half_day_absence: boolean
+          minutes_late: number
+          status: string
+          student_id: string
+        }
+        Insert: {
+          absence_days?: number
+          category: string
+          class_name: string
+          date: string
+          is_half_day_absence?: boolean
+          minutes_late?: number
+          status: string
+          student_id: string
+        }
+        Update: {
+          absence_days?: number
+          category?: string
+          class_name?: string
+          date?: string
+          is_half_day_absence?: boolean
+          minutes_late?: number
+          status?: string
+          student_id?: string
+        }
+        Relationships: []
+      }
+      student_notes: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          note: string
+          student_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          note: string
+          student_id: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          note?: string
+          student_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "student_notes_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      student_year_records: {
+        Row: {
+          academic_year_id: string
+          class: string
+          grade_level: number
+          outcome: string
+          student_id: string
+        }
+        Insert: {
+          academic_year_id: string
+          class: string
+          grade_level: number
+          outcome: string
+          student_id: string
+        }
+        Update: {
+          academic_year_id?: string
+          class?: string
+          grade_level?: number
+          outcome?: string
+          student_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "student_year_records_academic_year_id_fkey"
+            columns: ["academic_year_id"]
+            isOneToOne: false
+            referencedRelation: "academic_years"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "student_year_records_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       students: {
         Row: {
           class: string
@@ -57,8 +789,10 @@ export type Database = {
           email: string | null
           first_name: string
           grade_level: number
+          graduated_at: string | null
           id: string
           last_name: string
+          notification_preference: string | null
           student_id: string
         }
         Insert: {
@@ -70,8 +804,10 @@ export type Database = {
           email?: string | null
           first_name: string
           grade_level: number
+          graduated_at?: string | null
           id?: string
           last_name: string
+          notification_preference?: string | null
           student_id: string
         }
         Update: {
@@ -83,10 +819,71 @@ export type Database = {
           email?: string | null
           first_name?: string
           grade_level?: number
+          graduated_at?: string | null
           id?: string
           last_name?: string
+          notification_preference?: string | null
           student_id?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "students_class_fkey"
+            columns: ["class"]
+            isOneToOne: false
+            referencedRelation: "classes"
+            referencedColumns: ["name"]
+          },
+        ]
+      }
+      user_notifications: {
+        Row: {
+          body: string | null
+          created_at: string
+          id: string
+          link: string | null
+          read_at: string | null
+          title: string
+          user_id: string
+        }
+        Insert: {
+          body?: string | null
+          created_at?: string
+          id?: string
+          link?: string | null
+          read_at?: string | null
+          title: string
+          user_id: string
+        }
+        Update: {
+          body?: string | null
+          created_at?: string
+          id?: string
+          link?: string | null
+          read_at?: string | null
+          title?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      user_roles: {
+        Row: {
+          created_at: string
+          id: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          user_id?: string
+        }
         Relationships: []
       }
     }
@@ -94,10 +891,223 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      attendance_metric_rules: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          exclude_neutral: boolean
+          late_counts_as_present: boolean
+        }[]
+      }
+      attendance_status_category: {
+        Args: {
+          p_status: string
+        }
+        Returns: string
+      }
+      attended_days: {
+        Args: {
+          p_absence_days: number
+          p_category: string
+          p_days: number
+          p_late_counts_as_present: boolean
+          p_status: string
+        }
+        Returns: number
+      }
+      daily_attendance: {
+        Args: {
+          p_from: string
+          p_to: string
+        }
+        Returns: {
+          absence_days: number
+          category: string
+          date: string
+          is_half_day_absence: boolean
+          minutes_late: number
+          status: string
+          student_id: string
+        }[]
+      }
+      delete_students: {
+        Args: {
+          p_student_ids?: string[]
+        }
+        Returns: undefined
+      }
+      derive_attendance_day: {
+        Args: {
+          p_am: string
+          p_pm: string
+        }
+        Returns: Record<string, unknown>
+      }
+      get_attendance_trends: {
+        Args: {
+          p_from: string
+          p_student_ids: string[]
+          p_to: string
+        }
+        Returns: {
+          absent: number
+          consecutive_absences: number
+          excused: number
+          half_day_absences: number
+          late: number
+          late_days: number
+          neutral: number
+          present: number
+          student_id: string
+          total: number
+          total_minutes_late: number
+        }[]
+      }
+      get_class_attendance: {
+        Args: {
+          p_from: string
+          p_last_day: string
+          p_to: string
+        }
+        Returns: {
+          attendance_rate: number
+          class_name: string
+          half_day_absent_count: number
+          present_count: number
+        }[]
+      }
+      get_due_register_reminders: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          class_name: string
+          date: string
+          homeroom_teacher: string
+          homeroom_teacher_email: string
+          kind: string
+          marked: number
+          students: number
+          teacher_user_id: string
+        }[]
+      }
+      get_period_attendance: {
+        Args: {
+          p_from: string
+          p_student_ids?: string[]
+          p_to: string
+        }
+        Returns: {
+          absences: number
+          attendance_rate: number
+          days_marked: number
+          presences: number
+        }[]
+      }
+      get_user_display_name: {
+        Args: {
+          p_user_id: string
+        }
+        Returns: string
+      }
+      has_role: {
+        Args: {
+          p_role: Database["public"]["Enums"]["app_role"]
+          p_user_id: string
+        }
+        Returns: boolean
+      }
+      is_instructional_day: {
+        Args: {
+          p_date: string
+        }
+        Returns: boolean
+      }
+      rebuild_attendance_summary: {
+        Args: {
+          p_from?: string
+          p_to?: string
+        }
+        Returns: undefined
+      }
+      record_attendance_batch: {
+        Args: {
+          p_date: string
+          p_period_id: string
+          p_records: Json
+          p_session: string
+        }
+        Returns: {
+            academic_year_id: string | null
+            arrival_time: string | null
+            created_at: string
+            created_by: string | null
+            date: string
+            departure_time: string | null
+            id: string
+            minutes_late: number | null
+            notes: string | null
+            period_id: string | null
+            reason_id: string | null
+            session: string | null
+            status: string
+            student_id: string
+            updated_at: string | null
+            updated_by: string | null
+        }[]
+      }
+      refresh_attendance_days: {
+        Args: {
+          p_from: string
+          p_student_ids: string[]
+          p_to: string
+        }
+        Returns: undefined
+      }
+      refresh_attendance_summary: {
+        Args: {
+          p_dates: string[]
+        }
+        Returns: undefined
+      }
+      review_attendance_correction: {
+        Args: {
+          p_approve: boolean
+          p_correction_id: string
+          p_review_note?: string
+        }
+        Returns: undefined
+      }
+      roll_up_period_status: {
+        Args: {
+          p_categories: string[]
+          p_statuses: string[]
+        }
+        Returns: string
+      }
+      rollover_academic_year: {
+        Args: {
+          p_class_map?: Json
+          p_final_grade: number
+          p_next_end: string
+          p_next_name: string
+          p_next_start: string
+          p_year_id: string
+        }
+        Returns: Json
+      }
+      school_today: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      transfer_student: {
+        Args: {
+          p_class: string
+          p_effective_date: string
+          p_student_id: string
+        }
+        Returns: undefined
+      }
     }
     Enums: {
-      [_ in never]: never
+      app_role: "admin" | "teacher"
     }
     CompositeTypes: {
       [_ in never]: never
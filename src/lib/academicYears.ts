@@ -0,0 +1,41 @@
+import { AcademicYear, DateRange, Student } from "./types";
+
+export const getYearRange = (year: AcademicYear): DateRange => ({
+  from: year.startDate,
+  to: year.endDate
+});
+
+// Suggest next year's class by bumping the grade number in the name:
+// "10A" -> "11A", "Grade 7 Blue" -> "Grade 8 Blue". Names without a number stay as they are.
+export const suggestNextClass = (className: string): string =>
+  className.replace(/\d+/, grade => String(Number(grade) + 1));
+
+// One row per current class for the rollover wizard, with the suggested class next year
+export const buildClassMap = (students: Student[], finalGrade: number): Record<string, string> => {
+  const classMap: Record<string, string> = {};
+
+  students
+    .filter(student => !student.deletedAt && !student.graduatedAt && student.gradeLevel < finalGrade)
+    .forEach(student => {
+      if (!classMap[student.class]) {
+        classMap[student.class] = suggestNextClass(student.class);
+      }
+    });
+
+  return classMap;
+};
+
+// The next year starts the day after this one ends and runs for the same length
+export const suggestNextYear = (year: AcademicYear): Pick<AcademicYear, 'name' | 'startDate' | 'endDate'> => {
+  const shift = (date: string) => {
+    const next = new Date(`${date}T00:00:00Z`);
+    next.setUTCFullYear(next.getUTCFullYear() + 1);
+    return next.toISOString().split('T')[0];
+  };
+
+  return {
+    name: year.name.replace(/\d{4}/g, y => String(Number(y) + 1)),
+    startDate: shift(year.startDate),
+    endDate: shift(year.endDate)
+  };
+};
@@ -0,0 +1,26 @@
+import { AttendanceRecord } from "./types";
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// Postgres returns times as HH:mm:ss, the UI works in HH:mm
+export const toTimeOfDay = (time: string | null | undefined): string | null =>
+  time ? time.slice(0, 5) : null;
+
+// Classify an arrival against the late cutoff: anything after the cutoff is late
+export const classifyArrival = (
+  arrivalTime: string,
+  cutoffTime: string
+): { status: AttendanceRecord['status']; minutesLate: number } => {
+  const minutesLate = Math.max(0, toMinutes(arrivalTime) - toMinutes(cutoffTime));
+  return { status: minutesLate > 0 ? 'late' : 'present', minutesLate };
+};
+
+export const formatMinutesLate = (minutesLate: number): string => {
+  if (minutesLate < 60) return `${minutesLate} min late`;
+  const hours = Math.floor(minutesLate / 60);
+  const minutes = minutesLate % 60;
+  return minutes > 0 ? `${hours}h ${minutes}m late` : `${hours}h late`;
+};
@@ -1,4 +1,5 @@
-import { Student, AttendanceRecord, AttendanceSummary, ClassSummary } from './types';
+import { Student, AttendanceRecord } from './types';
+import { addDays, getToday } from './dateUtils';
 
 // Mock data storage - in a real app, this would connect to a database
 let studentsData: Student[] = [];
@@ -23,9 +24,11 @@ export const recordAttendance = (record: Omit<AttendanceRecord, 'id'>): Attendan
   const id = crypto.randomUUID();
   const newRecord = { ...record, id };
   
-  // Check if there's already a record for this student on this date
+  // Check if there's already a record for this student in this register
   const existingIndex = attendanceRecords.findIndex(
-    r => r.studentId === record.studentId && r.date === record.date
+    r => r.studentId === record.studentId && r.date === record.date &&
+      (r.periodId || null) === (record.periodId || null) &&
+      (r.session || null) === (record.session || null)
   );
   
   if (existingIndex >= 0) {
@@ -47,64 +50,6 @@ export const getStudentAttendance = (studentId: string): AttendanceRecord[] => {
   return attendanceRecords.filter(record => record.studentId === studentId);
 };
 
-// Statistics and summaries
-export const getAttendanceSummary = (date: string): AttendanceSummary => {
-  const records = getAttendanceForDate(date);
-  const total = studentsData.length;
-  
-  const present = records.filter(r => r.status === 'present').length;
-  const absent = records.filter(r => r.status === 'absent').length;
-  const late = records.filter(r => r.status === 'late').length;
-  const excused = records.filter(r => r.status === 'excused').length;
-  
-  return {
-    date,
-    present,
-    absent,
-    late,
-    excused,
-    total
-  };
-};
-
-export const getClassSummaries = (): ClassSummary[] => {
-  // Group students by class
-  const classes: Record<string, Student[]> = {};
-  
-  studentsData.forEach(student => {
-    if (!classes[student.class]) {
-      classes[student.class] = [];
-    }
-    classes[student.class].push(student);
-  });
-  
-  // Calculate attendance rate for each class
-  return Object.keys(classes).map(className => {
-    const students = classes[className];
-    const studentIds = students.map(s => s.id);
-    
-    // Count total attendance records that are present or late
-    const presentCount = attendanceRecords.filter(
-      r => studentIds.includes(r.studentId) && (r.status === 'present' || r.status === 'late')
-    ).length;
-    
-    // Total possible attendance records
-    const totalPossibleRecords = students.length * (new Set(attendanceRecords.map(r => r.date)).size || 1);
-    
-    // Calculate attendance rate
-    const attendanceRate = totalPossibleRecords > 0 
-      ? (presentCount / totalPossibleRecords) * 100 
-      : 100; // Default to 100% if no records
-      
-    return {
-      className,
-      totalStudents: students.length,
-      attendanceRate,
-      presentCount
-    };
-  });
-};
-
 // Initialize with sample data for demo purposes
 export const initializeSampleData = () => {
   const sampleStudents: Student[] = [
@@ -155,8 +100,8 @@ export const initializeSampleData = () => {
     }
   ];
   
-  const today = new Date().toISOString().split('T')[0];
-  const yesterday = new Date(Date.now() - 86400000).toISOString().split('T')[0];
+  const today = getToday();
+  const yesterday = addDays(today, -1);
   
   const sampleAttendance: AttendanceRecord[] = [
     { id: 'a1', studentId: '1', date: today, status: 'present' },
@@ -0,0 +1,37 @@
+import { AttendanceCategory, AttendanceCode, AttendanceStatus } from "./types";
+
+// The built-in codes, also used until the admin-defined list has loaded
+export const DEFAULT_ATTENDANCE_CODES: AttendanceCode[] = [
+  { code: 'present', label: 'Present', color: '#16a34a', icon: 'check-circle', countsAs: 'present', isSystem: true, sortOrder: 0 },
+  { code: 'absent', label: 'Absent', color: '#dc2626', icon: 'x-circle', countsAs: 'absent', isSystem: true, sortOrder: 1 },
+  { code: 'late', label: 'Late', color: '#d97706', icon: 'clock', countsAs: 'present', isSystem: true, sortOrder: 2 },
+  { code: 'excused', label: 'Excused', color: '#2563eb', icon: 'alert-circle', countsAs: 'neutral', isSystem: true, sortOrder: 3 }
+];
+
+// Not a code: how the dashboard shows and filters students with no mark yet
+export const UNMARKED_STATUS = 'unmarked';
+export const UNMARKED_LABEL = 'Not marked';
+
+export const CATEGORY_LABELS: Record<AttendanceCategory, string> = {
+  present: 'Counts as present',
+  absent: 'Counts as absent',
+  neutral: 'Neutral (not counted)'
+};
+
+// Unknown codes (e.g. one deleted after use) count as neutral rather than skewing rates
+export const getStatusCategory = (
+  status: AttendanceStatus | null | undefined,
+  codes: AttendanceCode[] = DEFAULT_ATTENDANCE_CODES
+): AttendanceCategory | null => {
+  if (!status) return null;
+  return codes.find(c => c.code === status)?.countsAs ?? 'neutral';
+};
+
+export const getStatusLabel = (
+  status: AttendanceStatus,
+  codes: AttendanceCode[] = DEFAULT_ATTENDANCE_CODES
+): string => codes.find(c => c.code === status)?.label ?? status;
+
+// "School trip" -> "school_trip"
+export const toStatusCode = (label: string): string =>
+  label.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '').replace(/^(\d)/, 'code_$1');
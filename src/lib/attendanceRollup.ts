@@ -0,0 +1,169 @@
+import { AttendanceCategory, AttendanceCode, AttendanceRecord, AttendanceSession, AttendanceStatus, DailyAttendance, Period } from "./types";
+import { DEFAULT_ATTENDANCE_CODES, getStatusCategory } from "./attendanceCodes";
+
+type Status = AttendanceStatus;
+
+const SESSIONS: AttendanceSession[] = ['am', 'pm'];
+
+export const SESSION_LABELS: Record<AttendanceSession, string> = {
+  am: 'Morning session',
+  pm: 'Afternoon session'
+};
+
+// When a student missed everything, pick the status that says most about why:
+// a single status if they all agree, else the first one that counts as absent
+const pickMissedStatus = (statuses: Status[], codes: AttendanceCode[]): Status => {
+  if (statuses.every(status => status === statuses[0])) return statuses[0];
+  return statuses.find(status => getStatusCategory(status, codes) === 'absent') ?? statuses[0];
+};
+
+// Derive one status from a run of lesson records, read in bell order:
+// - no period attended: the missed status (absent, or e.g. excused if every period was excused)
+// - first marked period attended: that period's status
+// - first marked period missed, later ones attended: late
+export const rollUpPeriodStatus = (
+  records: AttendanceRecord[],
+  periods: Period[] = [],
+  codes: AttendanceCode[] = DEFAULT_ATTENDANCE_CODES
+): Status | null => {
+  if (records.length === 0) return null;
+
+  const isAttending = (status: Status) => getStatusCategory(status, codes) === 'present';
+  const periodOrder = new Map(periods.map(p => [p.id, p.sortOrder]));
+  const ordered = [...records].sort(
+    (a, b) => (periodOrder.get(a.periodId!) ?? Number.MAX_SAFE_INTEGER) - (periodOrder.get(b.periodId!) ?? Number.MAX_SAFE_INTEGER)
+  );
+
+  if (!ordered.some(r => isAttending(r.status))) {
+    return pickMissedStatus(ordered.map(r => r.status), codes);
+  }
+
+  return isAttending(ordered[0].status) ? ordered[0].status : 'late';
+};
+
+// Status of one half-day session: the session register if taken, otherwise its lessons
+export const rollUpSessionStatus = (
+  records: AttendanceRecord[],
+  session: AttendanceSession,
+  periods: Period[] = [],
+  codes: AttendanceCode[] = DEFAULT_ATTENDANCE_CODES
+): Status | null => {
+  const sessionRecord = records.find(r => !r.periodId && r.session === session);
+  if (sessionRecord) return sessionRecord.status;
+
+  const periodSessions = new Map(periods.map(p => [p.id, p.session]));
+  return rollUpPeriodStatus(
+    records.filter(r => r.periodId && periodSessions.get(r.periodId) === session),
+    periods,
+    codes
+  );
+};
+
+// The daily rule for half days. Present in one session and absent in the other is a
+// half-day absence: the day takes the attended session's status and counts as half an absence.
+// Missing every register taken is a full-day absence, including when only one session had
+// a register (e.g. a school that takes only the morning register).
+export const deriveDayStatus = (
+  am: Status | null,
+  pm: Status | null,
+  codes: AttendanceCode[] = DEFAULT_ATTENDANCE_CODES
+): { status: Status | null; category: AttendanceCategory | null; absenceDays: number; isHalfDayAbsence: boolean } => {
+  const amCategory = getStatusCategory(am, codes);
+  const pmCategory = getStatusCategory(pm, codes);
+
+  if (!am || !pm || (amCategory !== 'present' && pmCategory !== 'present')) {
+    const status = !am || !pm ? am || pm : pickMissedStatus([am, pm], codes);
+    const category = getStatusCategory(status, codes);
+    return { status, category, absenceDays: category === 'absent' ? 1 : 0, isHalfDayAbsence: false };
+  }
+
+  if (amCategory === 'present' && pmCategory === 'present') {
+    return { status: am, category: 'present', absenceDays: 0, isHalfDayAbsence: false };
+  }
+
+  const attended = amCategory === 'present' ? am : pm;
+  const isHalfDayAbsence = (amCategory === 'present' ? pmCategory : amCategory) === 'absent';
+
+  return { status: attended, category: 'present', absenceDays: isHalfDayAbsence ? 0.5 : 0, isHalfDayAbsence };
+};
+
+// Minutes late for the day, taken from the first register the student attended:
+// the whole-day register, else the morning before the afternoon and lessons in bell order
+const getMinutesLate = (records: AttendanceRecord[], periods: Period[], codes: AttendanceCode[]): number => {
+  const periodsById = new Map(periods.map(p => [p.id, p]));
+  const rank = (record: AttendanceRecord) => {
+    if (!record.periodId && !record.session) return -1;
+    const period = record.periodId ? periodsById.get(record.periodId) : undefined;
+    const session = period ? period.session : record.session;
+    return (session === 'pm' ? 100000 : 0) + (period ? 1 + period.sortOrder : 0);
+  };
+
+  const arrival = records
+    .filter(r => getStatusCategory(r.status, codes) === 'present')
+    .sort((a, b) => rank(a) - rank(b))[0];
+
+  return arrival?.minutesLate ?? 0;
+};
+
+// Derive one day for a student from all of their records on that date.
+// A whole-day register always wins over session and lesson registers.
+export const rollUpDay = (
+  records: AttendanceRecord[],
+  periods: Period[] = [],
+  codes: AttendanceCode[] = DEFAULT_ATTENDANCE_CODES
+): DailyAttendance | null => {
+  if (records.length === 0) return null;
+
+  const base = {
+    studentId: records[0].studentId,
+    date: records[0].date,
+    minutesLate: getMinutesLate(records, periods, codes),
+    periodsMarked: records.filter(r => r.periodId).length
+  };
+
+  const dailyRecord = records.find(r => !r.periodId && !r.session);
+  if (dailyRecord) {
+    const category = getStatusCategory(dailyRecord.status, codes)!;
+    return {
+      ...base,
+      status: dailyRecord.status,
+      category,
+      sessions: { am: dailyRecord.status, pm: dailyRecord.status },
+      absenceDays: category === 'absent' ? 1 : 0,
+      isHalfDayAbsence: false
+    };
+  }
+
+  const sessions = {
+    am: rollUpSessionStatus(records, 'am', periods, codes),
+    pm: rollUpSessionStatus(records, 'pm', periods, codes)
+  };
+
+  // Lessons without a known period (e.g. a deleted one) still count towards the day, as a whole day
+  if (!SESSIONS.some(session => sessions[session])) {
+    const status = rollUpPeriodStatus(records, periods, codes);
+    sessions.am = status;
+    return { ...base, sessions, ...deriveDayStatus(status, status, codes) };
+  }
+
+  return { ...base, sessions, ...deriveDayStatus(sessions.am, sessions.pm, codes) };
+};
+
+// Collapse session and lesson records into one DailyAttendance per student per day
+export const rollUpDailyAttendance = (
+  records: AttendanceRecord[],
+  periods: Period[] = [],
+  codes: AttendanceCode[] = DEFAULT_ATTENDANCE_CODES
+): DailyAttendance[] => {
+  const groups = new Map<string, AttendanceRecord[]>();
+
+  records.forEach(record => {
+    const key = `${record.studentId}|${record.date}`;
+    if (!groups.has(key)) {
+      groups.set(key, []);
+    }
+    groups.get(key)!.push(record);
+  });
+
+  return Array.from(groups.values()).map(group => rollUpDay(group, periods, codes)!);
+};
@@ -1,210 +1,161 @@
 import { supabase } from "@/integrations/supabase/client";
-import { Student, AttendanceSummary, ClassSummary } from "./types";
+import { Student, AbsenceReasonSummary, DateRange, SchoolClass, AttendanceSummary, ClassSummary, PeriodAttendance } from "./types";
 import { toast } from "@/components/ui/use-toast";
+import { getAttendanceCodes, getSchoolSettings } from "./supabaseService";
+import { getStatusCategory } from "./attendanceCodes";
+import { addDays, getToday } from "./dateUtils";
+import { calculateAbsenceRate, getCountedDays } from "./metrics";
 
-// Get total absences for all students
-export const getTotalAbsences = async (students: Student[]): Promise<number> => {
-  // Filter to get only active student IDs
-  const activeStudentIds = students
-    .filter(student => !student.deletedAt)
-    .map(student => student.id);
-  
-  if (activeStudentIds.length === 0) return 0;
-  
-  const { count, error } = await supabase
-    .from("attendance_records")
-    .select("*", { count: "exact", head: true })
-    .eq("status", "absent")
-    .in("student_id", activeStudentIds);
-    
-  if (error) {
-    console.error("Error counting absences:", error);
-    throw error;
-  }
-  
-  return count || 0;
-};
+// Dashboard metrics are worked out in Postgres, one request per widget. Session and lesson
+// registers are rolled up into one status per student per day (see the
+// attendance_aggregates migration), and only instructional days count, so weekends,
+// holidays and closures never affect a rate. The days and their per-class totals are
+// stored as attendance is saved (the attendance_daily_summary migration), so a long range
+// costs no more to read than a single day.
 
-// Get total presences for all students for today only
-export const getTotalPresences = async (students: Student[]): Promise<number> => {
-  const today = new Date().toISOString().split('T')[0]; // YYYY-MM-DD format
-  
-  // Filter to get only active student IDs
-  const activeStudentIds = students
-    .filter(student => !student.deletedAt)
-    .map(student => student.id);
-  
-  if (activeStudentIds.length === 0) return 0;
+// Presences, absences and the attendance rate for all students across a date range.
+// Students in the bin are left out of the stored totals.
+export const getPeriodAttendance = async (range: DateRange): Promise<PeriodAttendance> => {
+  const { data, error } = await supabase
+    .rpc("get_period_attendance", {
+      p_from: range.from,
+      p_to: range.to
+    })
+    .single();
   
-  const { count, error } = await supabase
-    .from("attendance_records")
-    .select("*", { count: "exact", head: true })
-    .eq("status", "present")
-    .eq("date", today)
-    .in("student_id", activeStudentIds);
-    
   if (error) {
-    console.error("Error counting presences:", error);
+    console.error("Error fetching period attendance:", error);
     throw error;
   }
   
-  return count || 0;
+  return {
+    presences: data.presences,
+    absences: Number(data.absences),
+    attendanceRate: data.attendance_rate === null ? null : Number(data.attendance_rate),
+    daysMarked: data.days_marked
+  };
 };
 
-// Get attendance for today
-export const getTodayAttendance = async (students: Student[]): Promise<number> => {
-  const today = new Date().toISOString().split('T')[0]; // YYYY-MM-DD format
+// Get attendance by class. Rates cover the range if one is given, otherwise all time;
+// present and half-day absent counts are for the last day of the range (or today).
+// Every class in schoolClasses gets a summary, even with no students yet. Each day counts
+// towards the class the student was enrolled in on that date, so a transfer doesn't take
+// past attendance along to the new class.
+export const getTotalAttendanceByClass = async (
+  students: Student[],
+  range?: DateRange,
+  schoolClasses: SchoolClass[] = []
+): Promise<ClassSummary[]> => {
+  // Group students by class (only active students)
+  const classes: Record<string, Student[]> = {};
   
-  // Filter to get only active student IDs
-  const activeStudentIds = students
-    .filter(student => !student.deletedAt)
-    .map(student => student.id);
+  schoolClasses.forEach(schoolClass => {
+    classes[schoolClass.name] = [];
+  });
+  
+  const activeStudents = students.filter(student => !student.deletedAt);
+  activeStudents.forEach(student => {
+    if (!classes[student.class]) {
+      classes[student.class] = [];
+    }
+    classes[student.class].push(student);
+  });
   
-  if (activeStudentIds.length === 0) return 0;
+  const lastDay = range?.to || getToday();
+  let classAttendance: { class_name: string; attendance_rate: number | null; present_count: number; half_day_absent_count: number }[] = [];
   
-  const { count, error } = await supabase
-    .from("attendance_records")
-    .select("*", { count: "exact", head: true })
-    .eq("date", today)
-    .eq("status", "present")
-    .in("student_id", activeStudentIds);
+  if (activeStudents.length > 0) {
+    const { data, error } = await supabase.rpc("get_class_attendance", {
+      p_from: range?.from ?? null,
+      p_to: range?.to ?? null,
+      p_last_day: lastDay
+    });
     
-  if (error) {
-    console.error("Error counting today's attendance:", error);
-    throw error;
+    if (error) {
+      console.error("Error fetching class attendance:", error);
+      throw error;
+    }
+    
+    classAttendance = data;
   }
   
-  return count || 0;
-};
-
-// Get attendance by class
-export const getTotalAttendanceByClass = async (students: Student[]): Promise<ClassSummary[]> => {
-  // Group students by class (only active students)
-  const classes: Record<string, Student[]> = {};
-  
-  students
-    .filter(student => !student.deletedAt)
-    .forEach(student => {
-      if (!classes[student.class]) {
-        classes[student.class] = [];
-      }
-      classes[student.class].push(student);
-    });
+  // Former classes of transferred students still show their attendance
+  classAttendance.forEach(row => {
+    if (!classes[row.class_name]) {
+      classes[row.class_name] = [];
+    }
+  });
   
-  // Calculate attendance data for each class
-  const summaries: ClassSummary[] = await Promise.all(
-    Object.keys(classes).map(async (className) => {
-      const studentsInClass = classes[className];
-      const studentIds = studentsInClass.map(s => s.id);
-      
-      // Count present students for this class today
-      const today = new Date().toISOString().split('T')[0];
-      const { count: presentToday, error: countError } = await supabase
-        .from("attendance_records")
-        .select("*", { count: "exact", head: true })
-        .in("student_id", studentIds)
-        .eq("date", today)
-        .eq("status", "present");
-        
-      if (countError) {
-        console.error(`Error counting present students in ${className}:`, countError);
-        throw countError;
-      }
+  return Object.keys(classes).map(className => {
+    const studentsInClass = classes[className];
+    const attendance = classAttendance.find(row => row.class_name === className);
+    const schoolClass = schoolClasses.find(c => c.name === className);
       
-      // Calculate overall attendance rate
-      const { count: totalPresent, error: rateError } = await supabase
-        .from("attendance_records")
-        .select("*", { count: "exact", head: true })
-        .in("student_id", studentIds)
-        .eq("status", "present");
-        
-      if (rateError) {
-        console.error(`Error calculating attendance rate for ${className}:`, rateError);
-        throw rateError;
-      }
-      
-      // Get total number of attendance records for this class
-      const { count: totalRecords, error: recordsError } = await supabase
-        .from("attendance_records")
-        .select("*", { count: "exact", head: true })
-        .in("student_id", studentIds);
-        
-      if (recordsError) {
-        console.error(`Error counting total records for ${className}:`, recordsError);
-        throw recordsError;
-      }
-      
-      const attendanceRate = totalRecords && totalRecords > 0 
-        ? (totalPresent || 0) / totalRecords * 100 
-        : 0;
-        
-      return {
-        className,
-        totalStudents: studentsInClass.length,
-        attendanceRate,
-        presentCount: presentToday || 0
-      };
-    })
-  );
-  
-  return summaries;
+    return {
+      className,
+      totalStudents: studentsInClass.length,
+      attendanceRate: attendance && attendance.attendance_rate !== null ? Number(attendance.attendance_rate) : null,
+      presentCount: attendance?.present_count ?? 0,
+      halfDayAbsentCount: attendance?.half_day_absent_count ?? 0,
+      gradeLevel: schoolClass?.gradeLevel,
+      homeroomTeacher: schoolClass?.homeroomTeacher,
+      room: schoolClass?.room,
+      capacity: schoolClass?.capacity
+    };
+  });
 };
 
-// Check for attendance trends and send notifications
-export const checkAttendanceTrends = async (students: Student[]): Promise<AttendanceSummary[]> => {
+// Check for attendance trends and send notifications. Looks at the 30 days up to today,
+// or up to the end of the range (e.g. a past academic year) when that is earlier.
+export const checkAttendanceTrends = async (students: Student[], range?: Partial<DateRange>): Promise<AttendanceSummary[]> => {
   // Filter to get only active students
   const activeStudents = students.filter(student => !student.deletedAt);
   
   if (activeStudents.length === 0) return [];
 
   // Get attendance records for the past 30 days
-  const thirtyDaysAgo = new Date();
-  thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
-  const fromDate = thirtyDaysAgo.toISOString().split('T')[0];
-  const today = new Date().toISOString().split('T')[0];
+  let toDate = getToday();
+  if (range?.to && range.to < toDate) {
+    toDate = range.to;
+  }
+  let fromDate = addDays(toDate, -30);
+  if (range?.from && range.from > fromDate) {
+    fromDate = range.from;
+  }
+
+  const [{ data, error }, { metricRules }] = await Promise.all([
+    supabase.rpc("get_attendance_trends", {
+      p_from: fromDate,
+      p_to: toDate,
+      p_student_ids: activeStudents.map(s => s.id)
+    }),
+    getSchoolSettings()
+  ]);
 
+  if (error) {
+    console.error("Error fetching attendance trends:", error);
+    throw error;
+  }
+
+  const trendsByStudent = new Map(data.map(row => [row.student_id, row]));
   const attendanceSummaries: AttendanceSummary[] = [];
 
   for (const student of activeStudents) {
-    // Get all attendance records for this student in last 30 days
-    const { data: records, error } = await supabase
-      .from("attendance_records")
-      .select("*")
-      .eq("student_id", student.id)
-      .gte("date", fromDate)
-      .lte("date", today)
-      .order("date", { ascending: false });
+    const trend = trendsByStudent.get(student.id);
 
-    if (error) {
-      console.error(`Error fetching attendance for student ${student.id}:`, error);
-      continue;
-    }
-
-    // Calculate attendance metrics
-    const totalRecords = records.length;
-    const absences = records.filter(r => r.status === 'absent').length;
-    const absenceRate = totalRecords > 0 ? (absences / totalRecords) * 100 : 0;
+    // Calculate attendance metrics (see metrics.ts for the rules)
+    const totalRecords = getCountedDays(trend?.total ?? 0, trend?.neutral ?? 0, metricRules);
+    const absences = Number(trend?.absent ?? 0);
+    const maxConsecutiveAbsences = trend?.consecutive_absences ?? 0;
+    const totalMinutesLate = trend?.total_minutes_late ?? 0;
+    const lateDays = trend?.late_days ?? 0;
+    const absenceRate = calculateAbsenceRate(absences, totalRecords) ?? 0;
 
     // Check for concerning patterns
     let shouldNotify = false;
     let notificationMsg = '';
 
     // Consecutive absences (3 or more)
-    let consecutiveAbsences = 0;
-    let maxConsecutiveAbsences = 0;
-
-    // Sort records by date (newest first)
-    const sortedRecords = [...records].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-    
-    for (const record of sortedRecords) {
-      if (record.status === 'absent') {
-        consecutiveAbsences++;
-        maxConsecutiveAbsences = Math.max(maxConsecutiveAbsences, consecutiveAbsences);
-      } else {
-        consecutiveAbsences = 0;
-      }
-    }
-
     if (maxConsecutiveAbsences >= 3) {
       shouldNotify = true;
       notificationMsg = `${student.firstName} ${student.lastName} has been absent for ${maxConsecutiveAbsences} consecutive days`;
@@ -232,15 +183,19 @@ export const checkAttendanceTrends = async (students: Student[]): Promise<Attend
     }
 
     attendanceSummaries.push({
-      date: today,
+      date: toDate,
       studentId: student.id,
       studentName: `${student.firstName} ${student.lastName}`,
       absenceRate: absenceRate,
       consecutiveAbsences: maxConsecutiveAbsences,
-      present: records.filter(r => r.status === 'present').length,
+      totalMinutesLate,
+      averageMinutesLate: lateDays > 0 ? totalMinutesLate / lateDays : 0,
+      present: trend?.present ?? 0,
       absent: absences,
-      late: records.filter(r => r.status === 'late').length,
-      excused: records.filter(r => r.status === 'excused').length,
+      halfDayAbsences: trend?.half_day_absences ?? 0,
+      late: trend?.late ?? 0,
+      excused: trend?.excused ?? 0,
+      neutral: trend?.neutral ?? 0,
       total: totalRecords,
       needsAttention: shouldNotify
     });
@@ -249,6 +204,55 @@ export const checkAttendanceTrends = async (students: Student[]): Promise<Attend
   return attendanceSummaries;
 };
 
+// Absences, lateness and other non-present marks in a date range, grouped by reason.
+// Each student-day counts once per reason, however many lesson registers it was marked on.
+export const getAbsencesByReason = async (
+  fromDate: string,
+  toDate: string
+): Promise<AbsenceReasonSummary[]> => {
+  const { data, error } = await supabase
+    .from("attendance_records")
+    .select("student_id, date, status, reason_id, absence_reasons(name), students!inner(deleted_at)")
+    .gte("date", fromDate)
+    .lte("date", toDate)
+    .neq("status", "present")
+    .is("students.deleted_at", null);
+    
+  if (error) {
+    console.error("Error fetching absences by reason:", error);
+    throw error;
+  }
+  
+  const codes = await getAttendanceCodes();
+  const summaries = new Map<string, AbsenceReasonSummary>();
+  const counted = new Set<string>();
+  
+  data
+    // Late arrivals count as present but still have a reason worth reporting
+    .filter(record => record.status === "late" || getStatusCategory(record.status, codes) !== "present")
+    .forEach(record => {
+      const key = record.reason_id || "none";
+      const dayKey = `${key}|${record.student_id}|${record.date}|${record.status}`;
+      if (counted.has(dayKey)) return;
+      counted.add(dayKey);
+      
+      if (!summaries.has(key)) {
+        summaries.set(key, {
+          reasonId: record.reason_id,
+          reasonName: record.absence_reasons?.name || "No reason given",
+          total: 0,
+          statusCounts: {}
+        });
+      }
+      
+      const summary = summaries.get(key)!;
+      summary.total++;
+      summary.statusCounts[record.status] = (summary.statusCounts[record.status] || 0) + 1;
+    });
+  
+  return Array.from(summaries.values()).sort((a, b) => b.total - a.total);
+};
+
 // Get all attendance records in a date range
 export const getAttendanceInRange = async (
   fromDate: string, 
@@ -276,6 +280,7 @@ export const getAttendanceInRange = async (
     id: record.id,
     date: record.date,
     status: record.status,
+    reasonId: record.reason_id,
     notes: record.notes,
     student: {
       id: record.students.id,
@@ -0,0 +1,70 @@
+// Attendance dates are plain YYYY-MM-DD strings on the school's calendar. "Today" has to be
+// worked out in the school's timezone rather than UTC, or marks taken early in the morning
+// east of Greenwich (or late in the evening west of it) land on the wrong day.
+
+const TIMEZONE_STORAGE_KEY = 'school-timezone';
+
+export const isValidTimezone = (timezone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const getInitialTimezone = (): string => {
+  // The last timezone loaded from the school settings, so offline use still gets it right
+  const saved = typeof localStorage !== 'undefined' ? localStorage.getItem(TIMEZONE_STORAGE_KEY) : null;
+  if (saved && isValidTimezone(saved)) return saved;
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+};
+
+let schoolTimezone = getInitialTimezone();
+
+export const getSchoolTimezone = (): string => schoolTimezone;
+
+export const setSchoolTimezone = (timezone: string): void => {
+  if (!isValidTimezone(timezone) || timezone === schoolTimezone) return;
+  schoolTimezone = timezone;
+  localStorage.setItem(TIMEZONE_STORAGE_KEY, timezone);
+};
+
+// The school's calendar date at a moment in time
+export const toSchoolDate = (moment: Date): string => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: schoolTimezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit'
+  }).formatToParts(moment);
+  const part = (type: string) => parts.find(p => p.type === type)?.value;
+  return `${part('year')}-${part('month')}-${part('day')}`;
+};
+
+export const getToday = (): string => toSchoolDate(new Date());
+
+// The school's time of day (HH:mm) at a moment in time
+export const toSchoolTime = (moment: Date): string =>
+  new Intl.DateTimeFormat('en-GB', {
+    timeZone: schoolTimezone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).format(moment);
+
+// Date arithmetic on YYYY-MM-DD strings, done in UTC so the browser's timezone never shifts it
+export const addDays = (date: string, days: number): string => {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().split('T')[0];
+};
+
+// Show a YYYY-MM-DD date. new Date('YYYY-MM-DD') is midnight UTC, which a plain
+// toLocaleDateString() shows as the day before west of Greenwich; formatting in UTC keeps
+// the calendar date as it is.
+export const formatDateOnly = (
+  date: string,
+  options: Intl.DateTimeFormatOptions = {},
+  locale?: string
+): string => new Date(`${date}T00:00:00Z`).toLocaleDateString(locale, { ...options, timeZone: 'UTC' });
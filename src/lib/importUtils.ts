@@ -1,7 +1,15 @@
 
-import { Student, ImportResult } from './types';
+import { Student, ImportResult, SchoolClass } from './types';
 
-export const parseCSV = (csvContent: string): ImportResult => {
+// Match a class name from a CSV against the classes list, ignoring case and spacing
+// ("10 a" finds "10A"). Returns undefined if there is no such class.
+export const findClass = (name: string, classes: SchoolClass[]): SchoolClass | undefined => {
+  const normalise = (value: string) => value.replace(/\s+/g, '').toLowerCase();
+  return classes.find(c => normalise(c.name) === normalise(name));
+};
+
+// Pass the school's classes to reject rows whose class doesn't exist
+export const parseCSV = (csvContent: string, classes: SchoolClass[] = []): ImportResult => {
   try {
     // Split the content by line breaks
     const lines = csvContent.split(/\r\n|\n/);
@@ -70,6 +78,20 @@ export const parseCSV = (csvContent: string): ImportResult => {
         }
       }
       
+      // The class must exist, and the student's grade must match it
+      if (isValid && classes.length > 0) {
+        const schoolClass = findClass(student.class, classes);
+        if (!schoolClass) {
+          errors.push(`Line ${i + 1}: Unknown class "${student.class}". Add it on the Classes page first.`);
+          isValid = false;
+        } else if (schoolClass.gradeLevel !== student.gradeLevel) {
+          errors.push(`Line ${i + 1}: Class ${schoolClass.name} is grade ${schoolClass.gradeLevel}, not ${student.gradeLevel}`);
+          isValid = false;
+        } else {
+          student.class = schoolClass.name;
+        }
+      }
+      
       // Generate an id if valid
       if (isValid) {
         student.id = crypto.randomUUID();
@@ -0,0 +1,83 @@
+import { AcademicTerm, AcademicYear, DailyAttendance, MetricRules, TermAttendance } from "./types";
+
+// The attendance figures shown anywhere in the app, defined once. The dashboard works them
+// out in Postgres (the attendance_metric_rules migration) following the same rules; change
+// them together.
+//
+// - A day is one student on one school day, after session and lesson registers are rolled
+//   up (attendanceRollup.ts). Days that aren't school days and students in the bin never
+//   count.
+// - Each day's status counts as present, absent or neutral through its attendance code.
+// - Attendance rate: days attended over days counted, as a percentage. A half-day absence
+//   attends half a day. Null when no days count.
+// - Absence rate: absence days (a half-day absence is half) over days counted.
+// - The school's rules decide whether late days are attended, and whether neutral days
+//   (excused, by default) are left out or counted as not attended.
+
+export const DEFAULT_METRIC_RULES: MetricRules = {
+  lateCountsAsPresent: true,
+  excludeNeutral: true
+};
+
+type RatedDay = Pick<DailyAttendance, "status" | "category" | "absenceDays">;
+
+const isCountedDay = (day: RatedDay, rules: MetricRules): boolean =>
+  day.category !== "neutral" || !rules.excludeNeutral;
+
+// How much of the day the student attended, from 0 to 1
+const getAttendedDays = (day: RatedDay, rules: MetricRules): number => {
+  if (day.category !== "present") return 0;
+  if (day.status === "late" && !rules.lateCountsAsPresent) return 0;
+  return 1 - day.absenceDays;
+};
+
+// Days a rate is worked out over, from totals that split out the neutral days
+export const getCountedDays = (nonNeutralDays: number, neutralDays: number, rules: MetricRules): number =>
+  nonNeutralDays + (rules.excludeNeutral ? 0 : neutralDays);
+
+export const calculateAttendanceRate = (
+  days: RatedDay[],
+  rules: MetricRules = DEFAULT_METRIC_RULES
+): number | null => {
+  const countedDays = days.filter(day => isCountedDay(day, rules));
+  if (countedDays.length === 0) return null;
+
+  const attendedDays = countedDays.reduce((sum, day) => sum + getAttendedDays(day, rules), 0);
+  return attendedDays / countedDays.length * 100;
+};
+
+export const calculateAbsenceRate = (absenceDays: number, countedDays: number): number | null =>
+  countedDays > 0 ? absenceDays / countedDays * 100 : null;
+
+export const formatRate = (rate: number | null, decimals = 1): string =>
+  rate === null ? "—" : `${rate.toFixed(decimals)}%`;
+
+// One row per term, oldest first. The running rate runs from the start of the academic
+// year the term falls in (or the first term, if no year covers it) to the end of the term.
+export const getTermAttendance = (
+  days: DailyAttendance[],
+  terms: AcademicTerm[],
+  years: AcademicYear[] = [],
+  rules: MetricRules = DEFAULT_METRIC_RULES
+): TermAttendance[] => {
+  const sortedTerms = [...terms].sort((a, b) => a.startDate.localeCompare(b.startDate));
+
+  return sortedTerms.map(term => {
+    const termDays = days.filter(day => day.date >= term.startDate && day.date <= term.endDate);
+    const year = years.find(y => term.startDate >= y.startDate && term.startDate <= y.endDate);
+    const runningDays = days.filter(day =>
+      day.date >= (year?.startDate ?? sortedTerms[0].startDate) && day.date <= term.endDate
+    );
+
+    return {
+      termId: term.id,
+      termName: term.name,
+      startDate: term.startDate,
+      endDate: term.endDate,
+      daysMarked: termDays.length,
+      absenceDays: termDays.reduce((sum, day) => sum + day.absenceDays, 0),
+      attendanceRate: calculateAttendanceRate(termDays, rules),
+      runningRate: calculateAttendanceRate(runningDays, rules)
+    };
+  });
+};
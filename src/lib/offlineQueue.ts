@@ -0,0 +1,253 @@
+import { supabase } from "@/integrations/supabase/client";
+import { getAttendanceForDate, recordAttendanceBatch } from "./supabaseService";
+import { AttendanceRecord, QueuedMark, RegisterSlot } from "./types";
+
+// Attendance marks are written to IndexedDB first and sent to Supabase from there, so a
+// register taken on flaky Wi-Fi survives a dropped connection or a closed tab.
+
+type Mark = QueuedMark['mark'];
+
+export interface SyncResult {
+  synced: number;
+  conflicts: { mark: Mark; date: string; serverStatus: AttendanceRecord['status'] }[];
+  failed: number; // newly refused by the server; kept in the queue with lastError
+  offline: boolean; // stopped early because the server could not be reached
+}
+
+const DB_NAME = "attendance-offline";
+const STORE = "queued-marks";
+
+const openDb = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE, { keyPath: "key" });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T> | void): Promise<T | undefined> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE, mode);
+    const request = run(transaction.objectStore(STORE));
+    transaction.oncomplete = () => {
+      db.close();
+      resolve(request ? request.result : undefined);
+    };
+    transaction.onerror = () => {
+      db.close();
+      reject(transaction.error);
+    };
+  });
+};
+
+const getMarkKey = (studentId: string, date: string, slot: RegisterSlot) =>
+  [studentId, date, slot.periodId || "", slot.periodId ? "" : slot.session || ""].join("|");
+
+const getChangedAt = (record?: AttendanceRecord): string | null =>
+  record ? record.updatedAt || record.createdAt || null : null;
+
+// supabase-js reports an unreachable server as a failed fetch rather than a Postgres error
+export const isNetworkError = (error: unknown): boolean =>
+  !navigator.onLine || /failed to fetch|network|load failed/i.test((error as Error)?.message || "");
+
+export const getQueuedMarks = async (): Promise<QueuedMark[]> =>
+  (await withStore<QueuedMark[]>("readonly", store => store.getAll())) || [];
+
+export const discardQueuedMarks = async (keys: string[]): Promise<void> => {
+  await withStore("readwrite", store => {
+    keys.forEach(key => store.delete(key));
+  });
+};
+
+// Remove marks that have been dealt with, unless a newer mark for the same student and
+// register was queued while they were being sent
+const removeHandledMarks = async (entries: QueuedMark[]): Promise<void> => {
+  await withStore("readwrite", store => {
+    entries.forEach(entry => {
+      const request = store.get(entry.key);
+      request.onsuccess = () => {
+        if (request.result?.queuedAt === entry.queuedAt) store.delete(entry.key);
+      };
+    });
+  });
+};
+
+// Keep refused marks in the queue with the reason, unless a newer mark replaced them meanwhile
+const markFailed = async (entries: QueuedMark[], lastError: string): Promise<void> => {
+  await withStore("readwrite", store => {
+    entries.forEach(entry => {
+      const request = store.get(entry.key);
+      request.onsuccess = () => {
+        if (request.result?.queuedAt === entry.queuedAt) {
+          store.put({ ...entry, lastError });
+        }
+      };
+    });
+  });
+};
+
+// currentRecords are the marks the teacher was looking at, used to spot conflicting changes later
+export const queueMarks = async (
+  date: string,
+  slot: RegisterSlot,
+  marks: Mark[],
+  currentRecords: AttendanceRecord[]
+): Promise<void> => {
+  const queuedAt = new Date().toISOString();
+
+  await withStore("readwrite", store => {
+    marks.forEach(mark => {
+      const entry: QueuedMark = {
+        key: getMarkKey(mark.studentId, date, slot),
+        date,
+        slot: { periodId: slot.periodId || null, session: slot.periodId ? null : slot.session || null },
+        mark,
+        baseChangedAt: getChangedAt(currentRecords.find(r => r.studentId === mark.studentId)),
+        queuedAt
+      };
+      store.put(entry);
+    });
+  });
+};
+
+// Send queued marks one register at a time. If someone else changed a record after the
+// mark was queued, their newer change is kept and the queued mark is reported as a conflict.
+// Marks the server refused before are left for a manual retry (retryFailed), so a mark that
+// can never be saved isn't resent, and reported, on every run.
+const runSync = async (retryFailed: boolean): Promise<SyncResult> => {
+  const result: SyncResult = { synced: 0, conflicts: [], failed: 0, offline: false };
+  const queued = (await getQueuedMarks()).filter(entry => retryFailed || !entry.lastError);
+  if (queued.length === 0) return result;
+
+  const { data: { session } } = await supabase.auth.getSession();
+  const userId = session?.user.id;
+
+  const registers = new Map<string, QueuedMark[]>();
+  queued.forEach(entry => {
+    const registerKey = getMarkKey("", entry.date, entry.slot);
+    if (!registers.has(registerKey)) registers.set(registerKey, []);
+    registers.get(registerKey)!.push(entry);
+  });
+
+  const recordFailure = async (entries: QueuedMark[], error: unknown) => {
+    console.error("Error syncing queued attendance:", error);
+    result.failed += entries.filter(entry => !entry.lastError).length;
+    await markFailed(entries, (error as Error).message);
+  };
+
+  for (const entries of registers.values()) {
+    const { date, slot } = entries[0];
+
+    try {
+      const serverRecords = await getAttendanceForDate(date, slot);
+      const toSend: QueuedMark[] = [];
+      const superseded: QueuedMark[] = [];
+
+      entries.forEach(entry => {
+        const server = serverRecords.find(r => r.studentId === entry.mark.studentId);
+        const serverChangedAt = getChangedAt(server);
+        const changedByOthersSinceQueued = server && serverChangedAt !== entry.baseChangedAt &&
+          Date.parse(serverChangedAt) > Date.parse(entry.queuedAt) &&
+          (server.updatedBy || server.createdBy) !== userId;
+
+        if (changedByOthersSinceQueued) {
+          superseded.push(entry);
+          if (server.status !== entry.mark.status) {
+            result.conflicts.push({ mark: entry.mark, date, serverStatus: server.status });
+          }
+        } else {
+          toSend.push(entry);
+        }
+      });
+
+      await removeHandledMarks(superseded);
+
+      try {
+        await recordAttendanceBatch(date, slot, toSend.map(entry => entry.mark));
+        await removeHandledMarks(toSend);
+        result.synced += toSend.length;
+      } catch (batchError) {
+        if (isNetworkError(batchError)) throw batchError;
+
+        // One refused mark, e.g. for a class whose register was locked while offline, fails
+        // the whole batch; send the marks one at a time so the rest of the register still syncs
+        for (const entry of toSend) {
+          try {
+            await recordAttendanceBatch(date, slot, [entry.mark]);
+            await removeHandledMarks([entry]);
+            result.synced++;
+          } catch (error) {
+            if (isNetworkError(error)) throw error;
+            await recordFailure([entry], error);
+          }
+        }
+      }
+    } catch (error) {
+      if (isNetworkError(error)) {
+        result.offline = true;
+        break;
+      }
+
+      await recordFailure(entries, error);
+    }
+  }
+
+  return result;
+};
+
+let syncInFlight: Promise<SyncResult> | null = null;
+
+const startSync = (retryFailed: boolean): Promise<SyncResult> => {
+  syncInFlight = runSync(retryFailed).finally(() => {
+    syncInFlight = null;
+  });
+  return syncInFlight;
+};
+
+// Overlapping calls (a save while the connection comes back) share one run. A retry of
+// refused marks waits for the current run and then starts its own.
+export const syncQueuedMarks = async ({ retryFailed = false }: { retryFailed?: boolean } = {}): Promise<SyncResult> => {
+  if (!retryFailed) return syncInFlight || startSync(false);
+
+  while (syncInFlight) await syncInFlight.catch(() => undefined);
+  return startSync(true);
+};
+
+// Queue first, then try to send straight away; offline, the marks wait for the next sync
+export const saveMarks = async (
+  date: string,
+  slot: RegisterSlot,
+  marks: Mark[],
+  currentRecords: AttendanceRecord[]
+): Promise<SyncResult> => {
+  await queueMarks(date, slot, marks, currentRecords);
+  // A run already under way may have read the queue before these marks were added
+  if (syncInFlight) await syncInFlight.catch(() => undefined);
+  return syncQueuedMarks();
+};
+
+// Show queued marks in place of the server's until they have been sent
+export const applyQueuedMarks = (
+  records: AttendanceRecord[],
+  queued: QueuedMark[],
+  date: string,
+  slot: RegisterSlot
+): AttendanceRecord[] => {
+  const registerKey = getMarkKey("", date, slot);
+  const forRegister = queued.filter(entry => getMarkKey("", entry.date, entry.slot) === registerKey);
+  if (forRegister.length === 0) return records;
+
+  const merged = records.map(record => {
+    const entry = forRegister.find(e => e.mark.studentId === record.studentId);
+    return entry ? { ...record, ...entry.mark } : record;
+  });
+
+  forRegister
+    .filter(entry => !records.some(r => r.studentId === entry.mark.studentId))
+    .forEach(entry => merged.push({ id: entry.key, date, ...entry.slot, ...entry.mark }));
+
+  return merged;
+};
@@ -0,0 +1,56 @@
+import { AttendanceRecord, RegisterCompletion, RegisterState, RegisterSubmission, SchoolClass, Student } from "./types";
+
+export const REGISTER_STATE_LABELS: Record<RegisterState, string> = {
+  submitted: 'Submitted',
+  complete: 'Marked, not submitted',
+  in_progress: 'In progress',
+  not_started: 'Not started',
+  not_submitted: 'Not submitted',
+  missing: 'Missing'
+};
+
+// A register is overdue on a past day, or today once the register cutoff has passed. The
+// cutoff is the school's register reminder time, so the dashboard flags a register when the
+// teacher is chased for it; with no reminder time, today's registers are never overdue.
+// Times are HH:mm in the school's timezone.
+export const isPastCutoff = (date: string, today: string, now: string, cutoffTime: string | null): boolean =>
+  date < today || (date === today && !!cutoffTime && now >= cutoffTime);
+
+// One row per class for a day, from the students' marks and the register submissions.
+// Students are counted in their current class; a class with no students has nothing to take.
+// An overdue register is missing if no one has been marked, and not submitted if some have.
+export const getRegisterCompletion = (
+  classes: SchoolClass[],
+  students: Student[],
+  records: AttendanceRecord[],
+  submissions: RegisterSubmission[],
+  isOverdue: boolean
+): RegisterCompletion[] => {
+  const markedIds = new Set(records.map(record => record.studentId));
+
+  return classes.map(schoolClass => {
+    const classStudents = students.filter(student => student.class === schoolClass.name && !student.deletedAt);
+    const markedCount = classStudents.filter(student => markedIds.has(student.id)).length;
+    const submission = submissions.find(s => s.className === schoolClass.name);
+
+    let state: RegisterState;
+    if (submission) {
+      state = 'submitted';
+    } else if (isOverdue && classStudents.length > 0) {
+      state = markedCount === 0 ? 'missing' : 'not_submitted';
+    } else if (markedCount === 0) {
+      state = 'not_started';
+    } else {
+      state = markedCount === classStudents.length ? 'complete' : 'in_progress';
+    }
+
+    return {
+      className: schoolClass.name,
+      homeroomTeacher: schoolClass.homeroomTeacher,
+      totalStudents: classStudents.length,
+      markedCount,
+      state,
+      submission
+    };
+  });
+};
@@ -0,0 +1,55 @@
+import { CalendarClosure, ClosureType, SchoolCalendar } from "./types";
+import { addDays } from "./dateUtils";
+
+export const DEFAULT_WEEKEND_DAYS = [0, 6];
+
+export const WEEKDAY_LABELS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export const CLOSURE_TYPE_LABELS: Record<ClosureType, string> = {
+  public_holiday: 'Public holiday',
+  school_holiday: 'School holiday',
+  closure: 'School closure',
+  staff_day: 'Staff day (no pupils)'
+};
+
+// Dates are plain YYYY-MM-DD strings, so work in UTC to stay clear of the browser's timezone
+const toUtcDate = (date: string): Date => new Date(`${date}T00:00:00Z`);
+
+const isWithin = (date: string, range: { startDate: string; endDate: string }): boolean =>
+  date >= range.startDate && date <= range.endDate;
+
+export const getClosure = (date: string, calendar: SchoolCalendar): CalendarClosure | undefined =>
+  calendar.closures.find(closure => isWithin(date, closure));
+
+// Why a date is not a school day, or null if it is one
+export const getNonInstructionalReason = (date: string, calendar: SchoolCalendar): string | null => {
+  if (calendar.weekendDays.includes(toUtcDate(date).getUTCDay())) {
+    return 'Weekend';
+  }
+
+  const closure = getClosure(date, calendar);
+  if (closure) {
+    return `${CLOSURE_TYPE_LABELS[closure.closureType]}: ${closure.name}`;
+  }
+
+  // Until terms are set up, every weekday outside a closure counts
+  if (calendar.terms.length > 0 && !calendar.terms.some(term => isWithin(date, term))) {
+    return 'Between terms';
+  }
+
+  return null;
+};
+
+export const isInstructionalDay = (date: string, calendar: SchoolCalendar): boolean =>
+  getNonInstructionalReason(date, calendar) === null;
+
+// Every instructional day from fromDate to toDate inclusive, oldest first
+export const getInstructionalDays = (fromDate: string, toDate: string, calendar: SchoolCalendar): string[] => {
+  const days: string[] = [];
+  for (let date = fromDate; date <= toDate; date = addDays(date, 1)) {
+    if (isInstructionalDay(date, calendar)) {
+      days.push(date);
+    }
+  }
+  return days;
+};
@@ -0,0 +1,53 @@
+import { SchoolClass, Student } from './types';
+
+export type StudentFormErrors = Partial<Record<keyof Student, string>>;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+// Digits with optional +, spaces, dashes, dots and brackets, e.g. "+230 5123 4567"
+const PHONE_PATTERN = /^\+?[\d\s().-]{7,20}$/;
+
+// Check a student from the add/edit form. Pass the other students to catch duplicate IDs
+// before the database does. Returns one message per invalid field; empty when valid.
+export const validateStudent = (
+  student: Student,
+  classes: SchoolClass[],
+  otherStudents: Student[] = []
+): StudentFormErrors => {
+  const errors: StudentFormErrors = {};
+
+  if (!student.firstName.trim()) {
+    errors.firstName = 'First name is required';
+  }
+  if (!student.lastName.trim()) {
+    errors.lastName = 'Last name is required';
+  }
+
+  if (!student.studentId.trim()) {
+    errors.studentId = 'Student ID is required';
+  } else if (otherStudents.some(s => s.id !== student.id && s.studentId === student.studentId.trim())) {
+    errors.studentId = 'Another student already has this ID';
+  }
+
+  const schoolClass = classes.find(c => c.name === student.class);
+  if (!schoolClass) {
+    errors.class = 'Choose a class';
+  } else if (schoolClass.gradeLevel !== student.gradeLevel) {
+    errors.gradeLevel = `Class ${schoolClass.name} is grade ${schoolClass.gradeLevel}`;
+  }
+
+  if (student.email && !EMAIL_PATTERN.test(student.email)) {
+    errors.email = 'Enter a valid email address';
+  }
+  if (student.contactPhone && !PHONE_PATTERN.test(student.contactPhone)) {
+    errors.contactPhone = 'Enter a valid phone number';
+  }
+
+  // The preferred channel needs somewhere to send to
+  if (student.notificationPreference === 'email' && !student.email) {
+    errors.notificationPreference = 'Add an email address to notify by email';
+  } else if (student.notificationPreference && student.notificationPreference !== 'email' && !student.contactPhone) {
+    errors.notificationPreference = 'Add a phone number to notify by SMS or WhatsApp';
+  }
+
+  return errors;
+};
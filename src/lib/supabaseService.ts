@@ -1,17 +1,39 @@
 import { supabase } from "@/integrations/supabase/client";
-import { Student, AttendanceRecord, AttendanceSummary, ClassSummary, ImportResult } from "./types";
+import { Tables, TablesInsert } from "@/integrations/supabase/types";
+import { Student, AbsenceReason, AcademicTerm, AcademicYear, AppRole, AttendanceCategory, AttendanceChange, AttendanceCode, AttendanceCorrection, AttendanceRecord, AttendanceSession, AttendanceSummary, CalendarClosure, ClassEnrollment, ClassSummary, ClosureType, CorrectionStatus, DateRange, ImportResult, Period, RegisterSlot, RegisterSubmission, RolloverPlan, RolloverResult, SchoolCalendar, SchoolClass, SchoolSettings, SentNotification, StudentNote, UserNotification } from "./types";
+import { rollUpDailyAttendance } from "./attendanceRollup";
+import { classifyArrival, toTimeOfDay } from "./arrivalTimes";
+import { getStatusCategory } from "./attendanceCodes";
+import { DEFAULT_WEEKEND_DAYS } from "./schoolCalendar";
+import { getToday } from "./dateUtils";
+import { DEFAULT_METRIC_RULES } from "./metrics";
 
 // Student management
+const toStudent = (student: Tables<"students">): Student => ({
+  id: student.id,
+  firstName: student.first_name,
+  lastName: student.last_name,
+  class: student.class,
+  gradeLevel: student.grade_level,
+  studentId: student.student_id,
+  email: student.email,
+  contactPhone: student.contact_phone,
+  notificationPreference: student.notification_preference as Student['notificationPreference'],
+  deletedAt: student.deleted_at,
+  graduatedAt: student.graduated_at
+});
+
 export const getStudents = async (includeDeleted = false): Promise<Student[]> => {
   let query = supabase
     .from("students")
     .select("*")
     .order("last_name");
   
-  // Only include non-deleted students by default
+  // Only include non-deleted students by default; graduates have left the school
   if (!includeDeleted) {
     query = query.is("deleted_at", null);
   }
+  query = query.is("graduated_at", null);
     
   const { data, error } = await query;
     
@@ -20,17 +42,7 @@ export const getStudents = async (includeDeleted = false): Promise<Student[]> =>
     throw error;
   }
   
-  return data.map(student => ({
-    id: student.id,
-    firstName: student.first_name,
-    lastName: student.last_name,
-    class: student.class,
-    gradeLevel: student.grade_level,
-    studentId: student.student_id,
-    email: student.email,
-    contactPhone: student.contact_phone,
-    deletedAt: student.deleted_at
-  }));
+  return data.map(toStudent);
 };
 
 export const getDeletedStudents = async (): Promise<Student[]> => {
@@ -45,17 +57,25 @@ export const getDeletedStudents = async (): Promise<Student[]> => {
     throw error;
   }
   
-  return data.map(student => ({
-    id: student.id,
-    firstName: student.first_name,
-    lastName: student.last_name,
-    class: student.class,
-    gradeLevel: student.grade_level,
-    studentId: student.student_id,
-    email: student.email,
-    contactPhone: student.contact_phone,
-    deletedAt: student.deleted_at
-  }));
+  return data.map(toStudent);
+};
+
+// One student, including deleted and graduated students, for their profile
+export const getStudent = async (studentId: string): Promise<Student | null> => {
+  const { data: student, error } = await supabase
+    .from("students")
+    .select("*")
+    .eq("id", studentId)
+    .maybeSingle();
+    
+  if (error) {
+    console.error("Error fetching student:", error);
+    throw error;
+  }
+  
+  if (!student) return null;
+  
+  return toStudent(student);
 };
 
 export const addStudents = async (students: Student[]): Promise<void> => {
@@ -67,7 +87,8 @@ export const addStudents = async (students: Student[]): Promise<void> => {
     class: student.class,
     grade_level: student.gradeLevel,
     email: student.email,
-    contact_phone: student.contactPhone
+    contact_phone: student.contactPhone,
+    notification_preference: student.notificationPreference || null
   }));
   
   const { error } = await supabase
@@ -76,29 +97,45 @@ export const addStudents = async (students: Student[]): Promise<void> => {
     
   if (error) {
     console.error("Error adding students:", error);
-    throw error;
+    throw new Error(error.code === "23505"
+      ? "A student with this student ID already exists."
+      : error.message);
   }
 };
 
-export const clearStudents = async (): Promise<void> => {
-  const { error: attendanceError } = await supabase
-    .from("attendance_records")
-    .delete()
-    .neq("id", "00000000-0000-0000-0000-000000000000");
+export const updateStudent = async (student: Student): Promise<void> => {
+  const { error } = await supabase
+    .from("students")
+    .update({
+      student_id: student.studentId,
+      first_name: student.firstName,
+      last_name: student.lastName,
+      class: student.class,
+      grade_level: student.gradeLevel,
+      email: student.email || null,
+      contact_phone: student.contactPhone || null,
+      notification_preference: student.notificationPreference || null
+    })
+    .eq("id", student.id);
     
-  if (attendanceError) {
-    console.error("Error clearing attendance records:", attendanceError);
-    throw attendanceError;
+  if (error) {
+    console.error("Error updating student:", error);
+    // Duplicate student IDs and unknown classes are rejected by the database
+    throw new Error(error.code === "23505"
+      ? `Another student already has the student ID ${student.studentId}.`
+      : error.code === "23503"
+        ? `There is no class called "${student.class}".`
+        : error.message);
   }
-  
-  const { error: studentsError } = await supabase
-    .from("students")
-    .delete()
-    .neq("id", "00000000-0000-0000-0000-000000000000");
+};
+
+export const clearStudents = async (): Promise<void> => {
+  // Students and their attendance go together, even on submitted registers
+  const { error } = await supabase.rpc("delete_students", {});
     
-  if (studentsError) {
-    console.error("Error clearing students:", studentsError);
-    throw studentsError;
+  if (error) {
+    console.error("Error clearing students:", error);
+    throw error;
   }
 };
 
@@ -150,28 +187,13 @@ export const deleteStudent = async (studentId: string): Promise<void> => {
   console.log("Permanently deleting student with ID:", studentId);
   
   try {
-    // First delete the attendance records
-    console.log("Deleting attendance records for student:", studentId);
-    const { error: attendanceError } = await supabase
-      .from("attendance_records")
-      .delete()
-      .eq("student_id", studentId);
-      
-    if (attendanceError) {
-      console.error("Error deleting attendance records:", attendanceError);
-      throw new Error(`Failed to delete attendance records: ${attendanceError.message}`);
-    }
-    
-    // Then delete the student
-    console.log("Deleting student record with ID:", studentId);
-    const { error: studentError } = await supabase
-      .from("students")
-      .delete()
-      .eq("id", studentId);
+    // The student and their attendance records are deleted together, so submitted
+    // registers don't block it
+    const { error } = await supabase.rpc("delete_students", { p_student_ids: [studentId] });
       
-    if (studentError) {
-      console.error("Error deleting student:", studentError);
-      throw new Error(`Failed to delete student: ${studentError.message}`);
+    if (error) {
+      console.error("Error deleting student:", error);
+      throw new Error(`Failed to delete student: ${error.message}`);
     }
     
     console.log("Student and attendance records deleted successfully");
@@ -218,8 +240,837 @@ export const cleanupDeletedStudents = async (daysOld = 30): Promise<void> => {
   }
 };
 
+// Student notes and notification history
+export const getStudentNotes = async (studentId: string): Promise<StudentNote[]> => {
+  const { data, error } = await supabase
+    .from("student_notes")
+    .select("*")
+    .eq("student_id", studentId)
+    .order("created_at", { ascending: false });
+    
+  if (error) {
+    console.error("Error fetching student notes:", error);
+    throw error;
+  }
+  
+  return data.map(note => ({
+    id: note.id,
+    studentId: note.student_id,
+    note: note.note,
+    createdAt: note.created_at,
+    createdBy: note.created_by
+  }));
+};
+
+export const addStudentNote = async (studentId: string, note: string): Promise<void> => {
+  const { error } = await supabase
+    .from("student_notes")
+    .insert({ student_id: studentId, note });
+    
+  if (error) {
+    console.error("Error adding student note:", error);
+    throw error;
+  }
+};
+
+export const deleteStudentNote = async (noteId: string): Promise<void> => {
+  const { error } = await supabase
+    .from("student_notes")
+    .delete()
+    .eq("id", noteId);
+    
+  if (error) {
+    console.error("Error deleting student note:", error);
+    throw error;
+  }
+};
+
+export const getStudentNotifications = async (studentId: string): Promise<SentNotification[]> => {
+  const { data, error } = await supabase
+    .from("attendance_notifications")
+    .select("*")
+    .eq("student_id", studentId)
+    .order("notification_date", { ascending: false });
+    
+  if (error) {
+    console.error("Error fetching student notifications:", error);
+    throw error;
+  }
+  
+  return data.map(notification => ({
+    id: notification.id,
+    studentId: notification.student_id,
+    channel: notification.notification_type,
+    sentAt: notification.notification_date,
+    message: notification.message,
+    success: notification.success
+  }));
+};
+
+// Classes
+export const getClasses = async (): Promise<SchoolClass[]> => {
+  const { data, error } = await supabase
+    .from("classes")
+    .select("*")
+    .order("grade_level")
+    .order("name");
+    
+  if (error) {
+    console.error("Error fetching classes:", error);
+    throw error;
+  }
+  
+  return data.map(schoolClass => ({
+    id: schoolClass.id,
+    name: schoolClass.name,
+    gradeLevel: schoolClass.grade_level,
+    homeroomTeacher: schoolClass.homeroom_teacher,
+    homeroomTeacherEmail: schoolClass.homeroom_teacher_email,
+    room: schoolClass.room,
+    capacity: schoolClass.capacity
+  }));
+};
+
+export const saveClass = async (schoolClass: Omit<SchoolClass, "id"> & { id?: string }): Promise<void> => {
+  const dbClass = {
+    name: schoolClass.name,
+    grade_level: schoolClass.gradeLevel,
+    homeroom_teacher: schoolClass.homeroomTeacher || null,
+    homeroom_teacher_email: schoolClass.homeroomTeacherEmail || null,
+    room: schoolClass.room || null,
+    capacity: schoolClass.capacity || null
+  };
+  
+  const { error } = schoolClass.id
+    ? await supabase.from("classes").update(dbClass).eq("id", schoolClass.id)
+    : await supabase.from("classes").insert(dbClass);
+    
+  if (error) {
+    console.error("Error saving class:", error);
+    throw new Error(error.code === "23505"
+      ? `There is already a class called "${schoolClass.name}".`
+      : error.message);
+  }
+};
+
+export const deleteClass = async (classId: string): Promise<void> => {
+  const { error } = await supabase
+    .from("classes")
+    .delete()
+    .eq("id", classId);
+    
+  if (error) {
+    console.error("Error deleting class:", error);
+    // Students still in the class are protected by a foreign key
+    throw new Error(error.code === "23503"
+      ? "This class has students, now or in the past, so it can't be deleted."
+      : error.message);
+  }
+};
+
+// Class enrollments
+const toClassEnrollment = (enrollment: Tables<"class_enrollments">): ClassEnrollment => ({
+  id: enrollment.id,
+  studentId: enrollment.student_id,
+  className: enrollment.class,
+  startDate: enrollment.start_date,
+  endDate: enrollment.end_date
+});
+
+// Enrollments for the given students, or for everyone if no students are given
+export const getClassEnrollments = async (studentIds?: string[]): Promise<ClassEnrollment[]> => {
+  let query = supabase
+    .from("class_enrollments")
+    .select("*")
+    .order("start_date");
+    
+  if (studentIds) {
+    query = query.in("student_id", studentIds);
+  }
+  
+  const { data, error } = await query;
+    
+  if (error) {
+    console.error("Error fetching class enrollments:", error);
+    throw error;
+  }
+  
+  return data.map(toClassEnrollment);
+};
+
+export const transferStudent = async (studentId: string, className: string, effectiveDate: string): Promise<void> => {
+  const { error } = await supabase.rpc("transfer_student", {
+    p_student_id: studentId,
+    p_class: className,
+    p_effective_date: effectiveDate
+  });
+    
+  if (error) {
+    console.error("Error transferring student:", error);
+    throw error;
+  }
+};
+
+// Register submissions
+const toRegisterSubmission = (submission: Tables<"register_submissions">): RegisterSubmission => ({
+  id: submission.id,
+  className: submission.class,
+  date: submission.date,
+  submittedBy: submission.submitted_by,
+  submittedByName: submission.submitted_by_name,
+  submittedAt: submission.submitted_at
+});
+
+export const getRegisterSubmissions = async (date: string): Promise<RegisterSubmission[]> => {
+  const { data, error } = await supabase
+    .from("register_submissions")
+    .select("*")
+    .eq("date", date)
+    .order("class");
+    
+  if (error) {
+    console.error("Error fetching register submissions:", error);
+    throw error;
+  }
+  
+  return data.map(toRegisterSubmission);
+};
+
+// Submitting locks the class's attendance for the day; who submitted it is set by the database
+export const submitRegister = async (className: string, date: string): Promise<void> => {
+  const { error } = await supabase
+    .from("register_submissions")
+    .insert({ class: className, date });
+    
+  if (error) {
+    console.error("Error submitting register:", error);
+    throw new Error(error.code === "23505"
+      ? `The ${className} register for ${date} has already been submitted.`
+      : error.message);
+  }
+};
+
+export const unlockRegister = async (submissionId: string): Promise<void> => {
+  // Row level security only lets admins delete; for anyone else nothing is deleted
+  const { data, error } = await supabase
+    .from("register_submissions")
+    .delete()
+    .eq("id", submissionId)
+    .select("id");
+    
+  if (error) {
+    console.error("Error unlocking register:", error);
+    throw error;
+  }
+  
+  if (data.length === 0) {
+    throw new Error("Only an admin can unlock a submitted register.");
+  }
+};
+
+// Attendance corrections
+const toAttendanceCorrection = (
+  correction: Tables<"attendance_corrections"> & { students?: Pick<Tables<"students">, "first_name" | "last_name" | "class"> | null }
+): AttendanceCorrection => ({
+  id: correction.id,
+  studentId: correction.student_id,
+  studentName: correction.students ? `${correction.students.first_name} ${correction.students.last_name}` : undefined,
+  className: correction.students?.class,
+  date: correction.date,
+  periodId: correction.period_id,
+  session: correction.session as AttendanceSession | null,
+  currentStatus: correction.current_status,
+  requestedStatus: correction.requested_status,
+  requestedReasonId: correction.requested_reason_id,
+  requestedNotes: correction.requested_notes,
+  reason: correction.reason,
+  status: correction.status as CorrectionStatus,
+  requestedBy: correction.requested_by,
+  requestedByName: correction.requested_by_name,
+  requestedAt: correction.requested_at,
+  reviewedByName: correction.reviewed_by_name,
+  reviewedAt: correction.reviewed_at,
+  reviewNote: correction.review_note
+});
+
+// Pending requests oldest first, so the queue is worked in order; decided ones newest first
+export const getAttendanceCorrections = async (status: CorrectionStatus | "decided"): Promise<AttendanceCorrection[]> => {
+  let query = supabase
+    .from("attendance_corrections")
+    .select("*, students(first_name, last_name, class)");
+    
+  query = status === "decided"
+    ? query.neq("status", "pending").order("reviewed_at", { ascending: false }).limit(100)
+    : query.eq("status", status).order("requested_at");
+    
+  const { data, error } = await query;
+    
+  if (error) {
+    console.error("Error fetching correction requests:", error);
+    throw error;
+  }
+  
+  return data.map(toAttendanceCorrection);
+};
+
+export const requestCorrection = async (
+  correction: Pick<AttendanceCorrection, "studentId" | "date" | "periodId" | "session" | "currentStatus" | "requestedStatus" | "requestedReasonId" | "requestedNotes" | "reason">,
+  userId: string
+): Promise<void> => {
+  const { error } = await supabase
+    .from("attendance_corrections")
+    .insert({
+      student_id: correction.studentId,
+      date: correction.date,
+      period_id: correction.periodId || null,
+      session: correction.periodId ? null : correction.session || null,
+      current_status: correction.currentStatus,
+      requested_status: correction.requestedStatus,
+      requested_reason_id: correction.requestedStatus === "present" ? null : correction.requestedReasonId || null,
+      requested_notes: correction.requestedNotes || null,
+      reason: correction.reason,
+      requested_by: userId
+    });
+    
+  if (error) {
+    console.error("Error requesting correction:", error);
+    throw error;
+  }
+};
+
+// Approving applies the change to the register, even though it is locked
+export const reviewCorrection = async (correctionId: string, approve: boolean, reviewNote?: string): Promise<void> => {
+  const { error } = await supabase.rpc("review_attendance_correction", {
+    p_correction_id: correctionId,
+    p_approve: approve,
+    p_review_note: reviewNote || null
+  });
+    
+  if (error) {
+    console.error("Error reviewing correction:", error);
+    throw error;
+  }
+};
+
+// Notifications for the signed-in user
+export const getUserNotifications = async (): Promise<UserNotification[]> => {
+  const { data, error } = await supabase
+    .from("user_notifications")
+    .select("*")
+    .order("created_at", { ascending: false })
+    .limit(20);
+    
+  if (error) {
+    console.error("Error fetching notifications:", error);
+    throw error;
+  }
+  
+  return data.map(notification => ({
+    id: notification.id,
+    title: notification.title,
+    body: notification.body,
+    link: notification.link,
+    readAt: notification.read_at,
+    createdAt: notification.created_at
+  }));
+};
+
+export const markNotificationsRead = async (notificationIds: string[]): Promise<void> => {
+  const { error } = await supabase
+    .from("user_notifications")
+    .update({ read_at: new Date().toISOString() })
+    .in("id", notificationIds);
+    
+  if (error) {
+    console.error("Error marking notifications read:", error);
+    throw error;
+  }
+};
+
+// Roles
+export const getUserRoles = async (userId: string): Promise<AppRole[]> => {
+  const { data, error } = await supabase
+    .from("user_roles")
+    .select("role")
+    .eq("user_id", userId);
+    
+  if (error) {
+    console.error("Error fetching user roles:", error);
+    throw error;
+  }
+  
+  return data.map(row => row.role);
+};
+
+// School settings
+export const getSchoolSettings = async (): Promise<SchoolSettings> => {
+  const { data, error } = await supabase
+    .from("school_settings")
+    .select("*")
+    .maybeSingle();
+    
+  if (error) {
+    console.error("Error fetching school settings:", error);
+    throw error;
+  }
+  
+  return {
+    lateCutoffTime: toTimeOfDay(data?.late_cutoff_time) || "08:00",
+    weekendDays: data?.weekend_days || DEFAULT_WEEKEND_DAYS,
+    timezone: data?.timezone || "UTC",
+    metricRules: {
+      lateCountsAsPresent: data?.late_counts_as_present ?? DEFAULT_METRIC_RULES.lateCountsAsPresent,
+      excludeNeutral: data?.exclude_neutral_from_rates ?? DEFAULT_METRIC_RULES.excludeNeutral
+    },
+    registerReminderTime: toTimeOfDay(data?.register_reminder_time),
+    registerEscalationTime: toTimeOfDay(data?.register_escalation_time),
+    officeEmail: data?.office_email || null
+  };
+};
+
+// Only the settings passed in are changed
+export const updateSchoolSettings = async (settings: Partial<SchoolSettings>): Promise<void> => {
+  const { error } = await supabase
+    .from("school_settings")
+    .update({
+      late_cutoff_time: settings.lateCutoffTime,
+      weekend_days: settings.weekendDays,
+      timezone: settings.timezone,
+      late_counts_as_present: settings.metricRules?.lateCountsAsPresent,
+      exclude_neutral_from_rates: settings.metricRules?.excludeNeutral,
+      register_reminder_time: settings.registerReminderTime,
+      register_escalation_time: settings.registerEscalationTime,
+      office_email: settings.officeEmail,
+      updated_at: new Date().toISOString()
+    })
+    .eq("id", true);
+    
+  if (error) {
+    console.error("Error saving school settings:", error);
+    throw error;
+  }
+};
+
+// Academic years
+export const getAcademicYears = async (): Promise<AcademicYear[]> => {
+  const { data, error } = await supabase
+    .from("academic_years")
+    .select("*")
+    .order("start_date", { ascending: false });
+    
+  if (error) {
+    console.error("Error fetching academic years:", error);
+    throw error;
+  }
+  
+  return data.map(year => ({
+    id: year.id,
+    name: year.name,
+    startDate: year.start_date,
+    endDate: year.end_date,
+    isCurrent: year.is_current,
+    status: year.status as AcademicYear["status"]
+  }));
+};
+
+export const saveAcademicYear = async (year: Pick<AcademicYear, "name" | "startDate" | "endDate"> & { id?: string }): Promise<void> => {
+  const dbYear = {
+    name: year.name,
+    start_date: year.startDate,
+    end_date: year.endDate
+  };
+  
+  const { error } = year.id
+    ? await supabase.from("academic_years").update(dbYear).eq("id", year.id)
+    : await supabase.from("academic_years").insert(dbYear);
+    
+  if (error) {
+    console.error("Error saving academic year:", error);
+    throw error;
+  }
+};
+
+// Students as they were in an archived year, with that year's class and grade
+export const getStudentsForYear = async (yearId: string): Promise<Student[]> => {
+  const { data, error } = await supabase
+    .from("student_year_records")
+    .select("class, grade_level, students!inner(*)")
+    .eq("academic_year_id", yearId);
+    
+  if (error) {
+    console.error("Error fetching students for academic year:", error);
+    throw error;
+  }
+  
+  // Class and grade as they were that year
+  return data.map(record => ({
+    ...toStudent(record.students),
+    class: record.class,
+    gradeLevel: record.grade_level
+  }));
+};
+
+export const rolloverAcademicYear = async (plan: RolloverPlan): Promise<RolloverResult> => {
+  const { data, error } = await supabase.rpc("rollover_academic_year", {
+    p_year_id: plan.yearId,
+    p_next_name: plan.nextYear.name,
+    p_next_start: plan.nextYear.startDate,
+    p_next_end: plan.nextYear.endDate,
+    p_final_grade: plan.finalGrade,
+    p_class_map: plan.classMap
+  });
+    
+  if (error) {
+    console.error("Error rolling over academic year:", error);
+    throw error;
+  }
+  
+  const result = data as { archived_records: number; graduated: number; promoted: number };
+  
+  return {
+    archivedRecords: result.archived_records,
+    graduated: result.graduated,
+    promoted: result.promoted
+  };
+};
+
+// Recompute the stored attendance summary for a date range, or all time. Admins only; the
+// summary keeps itself current, so this is for after bulk imports or restoring a backup.
+export const rebuildAttendanceSummary = async (range?: DateRange): Promise<void> => {
+  const { error } = await supabase.rpc("rebuild_attendance_summary", {
+    p_from: range?.from,
+    p_to: range?.to
+  });
+  
+  if (error) {
+    console.error("Error rebuilding attendance summary:", error);
+    throw error;
+  }
+};
+
+// School calendar
+export const getSchoolCalendar = async (): Promise<SchoolCalendar> => {
+  const [termsResult, closuresResult, settings] = await Promise.all([
+    supabase.from("academic_terms").select("*").order("start_date"),
+    supabase.from("calendar_closures").select("*").order("start_date"),
+    getSchoolSettings()
+  ]);
+  
+  if (termsResult.error) {
+    console.error("Error fetching academic terms:", termsResult.error);
+    throw termsResult.error;
+  }
+  
+  if (closuresResult.error) {
+    console.error("Error fetching calendar closures:", closuresResult.error);
+    throw closuresResult.error;
+  }
+  
+  return {
+    terms: termsResult.data.map(term => ({
+      id: term.id,
+      name: term.name,
+      startDate: term.start_date,
+      endDate: term.end_date
+    })),
+    closures: closuresResult.data.map(closure => ({
+      id: closure.id,
+      name: closure.name,
+      startDate: closure.start_date,
+      endDate: closure.end_date,
+      closureType: closure.closure_type as ClosureType
+    })),
+    weekendDays: settings.weekendDays
+  };
+};
+
+export const saveAcademicTerm = async (term: Omit<AcademicTerm, "id"> & { id?: string }): Promise<void> => {
+  const dbTerm = {
+    name: term.name,
+    start_date: term.startDate,
+    end_date: term.endDate
+  };
+  
+  const { error } = term.id
+    ? await supabase.from("academic_terms").update(dbTerm).eq("id", term.id)
+    : await supabase.from("academic_terms").insert(dbTerm);
+    
+  if (error) {
+    console.error("Error saving academic term:", error);
+    throw error;
+  }
+};
+
+export const deleteAcademicTerm = async (termId: string): Promise<void> => {
+  const { error } = await supabase
+    .from("academic_terms")
+    .delete()
+    .eq("id", termId);
+    
+  if (error) {
+    console.error("Error deleting academic term:", error);
+    throw error;
+  }
+};
+
+export const saveCalendarClosure = async (closure: Omit<CalendarClosure, "id"> & { id?: string }): Promise<void> => {
+  const dbClosure = {
+    name: closure.name,
+    start_date: closure.startDate,
+    end_date: closure.endDate,
+    closure_type: closure.closureType
+  };
+  
+  const { error } = closure.id
+    ? await supabase.from("calendar_closures").update(dbClosure).eq("id", closure.id)
+    : await supabase.from("calendar_closures").insert(dbClosure);
+    
+  if (error) {
+    console.error("Error saving calendar closure:", error);
+    throw error;
+  }
+};
+
+export const deleteCalendarClosure = async (closureId: string): Promise<void> => {
+  const { error } = await supabase
+    .from("calendar_closures")
+    .delete()
+    .eq("id", closureId);
+    
+  if (error) {
+    console.error("Error deleting calendar closure:", error);
+    throw error;
+  }
+};
+
+// Attendance status codes
+export const getAttendanceCodes = async (): Promise<AttendanceCode[]> => {
+  const { data, error } = await supabase
+    .from("attendance_codes")
+    .select("*")
+    .order("sort_order")
+    .order("label");
+    
+  if (error) {
+    console.error("Error fetching attendance codes:", error);
+    throw error;
+  }
+  
+  return data.map(code => ({
+    code: code.code,
+    label: code.label,
+    color: code.color,
+    icon: code.icon,
+    countsAs: code.counts_as as AttendanceCategory,
+    isSystem: code.is_system,
+    sortOrder: code.sort_order
+  }));
+};
+
+export const saveAttendanceCode = async (code: Omit<AttendanceCode, "isSystem">): Promise<void> => {
+  const { error } = await supabase
+    .from("attendance_codes")
+    .upsert({
+      code: code.code,
+      label: code.label,
+      color: code.color,
+      icon: code.icon,
+      counts_as: code.countsAs,
+      sort_order: code.sortOrder
+    });
+    
+  if (error) {
+    console.error("Error saving attendance code:", error);
+    throw error;
+  }
+};
+
+export const deleteAttendanceCode = async (code: string): Promise<void> => {
+  const { error } = await supabase
+    .from("attendance_codes")
+    .delete()
+    .eq("code", code);
+    
+  if (error) {
+    console.error("Error deleting attendance code:", error);
+    // Codes already used on attendance records are protected by a foreign key
+    throw new Error(error.code === "23503"
+      ? "This code is used by existing attendance records and cannot be deleted."
+      : error.message);
+  }
+};
+
+// Absence reasons
+export const getAbsenceReasons = async (includeInactive = false): Promise<AbsenceReason[]> => {
+  let query = supabase
+    .from("absence_reasons")
+    .select("*")
+    .order("sort_order")
+    .order("name");
+    
+  if (!includeInactive) {
+    query = query.eq("is_active", true);
+  }
+  
+  const { data, error } = await query;
+    
+  if (error) {
+    console.error("Error fetching absence reasons:", error);
+    throw error;
+  }
+  
+  return data.map(reason => ({
+    id: reason.id,
+    name: reason.name,
+    isActive: reason.is_active,
+    sortOrder: reason.sort_order
+  }));
+};
+
+export const saveAbsenceReason = async (reason: Omit<AbsenceReason, "id"> & { id?: string }): Promise<void> => {
+  const dbReason = {
+    name: reason.name,
+    is_active: reason.isActive,
+    sort_order: reason.sortOrder
+  };
+  
+  const { error } = reason.id
+    ? await supabase.from("absence_reasons").update(dbReason).eq("id", reason.id)
+    : await supabase.from("absence_reasons").insert(dbReason);
+    
+  if (error) {
+    console.error("Error saving absence reason:", error);
+    throw error;
+  }
+};
+
+// Bell schedule
+export const getPeriods = async (): Promise<Period[]> => {
+  const { data, error } = await supabase
+    .from("periods")
+    .select("*")
+    .order("sort_order")
+    .order("start_time");
+    
+  if (error) {
+    console.error("Error fetching periods:", error);
+    throw error;
+  }
+  
+  return data.map(period => ({
+    id: period.id,
+    name: period.name,
+    startTime: period.start_time.slice(0, 5),
+    endTime: period.end_time.slice(0, 5),
+    session: period.session as AttendanceSession,
+    sortOrder: period.sort_order
+  }));
+};
+
+export const savePeriod = async (period: Omit<Period, "id"> & { id?: string }): Promise<void> => {
+  const dbPeriod = {
+    name: period.name,
+    start_time: period.startTime,
+    end_time: period.endTime,
+    session: period.session,
+    sort_order: period.sortOrder
+  };
+  
+  const { error } = period.id
+    ? await supabase.from("periods").update(dbPeriod).eq("id", period.id)
+    : await supabase.from("periods").insert(dbPeriod);
+    
+  if (error) {
+    console.error("Error saving period:", error);
+    throw error;
+  }
+};
+
+export const deletePeriod = async (periodId: string): Promise<void> => {
+  const { error } = await supabase
+    .from("periods")
+    .delete()
+    .eq("id", periodId);
+    
+  if (error) {
+    console.error("Error deleting period:", error);
+    // Periods with registers taken are protected by a foreign key
+    throw new Error(error.code === "23503"
+      ? "Registers have been taken for this period, so it can't be deleted."
+      : error.message);
+  }
+};
+
 // Attendance management
-export const recordAttendance = async (record: Omit<AttendanceRecord, "id">): Promise<AttendanceRecord> => {
+export const toAttendanceRecord = (record: Tables<"attendance_records">): AttendanceRecord => ({
+  id: record.id,
+  studentId: record.student_id,
+  date: record.date,
+  periodId: record.period_id,
+  session: record.session as AttendanceSession | null,
+  status: record.status as AttendanceRecord["status"],
+  reasonId: record.reason_id,
+  notes: record.notes,
+  arrivalTime: toTimeOfDay(record.arrival_time),
+  departureTime: toTimeOfDay(record.departure_time),
+  minutesLate: record.minutes_late,
+  createdBy: record.created_by,
+  updatedBy: record.updated_by,
+  createdAt: record.created_at,
+  updatedAt: record.updated_at
+});
+
+// The late cutoff for a register: a lesson starts at its bell time, the afternoon
+// session at its first lesson, and anything else at the school's cutoff
+const getLateCutoff = async (slot: RegisterSlot): Promise<string> => {
+  if (slot.periodId || slot.session === "pm") {
+    const periods = await getPeriods();
+    const period = slot.periodId
+      ? periods.find(p => p.id === slot.periodId)
+      : periods.find(p => p.session === "pm");
+      
+    if (period) return period.startTime;
+  }
+  
+  const settings = await getSchoolSettings();
+  return settings.lateCutoffTime;
+};
+
+// Save many marks on one register in a single round trip. Each mark is stored as given,
+// reason and note included; arrival and departure times already recorded are kept.
+export const recordAttendanceBatch = async (
+  date: string,
+  slot: RegisterSlot,
+  marks: Pick<AttendanceRecord, "studentId" | "status" | "notes" | "reasonId">[]
+): Promise<AttendanceRecord[]> => {
+  if (marks.length === 0) return [];
+  
+  const { data, error } = await supabase.rpc("record_attendance_batch", {
+    p_date: date,
+    p_period_id: slot.periodId || null,
+    p_session: slot.periodId ? null : slot.session || null,
+    p_records: marks.map(mark => ({
+      student_id: mark.studentId,
+      status: mark.status,
+      notes: mark.notes || "",
+      reason_id: mark.reasonId || null
+    }))
+  });
+    
+  if (error) {
+    console.error("Error saving attendance batch:", error);
+    throw error;
+  }
+  
+  return data.map(toAttendanceRecord);
+};
+
+// Present and late are worked out from the arrival time when one is given.
+// Other codes keep the status they were given; only those that count as present keep
+// their minutes late.
+// A present mark never carries an absence reason.
+// Pass the signed-in user's id to record who took or changed the register
+export const recordAttendance = async (record: Omit<AttendanceRecord, "id">, userId?: string): Promise<AttendanceRecord> => {
   const { data: studentData, error: studentError } = await supabase
     .from("students")
     .select("id")
@@ -231,19 +1082,54 @@ export const recordAttendance = async (record: Omit<AttendanceRecord, "id">): Pr
     throw studentError;
   }
   
-  const dbRecord = {
+  const dbRecord: TablesInsert<"attendance_records"> = {
     student_id: studentData.id,
     date: record.date,
+    period_id: record.periodId || null,
+    session: record.periodId ? null : record.session || null,
     status: record.status,
     notes: record.notes || ""
   };
   
-  const { data: existingData, error: existingError } = await supabase
+  if (record.arrivalTime !== undefined) {
+    dbRecord.arrival_time = record.arrivalTime || null;
+  }
+  
+  if (record.departureTime !== undefined) {
+    dbRecord.departure_time = record.departureTime || null;
+  }
+  
+  if (getStatusCategory(record.status, await getAttendanceCodes()) !== "present") {
+    dbRecord.minutes_late = null;
+  } else if (record.arrivalTime && (record.status === "present" || record.status === "late")) {
+    const cutoff = await getLateCutoff({ periodId: dbRecord.period_id, session: dbRecord.session as AttendanceSession | null });
+    const { status, minutesLate } = classifyArrival(record.arrivalTime, cutoff);
+    dbRecord.status = status;
+    dbRecord.minutes_late = minutesLate;
+  }
+  
+  if (dbRecord.status === "present") {
+    dbRecord.reason_id = null;
+  } else if (record.reasonId !== undefined) {
+    dbRecord.reason_id = record.reasonId || null;
+  }
+  
+  let existingQuery = supabase
     .from("attendance_records")
     .select("id")
     .eq("student_id", dbRecord.student_id)
     .eq("date", dbRecord.date);
     
+  existingQuery = dbRecord.period_id
+    ? existingQuery.eq("period_id", dbRecord.period_id)
+    : existingQuery.is("period_id", null);
+    
+  existingQuery = dbRecord.session
+    ? existingQuery.eq("session", dbRecord.session)
+    : existingQuery.is("session", null);
+    
+  const { data: existingData, error: existingError } = await existingQuery;
+    
   if (existingError) {
     console.error("Error checking existing attendance:", existingError);
     throw existingError;
@@ -254,7 +1140,7 @@ export const recordAttendance = async (record: Omit<AttendanceRecord, "id">): Pr
   if (existingData && existingData.length > 0) {
     const { data, error } = await supabase
       .from("attendance_records")
-      .update(dbRecord)
+      .update({ ...dbRecord, updated_by: userId || null })
       .eq("id", existingData[0].id)
       .select()
       .single();
@@ -268,7 +1154,7 @@ export const recordAttendance = async (record: Omit<AttendanceRecord, "id">): Pr
   } else {
     const { data, error } = await supabase
       .from("attendance_records")
-      .insert(dbRecord)
+      .insert({ ...dbRecord, created_by: userId || null })
       .select()
       .single();
       
@@ -280,32 +1166,32 @@ export const recordAttendance = async (record: Omit<AttendanceRecord, "id">): Pr
     resultData = data;
   }
   
-  return {
-    id: resultData.id,
-    studentId: record.studentId,
-    date: resultData.date,
-    status: resultData.status as "present" | "absent" | "late" | "excused",
-    notes: resultData.notes
-  };
+  return toAttendanceRecord(resultData);
 };
 
-export const getAttendanceForDate = async (date: string): Promise<AttendanceRecord[]> => {
-  const { data, error } = await supabase
+// Pass a register slot to get just that register (an empty slot is the whole-day register),
+// or leave it out to get every record on that date
+export const getAttendanceForDate = async (date: string, slot?: RegisterSlot): Promise<AttendanceRecord[]> => {
+  let query = supabase
     .from("attendance_records")
     .select("*, students(id)")
     .eq("date", date);
     
+  if (slot) {
+    query = slot.periodId ? query.eq("period_id", slot.periodId) : query.is("period_id", null);
+    query = slot.session && !slot.periodId ? query.eq("session", slot.session) : query.is("session", null);
+  }
+    
+  const { data, error } = await query;
+    
   if (error) {
     console.error("Error fetching attendance for date:", error);
     throw error;
   }
   
   return data.map(record => ({
-    id: record.id,
-    studentId: record.students.id,
-    date: record.date,
-    status: record.status as "present" | "absent" | "late" | "excused",
-    notes: record.notes
+    ...toAttendanceRecord(record),
+    studentId: record.students.id
   }));
 };
 
@@ -313,47 +1199,80 @@ export const getStudentAttendance = async (studentId: string): Promise<Attendanc
   const { data, error } = await supabase
     .from("attendance_records")
     .select("*")
-    .eq("student_id", studentId);
+    .eq("student_id", studentId)
+    .order("date");
     
   if (error) {
     console.error("Error fetching student attendance:", error);
     throw error;
   }
   
-  return data.map(record => ({
-    id: record.id,
-    studentId: studentId,
-    date: record.date,
-    status: record.status as "present" | "absent" | "late" | "excused",
-    notes: record.notes
+  return data.map(toAttendanceRecord);
+};
+
+// Every change to a student's registers on one day, oldest first
+export const getAttendanceHistory = async (studentId: string, date: string): Promise<AttendanceChange[]> => {
+  const { data, error } = await supabase
+    .from("attendance_record_history")
+    .select("*")
+    .eq("student_id", studentId)
+    .eq("date", date)
+    .order("changed_at");
+    
+  if (error) {
+    console.error("Error fetching attendance history:", error);
+    throw error;
+  }
+  
+  return data.map(change => ({
+    id: change.id,
+    recordId: change.record_id,
+    studentId: change.student_id,
+    date: change.date,
+    periodId: change.period_id,
+    session: change.session as AttendanceSession | null,
+    oldStatus: change.old_status,
+    newStatus: change.new_status,
+    oldNotes: change.old_notes,
+    newNotes: change.new_notes,
+    oldReasonId: change.old_reason_id,
+    newReasonId: change.new_reason_id,
+    changedBy: change.changed_by,
+    changedByName: change.changed_by_name,
+    changedAt: change.changed_at
   }));
 };
 
 // Statistics and summaries
 export const getAttendanceSummary = async (date: string): Promise<AttendanceSummary> => {
-  const { count: totalStudents, error: studentsError } = await supabase
+  // Students in the bin are left out, as in every other figure (see metrics.ts)
+  const { data: activeStudents, error: studentsError } = await supabase
     .from("students")
-    .select("*", { count: "exact", head: true });
+    .select("id")
+    .is("deleted_at", null);
     
   if (studentsError) {
-    console.error("Error counting students:", studentsError);
+    console.error("Error fetching students:", studentsError);
     throw studentsError;
   }
   
-  const { data: records, error: recordsError } = await supabase
-    .from("attendance_records")
-    .select("status")
-    .eq("date", date);
-    
-  if (recordsError) {
-    console.error("Error fetching attendance records:", recordsError);
-    throw recordsError;
-  }
+  // Roll lesson registers up into one status per student for the day
+  const activeIds = new Set(activeStudents.map(student => student.id));
+  const [dayRecords, periods, codes] = await Promise.all([getAttendanceForDate(date), getPeriods(), getAttendanceCodes()]);
+  const records = rollUpDailyAttendance(dayRecords.filter(r => activeIds.has(r.studentId)), periods, codes);
   
-  const present = records.filter(r => r.status === 'present').length;
-  const absent = records.filter(r => r.status === 'absent').length;
+  // Present, absent and neutral follow each code's flag; late and excused are the built-in codes
+  const present = records.filter(r => r.category === 'present').length;
+  const absent = records.filter(r => r.category === 'absent').length;
+  const neutral = records.filter(r => r.category === 'neutral').length;
   const late = records.filter(r => r.status === 'late').length;
   const excused = records.filter(r => r.status === 'excused').length;
+  const halfDayAbsences = records.filter(r => r.isHalfDayAbsence).length;
+  
+  const statusCounts: Record<string, number> = {};
+  records.forEach(r => {
+    statusCounts[r.status] = (statusCounts[r.status] || 0) + 1;
+  });
   
   return {
     date,
@@ -361,89 +1280,46 @@ export const getAttendanceSummary = async (date: string): Promise<AttendanceSumm
     absent,
     late,
     excused,
-    total: totalStudents || 0
+    neutral,
+    statusCounts,
+    halfDayAbsences,
+    unmarked: activeIds.size - records.length,
+    total: activeIds.size
   };
 };
 
+// Rates per class over all time, with present counts for today. The totals are stored per
+// day and class (get_class_attendance), so this is two requests however many classes there are.
 export const getClassSummaries = async (): Promise<ClassSummary[]> => {
-  const { data: classData, error: classError } = await supabase
-    .from("students")
-    .select("class")
-    .order("class");
-    
-  if (classError) {
-    console.error("Error fetching classes:", classError);
-    throw classError;
-  }
+  const [classes, studentsResult, attendanceResult] = await Promise.all([
+    getClasses(),
+    supabase.from("students").select("class").is("deleted_at", null),
+    supabase.rpc("get_class_attendance", { p_from: null, p_to: null, p_last_day: getToday() })
+  ]);
   
-  const uniqueClasses = Array.from(new Set(classData.map(c => c.class)));
+  if (studentsResult.error) {
+    console.error("Error counting students by class:", studentsResult.error);
+    throw studentsResult.error;
+  }
   
-  const summaries: ClassSummary[] = [];
+  if (attendanceResult.error) {
+    console.error("Error fetching class attendance:", attendanceResult.error);
+    throw attendanceResult.error;
+  }
   
-  for (const className of uniqueClasses) {
-    const { count: totalStudents, error: countError } = await supabase
-      .from("students")
-      .select("*", { count: "exact", head: true })
-      .eq("class", className);
-      
-    if (countError) {
-      console.error(`Error counting students in class ${className}:`, countError);
-      throw countError;
-    }
-    
-    const { data: studentsInClass, error: studentsError } = await supabase
-      .from("students")
-      .select("id")
-      .eq("class", className);
-      
-    if (studentsError) {
-      console.error(`Error fetching students in class ${className}:`, studentsError);
-      throw studentsError;
-    }
-    
-    const studentIds = studentsInClass.map(s => s.id);
-    
-    const { data: dateData, error: dateError } = await supabase
-      .from("attendance_records")
-      .select("date")
-      .order("date");
-      
-    if (dateError) {
-      console.error("Error fetching attendance dates:", dateError);
-      throw dateError;
-    }
+  return classes.map(({ name: className, ...schoolClass }) => {
+    const attendance = attendanceResult.data.find(row => row.class_name === className);
     
-    const uniqueDates = Array.from(new Set(dateData.map(d => d.date)));
-    
-    let presentCount = 0;
-    
-    if (studentIds.length > 0 && uniqueDates.length > 0) {
-      const { count, error: attendanceError } = await supabase
-        .from("attendance_records")
-        .select("*", { count: "exact", head: true })
-        .in("student_id", studentIds)
-        .in("status", ["present", "late"]);
-        
-      if (attendanceError) {
-        console.error(`Error counting attendance for class ${className}:`, attendanceError);
-        throw attendanceError;
-      }
-      
-      presentCount = count || 0;
-    }
-    
-    const totalPossibleRecords = totalStudents * (uniqueDates.length || 1);
-    const attendanceRate = totalPossibleRecords > 0 
-      ? (presentCount / totalPossibleRecords) * 100 
-      : 100;
-      
-    summaries.push({
+    return {
       className,
-      totalStudents: totalStudents || 0,
-      attendanceRate,
-      presentCount: presentCount || 0
-    });
-  }
-  
-  return summaries;
+      totalStudents: studentsResult.data.filter(student => student.class === className).length,
+      attendanceRate: attendance && attendance.attendance_rate !== null ? Number(attendance.attendance_rate) : null,
+      presentCount: attendance?.present_count ?? 0,
+      halfDayAbsentCount: attendance?.half_day_absent_count ?? 0,
+      gradeLevel: schoolClass.gradeLevel,
+      homeroomTeacher: schoolClass.homeroomTeacher,
+      room: schoolClass.room,
+      capacity: schoolClass.capacity
+    };
+  });
 };
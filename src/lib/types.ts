@@ -9,15 +9,210 @@ export interface Student {
   email?: string;
   contactPhone?: string;
   deletedAt?: string | null;
+  graduatedAt?: string | null;
   notificationPreference?: 'sms' | 'whatsapp' | 'email';
 }
 
+export type AttendanceSession = 'am' | 'pm';
+
+// A status code from the attendance_codes table, e.g. 'present' or 'school_trip'
+export type AttendanceStatus = string;
+
+// How a status code counts in the metrics; neutral codes are left out of rates
+export type AttendanceCategory = 'present' | 'absent' | 'neutral';
+
+export interface AttendanceCode {
+  code: AttendanceStatus;
+  label: string;
+  color: string; // hex colour
+  icon: string; // one of ATTENDANCE_ICONS
+  countsAs: AttendanceCategory;
+  isSystem: boolean; // built-in codes cannot be deleted
+  sortOrder: number;
+}
+
 export interface AttendanceRecord {
   id: string;
   studentId: string;
   date: string; // ISO string format
-  status: 'present' | 'absent' | 'late' | 'excused';
-  notes?: string;
+  periodId?: string | null; // null for a whole-day or session register
+  session?: AttendanceSession | null; // set for a half-day session register
+  status: AttendanceStatus;
+  reasonId?: string | null; // why the student was absent, late or excused
+  notes?: string; // optional detail on top of the reason
+  arrivalTime?: string | null; // HH:mm
+  departureTime?: string | null; // HH:mm
+  minutesLate?: number | null;
+  createdBy?: string | null; // user who first marked the register
+  updatedBy?: string | null; // user who last changed it
+  createdAt?: string;
+  updatedAt?: string | null;
+}
+
+// A mark saved on this device and waiting to reach the server
+export interface QueuedMark {
+  key: string; // one per student per register, so a later mark replaces an earlier one
+  date: string;
+  slot: RegisterSlot;
+  mark: Pick<AttendanceRecord, 'studentId' | 'status' | 'notes' | 'reasonId'>;
+  baseChangedAt: string | null; // when the server record last changed, as seen when queued
+  queuedAt: string;
+  lastError?: string; // set when the server refused it, e.g. the register was locked
+}
+
+// One entry in the append-only history of an attendance record
+export interface AttendanceChange {
+  id: string;
+  recordId: string;
+  studentId: string;
+  date: string;
+  periodId?: string | null;
+  session?: AttendanceSession | null;
+  oldStatus: AttendanceStatus | null; // null when the record was created
+  newStatus: AttendanceStatus | null; // null when the record was deleted
+  oldNotes?: string | null;
+  newNotes?: string | null;
+  oldReasonId?: string | null;
+  newReasonId?: string | null;
+  changedBy?: string | null;
+  changedByName?: string | null;
+  changedAt: string;
+}
+
+export type CorrectionStatus = 'pending' | 'approved' | 'rejected';
+
+// A request to change a mark on a submitted register, approved or rejected by an admin
+export interface AttendanceCorrection {
+  id: string;
+  studentId: string;
+  studentName?: string;
+  className?: string;
+  date: string;
+  periodId?: string | null;
+  session?: AttendanceSession | null;
+  currentStatus: AttendanceStatus | null; // null if there was no mark
+  requestedStatus: AttendanceStatus;
+  requestedReasonId?: string | null;
+  requestedNotes?: string | null;
+  reason: string; // why the change is needed
+  status: CorrectionStatus;
+  requestedBy?: string | null;
+  requestedByName?: string | null;
+  requestedAt: string;
+  reviewedByName?: string | null;
+  reviewedAt?: string | null;
+  reviewNote?: string | null;
+}
+
+export interface UserNotification {
+  id: string;
+  title: string;
+  body?: string | null;
+  link?: string | null;
+  readAt?: string | null;
+  createdAt: string;
+}
+
+export interface AbsenceReason {
+  id: string;
+  name: string;
+  isActive: boolean; // retired reasons stay on past records but can't be picked
+  sortOrder: number;
+}
+
+export interface Period {
+  id: string;
+  name: string;
+  startTime: string; // HH:mm
+  endTime: string; // HH:mm
+  session: AttendanceSession;
+  sortOrder: number;
+}
+
+// Which register a record belongs to: whole day, a half-day session or one period
+export interface RegisterSlot {
+  periodId?: string | null;
+  session?: AttendanceSession | null;
+}
+
+// One student's status for a whole day, rolled up from their session and period records
+export interface DailyAttendance {
+  studentId: string;
+  date: string;
+  status: AttendanceStatus;
+  category: AttendanceCategory;
+  sessions: Record<AttendanceSession, AttendanceStatus | null>;
+  absenceDays: number; // 1 for a full-day absence, 0.5 for a half-day absence
+  isHalfDayAbsence: boolean;
+  minutesLate: number; // from the register that records the student's arrival
+  periodsMarked: number;
+}
+
+export interface SchoolSettings {
+  lateCutoffTime: string; // HH:mm, arrivals after this are marked late
+  weekendDays: number[]; // days of the week with no school, 0 = Sunday
+  timezone: string; // IANA name, e.g. Indian/Mauritius; "today" is worked out here
+  metricRules: MetricRules;
+  registerReminderTime: string | null; // HH:mm, remind the homeroom teacher of a missing register
+  registerEscalationTime: string | null; // HH:mm, tell the office if it's still missing
+  officeEmail: string | null;
+}
+
+// How attendance rates are worked out, see metrics.ts
+export interface MetricRules {
+  lateCountsAsPresent: boolean; // otherwise a late day counts but isn't attended
+  excludeNeutral: boolean; // leave neutral days (e.g. excused) out of rates altogether
+}
+
+export interface DateRange {
+  from: string; // YYYY-MM-DD
+  to: string; // YYYY-MM-DD, inclusive
+}
+
+export interface AcademicYear {
+  id: string;
+  name: string;
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD, inclusive
+  isCurrent: boolean;
+  status: 'active' | 'archived'; // archived years are read-only
+}
+
+export interface RolloverPlan {
+  yearId: string;
+  nextYear: Pick<AcademicYear, 'name' | 'startDate' | 'endDate'>;
+  finalGrade: number; // students in this grade or above graduate
+  classMap: Record<string, string>; // current class -> class next year
+}
+
+export interface RolloverResult {
+  archivedRecords: number;
+  graduated: number;
+  promoted: number;
+}
+
+export interface AcademicTerm {
+  id: string;
+  name: string;
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD, inclusive
+}
+
+export type ClosureType = 'public_holiday' | 'school_holiday' | 'closure' | 'staff_day';
+
+export interface CalendarClosure {
+  id: string;
+  name: string;
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD, inclusive
+  closureType: ClosureType;
+}
+
+// Everything needed to tell whether a date is an instructional (school) day
+export interface SchoolCalendar {
+  terms: AcademicTerm[];
+  closures: CalendarClosure[];
+  weekendDays: number[];
 }
 
 export interface AttendanceSummary {
@@ -28,17 +223,127 @@ export interface AttendanceSummary {
   absent: number;
   late: number;
   excused: number;
+  neutral?: number; // codes that count as neither present nor absent
+  unmarked?: number; // students with no mark yet
+  statusCounts?: Record<AttendanceStatus, number>;
+  halfDayAbsences?: number;
   total: number;
   absenceRate?: number;
   consecutiveAbsences?: number;
+  totalMinutesLate?: number;
+  averageMinutesLate?: number;
   needsAttention?: boolean;
 }
 
+export interface SchoolClass {
+  id: string;
+  name: string;
+  gradeLevel: number;
+  homeroomTeacher?: string | null;
+  homeroomTeacherEmail?: string | null;
+  room?: string | null;
+  capacity?: number | null;
+}
+
+// A student's time in one class. endDate is inclusive and null for their current class.
+export interface ClassEnrollment {
+  id: string;
+  studentId: string;
+  className: string;
+  startDate: string; // YYYY-MM-DD
+  endDate: string | null;
+}
+
+export type AppRole = 'admin' | 'teacher';
+
+// Someone with a class register open, shared through realtime presence
+export interface RegisterEditor {
+  userId: string;
+  name: string;
+  className: string;
+  date: string;
+}
+
+// A class register submitted for a day. Attendance for that class and day is locked until an admin unlocks it.
+export interface RegisterSubmission {
+  id: string;
+  className: string;
+  date: string;
+  submittedBy?: string | null;
+  submittedByName?: string | null;
+  submittedAt: string;
+}
+
+// Whether a class's register has been taken on a day. "missing" is a register that still
+// hasn't been submitted once the late cutoff time has passed.
+export type RegisterState = 'submitted' | 'complete' | 'in_progress' | 'not_started' | 'not_submitted' | 'missing';
+
+export interface RegisterCompletion {
+  className: string;
+  homeroomTeacher?: string | null;
+  totalStudents: number;
+  markedCount: number;
+  state: RegisterState;
+  submission?: RegisterSubmission;
+}
+
+// Records that were not present over a date range, grouped by reason
+export interface AbsenceReasonSummary {
+  reasonId: string | null; // null when no reason was given
+  reasonName: string;
+  total: number;
+  statusCounts: Record<AttendanceStatus, number>;
+}
+
+// Totals for the dashboard across a date range; a single day is a range of one
+export interface PeriodAttendance {
+  presences: number; // present student-days
+  absences: number; // a half-day absence counts as half
+  attendanceRate: number | null;
+  daysMarked: number; // school days in the range with any marks
+}
+
 export interface ClassSummary {
   className: string;
   totalStudents: number;
-  attendanceRate: number;
-  presentCount: number; // Added this field for present students count
+  attendanceRate: number | null; // null with no counted days
+  presentCount: number; // present on the last day of the range
+  halfDayAbsentCount?: number;
+  gradeLevel?: number;
+  homeroomTeacher?: string | null;
+  room?: string | null;
+  capacity?: number | null;
+}
+
+// A staff note on a student's profile
+export interface StudentNote {
+  id: string;
+  studentId: string;
+  note: string;
+  createdAt: string;
+  createdBy?: string | null;
+}
+
+// A message sent to a student's family, as logged by the notification functions
+export interface SentNotification {
+  id: string;
+  studentId: string;
+  channel: string;
+  sentAt: string;
+  message: string;
+  success: boolean;
+}
+
+// Attendance for one term, and for the year so far up to the end of that term
+export interface TermAttendance {
+  termId: string;
+  termName: string;
+  startDate: string;
+  endDate: string;
+  daysMarked: number;
+  absenceDays: number;
+  attendanceRate: number | null;
+  runningRate: number | null;
 }
 
 export interface ImportResult {
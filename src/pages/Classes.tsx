@@ -0,0 +1,207 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import MainLayout from "@/components/layout/MainLayout";
+import ClassFormDialog from "@/components/classes/ClassFormDialog";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { Pencil, Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/components/ui/use-toast";
+import { getClasses, getStudents, saveClass, deleteClass } from "@/lib/supabaseService";
+import { SchoolClass } from "@/lib/types";
+
+const Classes = () => {
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingClass, setEditingClass] = useState<SchoolClass | null>(null);
+  const [classToDelete, setClassToDelete] = useState<SchoolClass | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: classes = [], isLoading } = useQuery({
+    queryKey: ['classes'],
+    queryFn: getClasses
+  });
+
+  const { data: students = [] } = useQuery({
+    queryKey: ['students', false],
+    queryFn: () => getStudents(false)
+  });
+
+  const studentCounts = students.reduce<Record<string, number>>((counts, student) => {
+    counts[student.class] = (counts[student.class] || 0) + 1;
+    return counts;
+  }, {});
+
+  const saveClassMutation = useMutation({
+    mutationFn: saveClass,
+    onSuccess: () => {
+      // A rename moves students too
+      queryClient.invalidateQueries({ queryKey: ['classes'] });
+      queryClient.invalidateQueries({ queryKey: ['students'] });
+      queryClient.invalidateQueries({ queryKey: ['students-dashboard'] });
+      queryClient.invalidateQueries({ queryKey: ['class-summaries'] });
+      setIsFormOpen(false);
+      toast({
+        title: "Class saved",
+        description: "The class list has been updated.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error saving class",
+        description: error.message || "There was a problem saving the class.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const deleteClassMutation = useMutation({
+    mutationFn: deleteClass,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['classes'] });
+      queryClient.invalidateQueries({ queryKey: ['class-summaries'] });
+      setClassToDelete(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error deleting class",
+        description: error.message || "There was a problem deleting the class.",
+        variant: "destructive",
+      });
+      setClassToDelete(null);
+    }
+  });
+
+  const openForm = (schoolClass: SchoolClass | null) => {
+    setEditingClass(schoolClass);
+    setIsFormOpen(true);
+  };
+
+  return (
+    <MainLayout>
+      <div className="space-y-6">
+        <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+          <div>
+            <h1 className="text-3xl font-bold mb-1">Classes</h1>
+            <p className="text-muted-foreground">
+              Manage classes, homeroom teachers and rooms
+            </p>
+          </div>
+          <Button onClick={() => openForm(null)} className="flex items-center gap-2">
+            <Plus className="h-4 w-4" />
+            Add Class
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>All Classes</CardTitle>
+            <CardDescription>
+              Students can only belong to a class listed here.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Class</TableHead>
+                    <TableHead>Grade</TableHead>
+                    <TableHead>Homeroom Teacher</TableHead>
+                    <TableHead>Room</TableHead>
+                    <TableHead>Students</TableHead>
+                    <TableHead className="w-24">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {classes.length > 0 ? (
+                    classes.map((schoolClass) => {
+                      const count = studentCounts[schoolClass.name] || 0;
+                      const isOverCapacity = schoolClass.capacity != null && count > schoolClass.capacity;
+
+                      return (
+                        <TableRow key={schoolClass.id}>
+                          <TableCell className="font-medium">{schoolClass.name}</TableCell>
+                          <TableCell>{schoolClass.gradeLevel}</TableCell>
+                          <TableCell>
+                            {schoolClass.homeroomTeacher || <span className="text-muted-foreground">Not assigned</span>}
+                            {schoolClass.homeroomTeacherEmail && (
+                              <div className="text-xs text-muted-foreground">{schoolClass.homeroomTeacherEmail}</div>
+                            )}
+                          </TableCell>
+                          <TableCell>{schoolClass.room || "—"}</TableCell>
+                          <TableCell className={isOverCapacity ? "text-destructive font-medium" : undefined}>
+                            {count}{schoolClass.capacity ? ` / ${schoolClass.capacity}` : ""}
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex gap-1">
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                className="h-8 w-8 p-0"
+                                onClick={() => openForm(schoolClass)}
+                                title="Edit Class"
+                              >
+                                <Pencil className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                className="h-8 w-8 p-0 text-destructive hover:text-destructive hover:bg-destructive/10"
+                                onClick={() => setClassToDelete(schoolClass)}
+                                title="Delete Class"
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })
+                  ) : (
+                    <TableRow>
+                      <TableCell colSpan={6} className="h-24 text-center">
+                        {isLoading ? "Loading classes..." : "No classes yet. Add one to get started."}
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <ClassFormDialog
+        open={isFormOpen}
+        onOpenChange={setIsFormOpen}
+        schoolClass={editingClass}
+        onSave={(values) => saveClassMutation.mutate(values)}
+        isSaving={saveClassMutation.isPending}
+      />
+
+      <AlertDialog open={!!classToDelete} onOpenChange={(open) => !open && setClassToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete class {classToDelete?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Only classes that have never had students can be deleted.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => classToDelete && deleteClassMutation.mutate(classToDelete.id)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </MainLayout>
+  );
+};
+
+export default Classes;
@@ -0,0 +1,262 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link } from "react-router-dom";
+import MainLayout from "@/components/layout/MainLayout";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Check, X } from "lucide-react";
+import { useToast } from "@/components/ui/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { getAbsenceReasons, getAttendanceCodes, getAttendanceCorrections, getPeriods, reviewCorrection } from "@/lib/supabaseService";
+import { DEFAULT_ATTENDANCE_CODES, getStatusLabel } from "@/lib/attendanceCodes";
+import { SESSION_LABELS } from "@/lib/attendanceRollup";
+import { AttendanceCorrection } from "@/lib/types";
+import { formatDateOnly } from "@/lib/dateUtils";
+
+const Corrections = () => {
+  const [activeTab, setActiveTab] = useState("pending");
+  const [reviewing, setReviewing] = useState<{ correction: AttendanceCorrection; approve: boolean } | null>(null);
+  const [reviewNote, setReviewNote] = useState("");
+  const { isAdmin } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: pending = [], isLoading: isLoadingPending } = useQuery({
+    queryKey: ['attendance-corrections', 'pending'],
+    queryFn: () => getAttendanceCorrections("pending")
+  });
+
+  const { data: decided = [], isLoading: isLoadingDecided } = useQuery({
+    queryKey: ['attendance-corrections', 'decided'],
+    queryFn: () => getAttendanceCorrections("decided"),
+    enabled: activeTab === "decided"
+  });
+
+  const { data: attendanceCodes = DEFAULT_ATTENDANCE_CODES } = useQuery({
+    queryKey: ['attendance-codes'],
+    queryFn: getAttendanceCodes
+  });
+
+  const { data: absenceReasons = [] } = useQuery({
+    queryKey: ['absence-reasons', 'all'],
+    queryFn: () => getAbsenceReasons(true)
+  });
+
+  const { data: periods = [] } = useQuery({
+    queryKey: ['periods'],
+    queryFn: getPeriods
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: () => reviewCorrection(reviewing!.correction.id, reviewing!.approve, reviewNote.trim()),
+    onSuccess: () => {
+      const { correction, approve } = reviewing!;
+      queryClient.invalidateQueries({ queryKey: ['attendance-corrections'] });
+      if (approve) {
+        queryClient.invalidateQueries({ queryKey: ['attendance', correction.date] });
+        queryClient.invalidateQueries({ queryKey: ['student-attendance', correction.studentId] });
+        queryClient.invalidateQueries({ queryKey: ['attendance-history'] });
+      }
+      toast({
+        title: approve ? "Correction approved" : "Correction rejected",
+        description: approve
+          ? `The register for ${correction.studentName} has been updated.`
+          : `${correction.requestedByName || "The teacher"} will be told it was rejected.`,
+      });
+      setReviewing(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error reviewing correction",
+        description: error.message || "There was a problem reviewing the correction.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const openReview = (correction: AttendanceCorrection, approve: boolean) => {
+    setReviewNote("");
+    setReviewing({ correction, approve });
+  };
+
+  const getRegisterLabel = (correction: AttendanceCorrection) => {
+    if (correction.periodId) return periods.find(p => p.id === correction.periodId)?.name || "Lesson";
+    if (correction.session) return SESSION_LABELS[correction.session];
+    return "Whole day";
+  };
+
+  const describeChange = (correction: AttendanceCorrection) => {
+    const reasonName = absenceReasons.find(r => r.id === correction.requestedReasonId)?.name;
+    const from = correction.currentStatus ? getStatusLabel(correction.currentStatus, attendanceCodes) : "Not marked";
+    return `${from} → ${getStatusLabel(correction.requestedStatus, attendanceCodes)}${reasonName ? ` (${reasonName})` : ''}`;
+  };
+
+  const renderTable = (corrections: AttendanceCorrection[], isLoading: boolean, showDecision: boolean) => (
+    <div className="rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Student</TableHead>
+            <TableHead>Register</TableHead>
+            <TableHead>Change</TableHead>
+            <TableHead>Why</TableHead>
+            <TableHead>Requested by</TableHead>
+            {showDecision ? <TableHead>Decision</TableHead> : isAdmin && <TableHead className="w-40">Review</TableHead>}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {corrections.length > 0 ? (
+            corrections.map((correction) => (
+              <TableRow key={correction.id}>
+                <TableCell>
+                  <Link to={`/students/${correction.studentId}`} className="font-medium hover:underline">
+                    {correction.studentName}
+                  </Link>
+                  <div className="text-xs text-muted-foreground">{correction.className}</div>
+                </TableCell>
+                <TableCell>
+                  {formatDateOnly(correction.date)}
+                  <div className="text-xs text-muted-foreground">{getRegisterLabel(correction)}</div>
+                </TableCell>
+                <TableCell>
+                  {describeChange(correction)}
+                  {correction.requestedNotes && (
+                    <div className="text-xs text-muted-foreground">{correction.requestedNotes}</div>
+                  )}
+                </TableCell>
+                <TableCell className="max-w-xs">{correction.reason}</TableCell>
+                <TableCell>
+                  {correction.requestedByName || "Unknown"}
+                  <div className="text-xs text-muted-foreground">{new Date(correction.requestedAt).toLocaleString()}</div>
+                </TableCell>
+                {showDecision ? (
+                  <TableCell>
+                    <Badge variant={correction.status === "approved" ? "default" : "destructive"}>
+                      {correction.status === "approved" ? "Approved" : "Rejected"}
+                    </Badge>
+                    <div className="text-xs text-muted-foreground mt-1">
+                      {correction.reviewedByName}{correction.reviewedAt && `, ${new Date(correction.reviewedAt).toLocaleString()}`}
+                    </div>
+                    {correction.reviewNote && <div className="text-xs mt-1">{correction.reviewNote}</div>}
+                  </TableCell>
+                ) : isAdmin && (
+                  <TableCell>
+                    <div className="flex gap-1">
+                      <Button size="sm" variant="outline" onClick={() => openReview(correction, true)}>
+                        <Check className="h-4 w-4 mr-1" />
+                        Approve
+                      </Button>
+                      <Button size="sm" variant="ghost" className="text-destructive hover:text-destructive" onClick={() => openReview(correction, false)} title="Reject">
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                )}
+              </TableRow>
+            ))
+          ) : (
+            <TableRow>
+              <TableCell colSpan={6} className="h-24 text-center">
+                {isLoading ? "Loading requests..." : showDecision ? "No decided requests yet." : "No corrections waiting for review."}
+              </TableCell>
+            </TableRow>
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+
+  return (
+    <MainLayout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold mb-1">Corrections</h1>
+          <p className="text-muted-foreground">
+            Requests to change marks on submitted registers
+          </p>
+        </div>
+
+        <Tabs value={activeTab} onValueChange={setActiveTab}>
+          <TabsList>
+            <TabsTrigger value="pending" className="flex items-center gap-1">
+              Waiting for Review
+              {pending.length > 0 && (
+                <span className="ml-1 bg-primary/20 text-primary px-1.5 rounded-full text-xs">
+                  {pending.length}
+                </span>
+              )}
+            </TabsTrigger>
+            <TabsTrigger value="decided">Decided</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="pending" className="pt-4">
+            <Card>
+              <CardHeader>
+                <CardTitle>Waiting for Review</CardTitle>
+                <CardDescription>
+                  {isAdmin
+                    ? "Approving a request changes the register straight away, even though it is locked."
+                    : "An admin reviews each request. You'll get a notification with the decision."}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {renderTable(pending, isLoadingPending, false)}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="decided" className="pt-4">
+            <Card>
+              <CardHeader>
+                <CardTitle>Decided</CardTitle>
+                <CardDescription>The 100 most recent decisions</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {renderTable(decided, isLoadingDecided, true)}
+              </CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
+      </div>
+
+      <Dialog open={!!reviewing} onOpenChange={(open) => !open && setReviewing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{reviewing?.approve ? "Approve" : "Reject"} correction for {reviewing?.correction.studentName}?</DialogTitle>
+            <DialogDescription>
+              {reviewing && `${formatDateOnly(reviewing.correction.date)} · ${getRegisterLabel(reviewing.correction)} · ${describeChange(reviewing.correction)}`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="reviewNote">Note to {reviewing?.correction.requestedByName || "the teacher"} (optional)</Label>
+            <Textarea
+              id="reviewNote"
+              value={reviewNote}
+              onChange={(e) => setReviewNote(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReviewing(null)} disabled={reviewMutation.isPending}>
+              Cancel
+            </Button>
+            <Button
+              variant={reviewing?.approve ? "default" : "destructive"}
+              onClick={() => reviewMutation.mutate()}
+              disabled={reviewMutation.isPending}
+            >
+              {reviewMutation.isPending ? "Saving..." : reviewing?.approve ? "Approve and Apply" : "Reject"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </MainLayout>
+  );
+};
+
+export default Corrections;
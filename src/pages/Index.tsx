@@ -1,28 +1,47 @@
 import React, { useState, useEffect } from "react";
+import { useSearchParams } from "react-router-dom";
 import MainLayout from "@/components/layout/MainLayout";
 import StatCard from "@/components/dashboard/StatCard";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import StudentList from "@/components/attendance/StudentList";
 import AttendanceTrends from "@/components/attendance/AttendanceTrends";
-import { Calendar, Check, Users, XCircle, Percent, RefreshCw } from "lucide-react";
+import AbsenceReasonsReport from "@/components/attendance/AbsenceReasonsReport";
+import AcademicYearSelect from "@/components/dashboard/AcademicYearSelect";
+import DateRangeSelect from "@/components/dashboard/DateRangeSelect";
+import RegisterCompletion from "@/components/dashboard/RegisterCompletion";
+import { Calendar, Check, Users, XCircle, Percent, RefreshCw, HelpCircle } from "lucide-react";
 import { toast } from "@/components/ui/use-toast";
 import { Button } from "@/components/ui/button";
 import { 
-  getTotalAbsences, 
+  getPeriodAttendance, 
   getTotalAttendanceByClass, 
-  getTotalPresences, 
-  getTodayAttendance,
-  checkAttendanceTrends 
+  checkAttendanceTrends,
+  getAbsencesByReason
 } from "@/lib/attendanceSupabase";
-import { AttendanceSummary, ClassSummary, Student } from "@/lib/types";
+import { getAcademicYears, getAttendanceCodes, getClasses, getAttendanceForDate, getPeriods, getRegisterSubmissions, getSchoolCalendar, getSchoolSettings, getStudentsForYear } from "@/lib/supabaseService";
+import { getYearRange } from "@/lib/academicYears";
+import { getToday, formatDateOnly } from "@/lib/dateUtils";
+import { formatRate } from "@/lib/metrics";
+import { DEFAULT_ATTENDANCE_CODES, UNMARKED_STATUS } from "@/lib/attendanceCodes";
+import { getNonInstructionalReason } from "@/lib/schoolCalendar";
+import { rollUpDailyAttendance } from "@/lib/attendanceRollup";
+import { AttendanceRecord, AttendanceSummary, ClassSummary, DateRange, Student } from "@/lib/types";
+import { useRealtimeAttendance } from "@/hooks/use-realtime-attendance";
+import { useRegisterPresence } from "@/hooks/use-register-presence";
 
-const formatDate = (date: Date): string => {
-  return date.toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' });
+const formatDate = (date: string): string => {
+  return formatDateOnly(date, { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' }, 'en-US');
 };
 
+const formatShortDate = (date: string): string => {
+  return formatDateOnly(date, { month: 'short', day: 'numeric', year: 'numeric' }, 'en-US');
+};
+
+const isDateParam = (value: string | null): boolean => !!value && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
 const Index = () => {
-  const [currentDate] = useState(new Date());
+  const [searchParams, setSearchParams] = useSearchParams();
   const queryClient = useQueryClient();
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [selectedFilter, setSelectedFilter] = useState<{
@@ -30,15 +49,77 @@ const Index = () => {
     value: string | null;
   }>({ type: null, value: null });
 
-  const today = new Date().toISOString().split('T')[0];
+  const today = getToday();
+
+  // The period every card and list covers, kept in the URL (?from=&to=) so it can be
+  // bookmarked or shared. No parameters means today; a single day leaves out "to".
+  const fromParam = searchParams.get('from');
+  const toParam = searchParams.get('to');
+  const periodFrom = isDateParam(fromParam) ? fromParam : today;
+  const periodTo = isDateParam(toParam) && toParam >= periodFrom ? toParam : periodFrom;
+  const period: DateRange = { from: periodFrom, to: periodTo };
+  const isSingleDay = period.from === period.to;
+  const isToday = isSingleDay && period.from === today;
+
+  const setPeriod = (range: DateRange) => {
+    setSearchParams(
+      range.from === today && range.to === today ? {} :
+        range.from === range.to ? { from: range.from } : { from: range.from, to: range.to },
+      { replace: true }
+    );
+  };
+
+  const periodLabel = isToday ? "today" :
+    isSingleDay ? `on ${formatShortDate(period.from)}` :
+      `from ${formatShortDate(period.from)} to ${formatShortDate(period.to)}`;
+
+  // Other people's register changes show up here without a refresh
+  useRealtimeAttendance();
+  const registerEditors = useRegisterPresence(null);
+  const getEditorNames = (className: string) =>
+    [...new Set(registerEditors.filter(e => e.className === className && e.date === today).map(e => e.name))];
+
+  const [selectedYearId, setSelectedYearId] = useState<string | null>(null);
+
+  const { data: academicYears = [] } = useQuery({
+    queryKey: ['academic-years'],
+    queryFn: getAcademicYears
+  });
+
+  // Default to the academic year the period ends in (or the current one) once the years have loaded
+  useEffect(() => {
+    if (!selectedYearId && academicYears.length > 0) {
+      const periodYear = academicYears.find(year => periodTo >= year.startDate && periodTo <= year.endDate);
+      setSelectedYearId((periodYear || academicYears.find(year => year.isCurrent) || academicYears[0]).id);
+    }
+  }, [academicYears, selectedYearId, periodTo]);
+
+  const selectedYear = academicYears.find(year => year.id === selectedYearId) || null;
+  const yearRange = selectedYear ? getYearRange(selectedYear) : undefined;
+  const isArchivedYear = selectedYear?.status === 'archived';
+
+  // Picking a year shows the whole of it, up to today for the year in progress
+  const handleYearChange = (yearId: string) => {
+    setSelectedYearId(yearId);
+    const year = academicYears.find(y => y.id === yearId);
+    if (!year) return;
+    const to = year.endDate < today ? year.endDate : today;
+    setPeriod({ from: year.startDate, to: to < year.startDate ? year.startDate : to });
+  };
 
   const { data: students = [], isLoading: isLoadingStudents } = useQuery({
-    queryKey: ['students-dashboard'],
+    queryKey: ['students-dashboard', selectedYearId],
     queryFn: async () => {
+      // An archived year shows its students in the classes they were in that year
+      if (isArchivedYear) {
+        return await getStudentsForYear(selectedYearId);
+      }
+      
       const { data, error } = await supabase
         .from('students')
         .select('*')
-        .is('deleted_at', null); // Only fetch active students
+        .is('deleted_at', null) // Only fetch active students
+        .is('graduated_at', null);
       
       if (error) throw error;
       
@@ -51,7 +132,8 @@ const Index = () => {
         studentId: student.student_id,
         email: student.email,
         contactPhone: student.contact_phone,
-        deletedAt: student.deleted_at
+        deletedAt: student.deleted_at,
+        graduatedAt: student.graduated_at
       })) as Student[];
     },
     meta: {
@@ -66,31 +148,26 @@ const Index = () => {
   });
 
   const { data: attendanceSummary, isLoading: isLoadingAttendance } = useQuery({
-    queryKey: ['attendance-summary'],
+    queryKey: ['attendance-summary', selectedYearId, period.from, period.to],
     queryFn: async (): Promise<{
       total: number;
-      presentToday: number;
+      presentPerDay: number;
       totalPresences: number;
       totalAbsences: number;
-      presentPercentage: number;
+      attendanceRate: number | null;
     }> => {
-      if (!students.length) return { total: 0, presentToday: 0, totalPresences: 0, totalAbsences: 0, presentPercentage: 0 };
+      if (!students.length) return { total: 0, presentPerDay: 0, totalPresences: 0, totalAbsences: 0, attendanceRate: null };
       
       const totalStudents = students.filter(student => !student.deletedAt).length;
-      const presentToday = await getTodayAttendance(students);
-      const totalPresences = await getTotalPresences(students);
-      const totalAbsences = await getTotalAbsences(students);
-      
-      const presentPercentage = totalStudents > 0 
-        ? Math.round((presentToday / totalStudents) * 100) 
-        : 0;
+      const { presences, absences, attendanceRate, daysMarked } = await getPeriodAttendance(period);
       
       return {
         total: totalStudents,
-        presentToday,
-        totalPresences,
-        totalAbsences,
-        presentPercentage,
+        // Over a range, the average number present on each school day that was marked
+        presentPerDay: daysMarked > 0 ? Math.round(presences / daysMarked) : 0,
+        totalPresences: presences,
+        totalAbsences: absences,
+        attendanceRate,
       };
     },
     enabled: students.length > 0,
@@ -106,10 +183,12 @@ const Index = () => {
   });
 
   const { data: classSummaries = [], isLoading: isLoadingClasses } = useQuery({
-    queryKey: ['class-summaries'],
+    queryKey: ['class-summaries', selectedYearId, period.from, period.to],
     queryFn: async () => {
       if (!students.length) return [];
-      return await getTotalAttendanceByClass(students);
+      // Past years keep the class names they had; today's cards come from the classes list
+      const schoolClasses = isArchivedYear ? [] : await getClasses();
+      return await getTotalAttendanceByClass(students, period, schoolClasses);
     },
     enabled: students.length > 0,
     meta: {
@@ -123,34 +202,60 @@ const Index = () => {
     }
   });
 
-  const { data: todayAttendanceRecords = [], isLoading: isLoadingTodayAttendance } = useQuery({
-    queryKey: ['today-attendance-records'],
-    queryFn: async () => {
-      const { data, error } = await supabase
-        .from("attendance_records")
-        .select("*, students(id)")
-        .eq("date", today);
-        
-      if (error) {
-        console.error("Error fetching today's attendance records:", error);
-        throw error;
-      }
+  const { data: attendanceCodes = DEFAULT_ATTENDANCE_CODES } = useQuery({
+    queryKey: ['attendance-codes'],
+    queryFn: getAttendanceCodes
+  });
+
+  // The student list shows one day: the selected day, or the last day of a range
+  const { data: dayAttendanceRecords = [], isLoading: isLoadingDayAttendance } = useQuery({
+    queryKey: ['dashboard-attendance-records', period.to],
+    queryFn: async (): Promise<AttendanceRecord[]> => {
+      // The dashboard shows one status per student, rolled up from any lesson registers
+      const [records, periods, codes] = await Promise.all([getAttendanceForDate(period.to), getPeriods(), getAttendanceCodes()]);
       
-      return data.map(record => ({
-        id: record.id,
-        studentId: record.students.id,
-        date: record.date,
-        status: record.status as "present" | "absent" | "late" | "excused",
-        notes: record.notes
+      return rollUpDailyAttendance(records, periods, codes).map(day => ({
+        id: `${day.studentId}-${day.date}`,
+        studentId: day.studentId,
+        date: day.date,
+        status: day.status,
+        minutesLate: day.minutesLate
       }));
     },
     enabled: students.length > 0
   });
 
+  const { data: schoolClasses = [] } = useQuery({
+    queryKey: ['classes'],
+    queryFn: getClasses
+  });
+
+  const { data: daySubmissions = [] } = useQuery({
+    queryKey: ['register-submissions', period.to],
+    queryFn: () => getRegisterSubmissions(period.to),
+    enabled: isSingleDay
+  });
+
+  const { data: schoolSettings } = useQuery({
+    queryKey: ['school-settings'],
+    queryFn: getSchoolSettings
+  });
+
+  const { data: schoolCalendar } = useQuery({
+    queryKey: ['school-calendar'],
+    queryFn: getSchoolCalendar
+  });
+
+  // Students with no mark on the list's day count as their own status rather than vanishing
+  const markedStudentIds = new Set(dayAttendanceRecords.map(record => record.studentId));
+  const unmarkedStudents = students.filter(student => !student.deletedAt && !markedStudentIds.has(student.id));
+  const nonInstructionalReason = schoolCalendar ? getNonInstructionalReason(period.to, schoolCalendar) : null;
+
   const { data: attendanceTrends = [], isLoading: isLoadingTrends } = useQuery({
-    queryKey: ['attendance-trends'],
+    queryKey: ['attendance-trends', selectedYearId, period.from, period.to],
     queryFn: async () => {
-      return await checkAttendanceTrends(students);
+      // For a single day, the 30 days leading up to it within the selected year
+      return await checkAttendanceTrends(students, isSingleDay ? { from: yearRange?.from, to: period.to } : period);
     },
     enabled: students.length > 0,
     meta: {
@@ -164,13 +269,32 @@ const Index = () => {
     }
   });
 
+  const { data: absencesByReason = [], isLoading: isLoadingReasons } = useQuery({
+    queryKey: ['absences-by-reason', period.from, period.to],
+    queryFn: async () => {
+      return await getAbsencesByReason(period.from, period.to);
+    },
+    meta: {
+      onError: (error: Error) => {
+        toast({
+          title: "Error loading absence reasons",
+          description: error.message,
+          variant: "destructive",
+        });
+      }
+    }
+  });
+
   const refreshData = async () => {
     setIsRefreshing(true);
     try {
       await queryClient.invalidateQueries({ queryKey: ['students-dashboard'] });
       await queryClient.invalidateQueries({ queryKey: ['attendance-summary'] });
       await queryClient.invalidateQueries({ queryKey: ['class-summaries'] });
-      await queryClient.invalidateQueries({ queryKey: ['today-attendance-records'] });
+      await queryClient.invalidateQueries({ queryKey: ['dashboard-attendance-records'] });
+      await queryClient.invalidateQueries({ queryKey: ['attendance-trends'] });
+      await queryClient.invalidateQueries({ queryKey: ['absences-by-reason'] });
+      await queryClient.invalidateQueries({ queryKey: ['register-submissions'] });
       
       setSelectedFilter({ type: null, value: null });
       
@@ -197,15 +321,18 @@ const Index = () => {
     }
   };
 
+  const listDayLabel = period.to === today ? "Today" : `on ${formatShortDate(period.to)}`;
+
   const getFilterTitle = () => {
-    if (!selectedFilter.type) return "Student List";
+    if (!selectedFilter.type) return isToday ? "Student List" : `Student List ${listDayLabel}`;
     
     if (selectedFilter.type === "status") {
       switch (selectedFilter.value) {
-        case "present": return "Students Present Today";
-        case "absent": return "Students Absent Today";
-        case "late": return "Students Late Today";
-        case "excused": return "Students Excused Today";
+        case "present": return `Students Present ${listDayLabel}`;
+        case "absent": return `Students Absent ${listDayLabel}`;
+        case "late": return `Students Late ${listDayLabel}`;
+        case "excused": return `Students Excused ${listDayLabel}`;
+        case UNMARKED_STATUS: return `Students Not Marked ${listDayLabel}`;
         case "attendance": return "Attendance Overview";
         default: return "Student List";
       }
@@ -218,25 +345,46 @@ const Index = () => {
     return "Student List";
   };
 
-  const isLoading = isLoadingStudents || isLoadingAttendance || isLoadingClasses || isLoadingTodayAttendance || isLoadingTrends || isRefreshing;
+  const getClassDescription = (classSummary: ClassSummary) => {
+    const unmarkedCount = unmarkedStudents.filter(student => student.class === classSummary.className).length;
+    const counts = isSingleDay
+      ? `${classSummary.presentCount || 0} / ${classSummary.totalStudents} Present${classSummary.halfDayAbsentCount ? ` · ${classSummary.halfDayAbsentCount} half-day absent` : ''}${unmarkedCount ? ` · ${unmarkedCount} not marked` : ''}`
+      : `${classSummary.totalStudents} students`;
+    const editors = isToday ? getEditorNames(classSummary.className) : [];
+    return `${counts}${classSummary.homeroomTeacher ? ` · ${classSummary.homeroomTeacher}` : ''}${editors.length ? ` · ${editors.join(', ')} editing now` : ''}`;
+  };
+
+  const isLoading = isLoadingStudents || isLoadingAttendance || isLoadingClasses || isLoadingDayAttendance || isLoadingTrends || isRefreshing;
 
   return (
     <MainLayout>
       <div className="container mx-auto py-6">
-        <div className="flex justify-between items-center mb-6">
+        <div className="flex flex-wrap justify-between items-center gap-2 mb-6">
           <h1 className="text-3xl font-bold">Dashboard</h1>
-          <Button 
-            onClick={refreshData} 
-            variant="outline" 
-            disabled={isLoading}
-            className="flex items-center gap-2"
-          >
-            <RefreshCw className={`h-4 w-4 ${isRefreshing ? 'animate-spin' : ''}`} />
-            Refresh
-          </Button>
+          <div className="flex flex-wrap items-center gap-2">
+            <DateRangeSelect
+              value={period}
+              onChange={setPeriod}
+              today={today}
+            />
+            <AcademicYearSelect
+              years={academicYears}
+              value={selectedYearId}
+              onChange={handleYearChange}
+            />
+            <Button 
+              onClick={refreshData} 
+              variant="outline" 
+              disabled={isLoading}
+              className="flex items-center gap-2"
+            >
+              <RefreshCw className={`h-4 w-4 ${isRefreshing ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+          </div>
         </div>
 
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-6 mb-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 xl:grid-cols-6 gap-6 mb-6">
           <div onClick={() => setSelectedFilter({ type: null, value: null })}>
             <StatCard
               title="Total Students"
@@ -247,8 +395,8 @@ const Index = () => {
           </div>
           <div onClick={() => handleStatClick("status", "present")}>
             <StatCard
-              title="Present Today"
-              value={attendanceSummary?.presentToday || 0}
+              title={isToday ? "Present Today" : isSingleDay ? "Present" : "Present per Day"}
+              value={attendanceSummary?.presentPerDay || 0}
               icon={<Check className="h-5 w-5" />}
               isLoading={isLoading}
             />
@@ -256,8 +404,9 @@ const Index = () => {
           <div onClick={() => handleStatClick("status", "attendance")}>
             <StatCard
               title="Attendance %"
-              value={`${attendanceSummary?.presentPercentage || 0}%`}
+              value={formatRate(attendanceSummary?.attendanceRate ?? null, 0)}
               icon={<Percent className="h-5 w-5" />}
+              description={isToday ? undefined : periodLabel}
               isLoading={isLoading}
             />
           </div>
@@ -266,6 +415,7 @@ const Index = () => {
               title="Total Presences"
               value={attendanceSummary?.totalPresences || 0}
               icon={<Calendar className="h-5 w-5" />}
+              description={isToday ? undefined : periodLabel}
               isLoading={isLoading}
             />
           </div>
@@ -274,15 +424,44 @@ const Index = () => {
               title="Total Absences"
               value={attendanceSummary?.totalAbsences || 0}
               icon={<XCircle className="h-5 w-5" />}
+              description={isToday ? undefined : periodLabel}
+              isLoading={isLoading}
+            />
+          </div>
+          <div onClick={() => handleStatClick("status", UNMARKED_STATUS)}>
+            <StatCard
+              title="Not Marked"
+              value={unmarkedStudents.length}
+              icon={<HelpCircle className="h-5 w-5" />}
+              description={nonInstructionalReason ? "Not a school day" : period.to === today ? undefined : `on ${formatShortDate(period.to)}`}
               isLoading={isLoading}
             />
           </div>
         </div>
 
         <div className="mb-6">
-          <h2 className="text-2xl font-semibold mb-3">Today is {formatDate(currentDate)}</h2>
+          <h2 className="text-2xl font-semibold mb-3">
+            {isToday ? `Today is ${formatDate(today)}` :
+              isSingleDay ? formatDate(period.from) : `${formatDate(period.from)} to ${formatDate(period.to)}`}
+          </h2>
         </div>
 
+        {isSingleDay && (
+          <div className="mb-8">
+            <RegisterCompletion
+              date={period.to}
+              today={today}
+              classes={schoolClasses}
+              students={students}
+              attendanceRecords={dayAttendanceRecords}
+              submissions={daySubmissions}
+              cutoffTime={schoolSettings ? schoolSettings.registerReminderTime : "09:00"}
+              nonInstructionalReason={nonInstructionalReason}
+              onSelectClass={className => handleStatClick("class", className)}
+            />
+          </div>
+        )}
+
         <div className="mb-8">
           <h2 className="text-2xl font-semibold mb-3">Attendance by Class</h2>
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
@@ -293,9 +472,9 @@ const Index = () => {
               >
                 <StatCard
                   title={classSummary.className}
-                  value={classSummary.presentCount || 0}
+                  value={isSingleDay ? classSummary.presentCount || 0 : formatRate(classSummary.attendanceRate, 0)}
                   icon={<Users className="h-5 w-5" />}
-                  description={`${classSummary.presentCount || 0} / ${classSummary.totalStudents} Present`}
+                  description={getClassDescription(classSummary)}
                   isLoading={isLoading}
                 />
               </div>
@@ -311,16 +490,26 @@ const Index = () => {
           />
         </div>
 
+        <div className="mb-8">
+          <AbsenceReasonsReport
+            reasonData={absencesByReason}
+            attendanceCodes={attendanceCodes}
+            isLoading={isLoadingReasons}
+            periodLabel={periodLabel}
+          />
+        </div>
+
         <div className="mt-8">
           <h2 className="text-2xl font-semibold mb-3">{getFilterTitle()}</h2>
           {students.length > 0 ? (
             <StudentList 
               students={students} 
               isLoading={isLoading}
-              date={today}
-              attendanceRecords={todayAttendanceRecords}
+              date={period.to}
+              attendanceRecords={dayAttendanceRecords}
+              attendanceCodes={attendanceCodes}
               filterStatus={selectedFilter.type === "status" && selectedFilter.value !== "attendance" ? 
-                (selectedFilter.value as "present" | "absent" | "late" | "excused" | null) : 
+                selectedFilter.value : 
                 null}
               selectedClass={selectedFilter.type === "class" ? selectedFilter.value : null}
             />
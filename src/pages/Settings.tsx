@@ -1,5 +1,6 @@
 
-import React, { useState } from "react";
+import React, { useState, useEffect } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import MainLayout from "@/components/layout/MainLayout";
 import { useAuth } from "@/contexts/AuthContext";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
@@ -10,8 +11,22 @@ import { Separator } from "@/components/ui/separator";
 import { toast } from "@/components/ui/use-toast";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Switch } from "@/components/ui/switch";
-import { LogOut, Save, School, User, BellRing } from "lucide-react";
+import { LogOut, Save, School, User, BellRing, Clock, Tags, ClipboardList, CalendarDays, GraduationCap, Percent, AlarmClock } from "lucide-react";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import BellSchedule from "@/components/settings/BellSchedule";
+import AttendanceCodes from "@/components/settings/AttendanceCodes";
+import AbsenceReasons from "@/components/settings/AbsenceReasons";
+import SchoolCalendarSettings from "@/components/settings/SchoolCalendarSettings";
+import AcademicYears from "@/components/settings/AcademicYears";
+import { getSchoolSettings, updateSchoolSettings } from "@/lib/supabaseService";
+import { SchoolSettings } from "@/lib/types";
+import { DEFAULT_WEEKEND_DAYS } from "@/lib/schoolCalendar";
+import { getSchoolTimezone, isValidTimezone } from "@/lib/dateUtils";
+import { DEFAULT_METRIC_RULES } from "@/lib/metrics";
+
+// Not in the ES2020 typings, but available in every current browser
+const TIMEZONES: string[] =
+  (Intl as typeof Intl & { supportedValuesOf?: (key: string) => string[] }).supportedValuesOf?.("timeZone") || [];
 
 const Settings = () => {
   const { user, signOut } = useAuth();
@@ -24,13 +39,69 @@ const Settings = () => {
   const [emailNotifications, setEmailNotifications] = useState(true);
   const [smsNotifications, setSmsNotifications] = useState(true);
   const [defaultNotificationType, setDefaultNotificationType] = useState<"sms" | "email">("sms");
+  const [attendanceSettings, setAttendanceSettings] = useState<SchoolSettings>({ lateCutoffTime: "08:00", weekendDays: DEFAULT_WEEKEND_DAYS, timezone: getSchoolTimezone(), metricRules: DEFAULT_METRIC_RULES, registerReminderTime: "09:00", registerEscalationTime: "10:30", officeEmail: null });
+  const [isSaving, setIsSaving] = useState(false);
+  const queryClient = useQueryClient();
+
+  // Attendance rules are stored in the database, the rest is local for now
+  const { data: savedSettings } = useQuery({
+    queryKey: ['school-settings'],
+    queryFn: getSchoolSettings
+  });
+
+  useEffect(() => {
+    if (savedSettings) {
+      setAttendanceSettings(savedSettings);
+    }
+  }, [savedSettings]);
   
-  const handleSaveSchoolSettings = () => {
-    // In a real app, this would save to the database
-    toast({
-      title: "Settings updated",
-      description: "School settings have been saved successfully.",
-    });
+  const handleSaveSchoolSettings = async () => {
+    if (!isValidTimezone(attendanceSettings.timezone)) {
+      toast({
+        title: "Unknown timezone",
+        description: "Use a timezone name such as Indian/Mauritius or Europe/London.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const { registerReminderTime, registerEscalationTime } = attendanceSettings;
+    if (registerReminderTime && registerEscalationTime && registerEscalationTime <= registerReminderTime) {
+      toast({
+        title: "Invalid reminder times",
+        description: "The office should be told after the teacher has been reminded.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await updateSchoolSettings({
+        lateCutoffTime: attendanceSettings.lateCutoffTime,
+        timezone: attendanceSettings.timezone,
+        metricRules: attendanceSettings.metricRules,
+        registerReminderTime,
+        registerEscalationTime,
+        officeEmail: attendanceSettings.officeEmail?.trim() || null
+      });
+      // The rate rules change every figure on the dashboard
+      await Promise.all(['school-settings', 'attendance-summary', 'class-summaries', 'attendance-trends'].map(key =>
+        queryClient.invalidateQueries({ queryKey: [key] })
+      ));
+      toast({
+        title: "Settings updated",
+        description: "School settings have been saved successfully.",
+      });
+    } catch (error) {
+      toast({
+        title: "Error saving settings",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
   };
   
   const handleLogout = async () => {
@@ -55,7 +126,7 @@ const Settings = () => {
         <h1 className="text-3xl font-bold mb-6">Settings</h1>
 
         <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-          <TabsList className="grid grid-cols-2 w-full max-w-md mb-6">
+          <TabsList className="flex flex-wrap h-auto w-full justify-start mb-6">
             <TabsTrigger value="account" className="flex items-center gap-2">
               <User className="h-4 w-4" />
               Account
@@ -64,6 +135,26 @@ const Settings = () => {
               <School className="h-4 w-4" />
               School
             </TabsTrigger>
+            <TabsTrigger value="schedule" className="flex items-center gap-2">
+              <Clock className="h-4 w-4" />
+              Bell Schedule
+            </TabsTrigger>
+            <TabsTrigger value="calendar" className="flex items-center gap-2">
+              <CalendarDays className="h-4 w-4" />
+              Calendar
+            </TabsTrigger>
+            <TabsTrigger value="years" className="flex items-center gap-2">
+              <GraduationCap className="h-4 w-4" />
+              Academic Years
+            </TabsTrigger>
+            <TabsTrigger value="codes" className="flex items-center gap-2">
+              <Tags className="h-4 w-4" />
+              Attendance Codes
+            </TabsTrigger>
+            <TabsTrigger value="reasons" className="flex items-center gap-2">
+              <ClipboardList className="h-4 w-4" />
+              Absence Reasons
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="account">
@@ -127,6 +218,126 @@ const Settings = () => {
                     onChange={(e) => setSchoolEmail(e.target.value)}
                   />
                 </div>
+                <div className="space-y-3">
+                  <Label htmlFor="lateCutoffTime">Late Cutoff Time</Label>
+                  <Input 
+                    id="lateCutoffTime" 
+                    type="time" 
+                    value={attendanceSettings.lateCutoffTime} 
+                    onChange={(e) => setAttendanceSettings(prev => ({ ...prev, lateCutoffTime: e.target.value }))}
+                    className="w-auto"
+                  />
+                  <p className="text-sm text-muted-foreground">
+                    Students arriving after this time are marked late. Lesson registers use the period start time instead.
+                  </p>
+                </div>
+                <div className="space-y-3">
+                  <Label htmlFor="timezone">Timezone</Label>
+                  <Input 
+                    id="timezone" 
+                    list="timezones"
+                    value={attendanceSettings.timezone} 
+                    onChange={(e) => setAttendanceSettings(prev => ({ ...prev, timezone: e.target.value }))}
+                    className="w-auto"
+                  />
+                  <datalist id="timezones">
+                    {TIMEZONES.map(timezone => (
+                      <option key={timezone} value={timezone} />
+                    ))}
+                  </datalist>
+                  <p className="text-sm text-muted-foreground">
+                    Decides which day "today" is for registers, the dashboard and notifications.
+                  </p>
+                </div>
+
+                <Separator />
+
+                <div className="space-y-4">
+                  <h3 className="text-lg font-medium flex items-center">
+                    <Percent className="h-4 w-4 mr-2" />
+                    Attendance Rates
+                  </h3>
+
+                  <div className="space-y-4">
+                    <div className="flex items-center justify-between">
+                      <div className="space-y-0.5">
+                        <Label htmlFor="lateCountsAsPresent">Late Counts as Present</Label>
+                        <p className="text-sm text-muted-foreground">
+                          Otherwise a late day lowers the attendance rate, though it isn't an absence
+                        </p>
+                      </div>
+                      <Switch 
+                        id="lateCountsAsPresent" 
+                        checked={attendanceSettings.metricRules.lateCountsAsPresent}
+                        onCheckedChange={(checked) => setAttendanceSettings(prev => ({ ...prev, metricRules: { ...prev.metricRules, lateCountsAsPresent: checked } }))}
+                      />
+                    </div>
+
+                    <div className="flex items-center justify-between">
+                      <div className="space-y-0.5">
+                        <Label htmlFor="excludeNeutral">Leave Out Excused Days</Label>
+                        <p className="text-sm text-muted-foreground">
+                          Excused and other neutral codes don't count towards rates; otherwise they count as days missed
+                        </p>
+                      </div>
+                      <Switch 
+                        id="excludeNeutral" 
+                        checked={attendanceSettings.metricRules.excludeNeutral}
+                        onCheckedChange={(checked) => setAttendanceSettings(prev => ({ ...prev, metricRules: { ...prev.metricRules, excludeNeutral: checked } }))}
+                      />
+                    </div>
+                  </div>
+                </div>
+
+                <Separator />
+
+                <div className="space-y-4">
+                  <h3 className="text-lg font-medium flex items-center">
+                    <AlarmClock className="h-4 w-4 mr-2" />
+                    Register Reminders
+                  </h3>
+                  <p className="text-sm text-muted-foreground">
+                    On school days, classes whose register hasn't been started are chased automatically.
+                    The dashboard flags registers as missing or not submitted from the reminder time.
+                    Leave a time empty to turn that step off.
+                  </p>
+
+                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="registerReminderTime">Remind Teacher At</Label>
+                      <Input 
+                        id="registerReminderTime" 
+                        type="time" 
+                        value={attendanceSettings.registerReminderTime || ""} 
+                        onChange={(e) => setAttendanceSettings(prev => ({ ...prev, registerReminderTime: e.target.value || null }))}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="registerEscalationTime">Tell the Office At</Label>
+                      <Input 
+                        id="registerEscalationTime" 
+                        type="time" 
+                        value={attendanceSettings.registerEscalationTime || ""} 
+                        onChange={(e) => setAttendanceSettings(prev => ({ ...prev, registerEscalationTime: e.target.value || null }))}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="officeEmail">Office Email</Label>
+                      <Input 
+                        id="officeEmail" 
+                        type="email" 
+                        placeholder="office@school.edu"
+                        value={attendanceSettings.officeEmail || ""} 
+                        onChange={(e) => setAttendanceSettings(prev => ({ ...prev, officeEmail: e.target.value }))}
+                      />
+                    </div>
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    Teachers are notified in the app if they sign in with their class's homeroom teacher email,
+                    and sent an email there the same way as absence notifications. Every admin, and the office
+                    email, hear about registers still missing.
+                  </p>
+                </div>
 
                 <Separator />
 
@@ -203,6 +414,7 @@ const Settings = () => {
                 <Button 
                   onClick={handleSaveSchoolSettings} 
                   className="w-full sm:w-auto flex items-center gap-2"
+                  disabled={isSaving}
                 >
                   <Save className="h-4 w-4" />
                   Save Settings
@@ -210,6 +422,26 @@ const Settings = () => {
               </CardFooter>
             </Card>
           </TabsContent>
+
+          <TabsContent value="schedule">
+            <BellSchedule />
+          </TabsContent>
+
+          <TabsContent value="calendar">
+            <SchoolCalendarSettings />
+          </TabsContent>
+
+          <TabsContent value="years">
+            <AcademicYears />
+          </TabsContent>
+
+          <TabsContent value="codes">
+            <AttendanceCodes />
+          </TabsContent>
+
+          <TabsContent value="reasons">
+            <AbsenceReasons />
+          </TabsContent>
         </Tabs>
       </div>
     </MainLayout>
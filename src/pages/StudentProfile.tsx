@@ -0,0 +1,551 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import MainLayout from "@/components/layout/MainLayout";
+import AcademicYearSelect from "@/components/dashboard/AcademicYearSelect";
+import AttendanceHeatmap from "@/components/students/AttendanceHeatmap";
+import StudentFormDialog from "@/components/students/StudentFormDialog";
+import TransferStudentDialog from "@/components/students/TransferStudentDialog";
+import StatCard from "@/components/dashboard/StatCard";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { ArrowLeft, ArrowRightLeft, CalendarCheck, Clock, Mail, Pencil, Phone, Trash2, UserX } from "lucide-react";
+import { useToast } from "@/components/ui/use-toast";
+import {
+  getStudent,
+  getStudentAttendance,
+  getStudentNotes,
+  getStudentNotifications,
+  updateStudent,
+  addStudentNote,
+  deleteStudentNote,
+  getAcademicYears,
+  getAbsenceReasons,
+  getAttendanceCodes,
+  getClasses,
+  getClassEnrollments,
+  getPeriods,
+  getSchoolCalendar,
+  getSchoolSettings
+} from "@/lib/supabaseService";
+import { rollUpDailyAttendance, SESSION_LABELS } from "@/lib/attendanceRollup";
+import { DEFAULT_METRIC_RULES, calculateAttendanceRate, formatRate, getTermAttendance } from "@/lib/metrics";
+import { DEFAULT_ATTENDANCE_CODES, getStatusLabel } from "@/lib/attendanceCodes";
+import { formatMinutesLate } from "@/lib/arrivalTimes";
+import { isInstructionalDay } from "@/lib/schoolCalendar";
+import { addDays, getToday } from "@/lib/dateUtils";
+import { getYearRange } from "@/lib/academicYears";
+import { AttendanceRecord, DateRange } from "@/lib/types";
+
+const StudentProfile = () => {
+  const { id } = useParams<{ id: string }>();
+  const [selectedYearId, setSelectedYearId] = useState<string | null>(null);
+  const [newNote, setNewNote] = useState("");
+  const [isEditing, setIsEditing] = useState(false);
+  const [isTransferring, setIsTransferring] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const today = getToday();
+
+  const { data: student, isLoading: isLoadingStudent } = useQuery({
+    queryKey: ['student', id],
+    queryFn: () => getStudent(id!),
+    enabled: !!id
+  });
+
+  const { data: academicYears = [] } = useQuery({
+    queryKey: ['academic-years'],
+    queryFn: getAcademicYears
+  });
+
+  // Default to the current year once the years have loaded
+  useEffect(() => {
+    if (!selectedYearId && academicYears.length > 0) {
+      setSelectedYearId((academicYears.find(year => year.isCurrent) || academicYears[0]).id);
+    }
+  }, [academicYears, selectedYearId]);
+
+  const selectedYear = academicYears.find(year => year.id === selectedYearId) || null;
+  // Without academic years, show the last twelve months
+  const range: DateRange = selectedYear ? getYearRange(selectedYear) : { from: addDays(today, -364), to: today };
+
+  const { data: attendanceCodes = DEFAULT_ATTENDANCE_CODES } = useQuery({
+    queryKey: ['attendance-codes'],
+    queryFn: getAttendanceCodes
+  });
+
+  const { data: periods = [] } = useQuery({
+    queryKey: ['periods'],
+    queryFn: getPeriods
+  });
+
+  const { data: absenceReasons = [] } = useQuery({
+    queryKey: ['absence-reasons', 'all'],
+    queryFn: () => getAbsenceReasons(true)
+  });
+
+  const { data: classes = [] } = useQuery({
+    queryKey: ['classes'],
+    queryFn: getClasses
+  });
+
+  const { data: schoolCalendar } = useQuery({
+    queryKey: ['school-calendar'],
+    queryFn: getSchoolCalendar
+  });
+
+  const { data: schoolSettings } = useQuery({
+    queryKey: ['school-settings'],
+    queryFn: getSchoolSettings
+  });
+  const metricRules = schoolSettings?.metricRules ?? DEFAULT_METRIC_RULES;
+
+  const { data: attendance, isLoading: isLoadingAttendance } = useQuery({
+    queryKey: ['student-attendance', id],
+    queryFn: async () => {
+      const [records, periods, codes, calendar] = await Promise.all([
+        getStudentAttendance(id!),
+        getPeriods(),
+        getAttendanceCodes(),
+        getSchoolCalendar()
+      ]);
+
+      // Rates only count school days, as on the dashboard
+      const days = rollUpDailyAttendance(records, periods, codes)
+        .filter(day => isInstructionalDay(day.date, calendar));
+
+      return { records, days };
+    },
+    enabled: !!id
+  });
+
+  const { data: enrollments = [] } = useQuery({
+    queryKey: ['class-enrollments', id],
+    queryFn: () => getClassEnrollments([id!]),
+    enabled: !!id
+  });
+
+  const { data: notes = [] } = useQuery({
+    queryKey: ['student-notes', id],
+    queryFn: () => getStudentNotes(id!),
+    enabled: !!id
+  });
+
+  const { data: notifications = [] } = useQuery({
+    queryKey: ['student-notifications', id],
+    queryFn: () => getStudentNotifications(id!),
+    enabled: !!id
+  });
+
+  const addNoteMutation = useMutation({
+    mutationFn: (note: string) => addStudentNote(id!, note),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['student-notes', id] });
+      setNewNote("");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error adding note",
+        description: error.message || "There was a problem saving the note.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const updateStudentMutation = useMutation({
+    mutationFn: updateStudent,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['student', id] });
+      queryClient.invalidateQueries({ queryKey: ['students'] });
+      queryClient.invalidateQueries({ queryKey: ['students-dashboard'] });
+      setIsEditing(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error saving student",
+        description: error.message || "There was a problem saving the student.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const deleteNoteMutation = useMutation({
+    mutationFn: deleteStudentNote,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['student-notes', id] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error deleting note",
+        description: error.message || "There was a problem deleting the note.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const yearDays = useMemo(
+    () => (attendance?.days || []).filter(day => day.date >= range.from && day.date <= range.to),
+    [attendance, range.from, range.to]
+  );
+
+  // Newest first, so the latest registers are at the top of the history
+  const yearRecords = useMemo(
+    () => (attendance?.records || [])
+      .filter(record => record.date >= range.from && record.date <= range.to)
+      .sort((a, b) => b.date.localeCompare(a.date)),
+    [attendance, range.from, range.to]
+  );
+
+  const termAttendance = useMemo(
+    () => getTermAttendance(
+      yearDays,
+      (schoolCalendar?.terms || []).filter(term => term.startDate >= range.from && term.startDate <= range.to),
+      academicYears,
+      metricRules
+    ),
+    [yearDays, schoolCalendar, academicYears, metricRules, range.from, range.to]
+  );
+
+  const periodNames = new Map(periods.map(period => [period.id, period.name]));
+  const reasonNames = new Map(absenceReasons.map(reason => [reason.id, reason.name]));
+  const homeroomClass = classes.find(schoolClass => schoolClass.name === student?.class);
+
+  const getRegisterLabel = (record: AttendanceRecord) => {
+    if (record.periodId) return periodNames.get(record.periodId) || "Lesson";
+    if (record.session) return SESSION_LABELS[record.session];
+    return "Whole day";
+  };
+
+  const handleAddNote = () => {
+    if (!newNote.trim()) return;
+    addNoteMutation.mutate(newNote.trim());
+  };
+
+  if (isLoadingStudent) {
+    return (
+      <MainLayout>
+        <div className="p-8 text-center">Loading student...</div>
+      </MainLayout>
+    );
+  }
+
+  if (!student) {
+    return (
+      <MainLayout>
+        <div className="p-8 text-center space-y-4">
+          <p>This student could not be found.</p>
+          <Button asChild variant="outline">
+            <Link to="/students">Back to Students</Link>
+          </Button>
+        </div>
+      </MainLayout>
+    );
+  }
+
+  const daysAbsent = yearDays.reduce((sum, day) => sum + day.absenceDays, 0);
+  const daysLate = yearDays.filter(day => day.category === 'present' && (day.status === 'late' || day.minutesLate > 0)).length;
+
+  return (
+    <MainLayout>
+      <div className="space-y-8">
+        <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+          <div>
+            <Link to="/students" className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground mb-2">
+              <ArrowLeft className="h-4 w-4 mr-1" />
+              Students
+            </Link>
+            <h1 className="text-3xl font-bold mb-1 flex items-center gap-3">
+              {student.firstName} {student.lastName}
+              {student.graduatedAt && <Badge variant="secondary">Graduated</Badge>}
+              {student.deletedAt && <Badge variant="destructive">In recycle bin</Badge>}
+            </h1>
+            <p className="text-muted-foreground">
+              {student.studentId} · Class {student.class} · Grade {student.gradeLevel}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            {!student.graduatedAt && (
+              <>
+                <Button variant="outline" onClick={() => setIsEditing(true)} className="flex items-center gap-2">
+                  <Pencil className="h-4 w-4" />
+                  Edit
+                </Button>
+                <Button variant="outline" onClick={() => setIsTransferring(true)} className="flex items-center gap-2">
+                  <ArrowRightLeft className="h-4 w-4" />
+                  Transfer
+                </Button>
+              </>
+            )}
+            <AcademicYearSelect
+              years={academicYears}
+              value={selectedYearId}
+              onChange={setSelectedYearId}
+            />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <StatCard
+            title="Attendance Rate"
+            value={formatRate(calculateAttendanceRate(yearDays, metricRules))}
+            icon={<CalendarCheck className="h-4 w-4" />}
+            description={selectedYear ? selectedYear.name : "Last 12 months"}
+          />
+          <StatCard
+            title="Days Absent"
+            value={daysAbsent}
+            icon={<UserX className="h-4 w-4" />}
+            description={`Out of ${yearDays.length} school days marked`}
+          />
+          <StatCard
+            title="Days Late"
+            value={daysLate}
+            icon={<Clock className="h-4 w-4" />}
+          />
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Contact Details</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3 text-sm">
+              <div className="flex items-center gap-2">
+                <Mail className="h-4 w-4 text-muted-foreground" />
+                {student.email || <span className="text-muted-foreground">No email address</span>}
+              </div>
+              <div className="flex items-center gap-2">
+                <Phone className="h-4 w-4 text-muted-foreground" />
+                {student.contactPhone || <span className="text-muted-foreground">No phone number</span>}
+              </div>
+              {homeroomClass?.homeroomTeacher && (
+                <div>
+                  <span className="text-muted-foreground">Homeroom teacher: </span>
+                  {homeroomClass.homeroomTeacher}
+                  {homeroomClass.room && ` (room ${homeroomClass.room})`}
+                </div>
+              )}
+              {enrollments.length > 0 && (
+                <div className="pt-2">
+                  <p className="font-medium mb-1">Class history</p>
+                  <ul className="space-y-1">
+                    {[...enrollments].reverse().map((enrollment) => (
+                      <li key={enrollment.id} className="flex justify-between gap-2">
+                        <span>{enrollment.className}</span>
+                        <span className="text-muted-foreground">
+                          {enrollment.startDate} – {enrollment.endDate || "now"}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <CardTitle>Attendance Calendar</CardTitle>
+              <CardDescription>Hover over a day to see its status.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {schoolCalendar && !isLoadingAttendance ? (
+                <AttendanceHeatmap
+                  days={yearDays}
+                  calendar={schoolCalendar}
+                  range={range}
+                  codes={attendanceCodes}
+                />
+              ) : (
+                <div className="p-4 text-center text-muted-foreground">Loading attendance...</div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Attendance by Term</CardTitle>
+            <CardDescription>
+              The running rate covers the year so far, up to the end of each term.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Term</TableHead>
+                  <TableHead>Dates</TableHead>
+                  <TableHead>Days Marked</TableHead>
+                  <TableHead>Days Absent</TableHead>
+                  <TableHead>Term Rate</TableHead>
+                  <TableHead>Running Rate</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {termAttendance.length > 0 ? (
+                  termAttendance.map((term) => (
+                    <TableRow key={term.termId}>
+                      <TableCell className="font-medium">{term.termName}</TableCell>
+                      <TableCell>{term.startDate} – {term.endDate}</TableCell>
+                      <TableCell>{term.daysMarked}</TableCell>
+                      <TableCell>{term.absenceDays}</TableCell>
+                      <TableCell>{formatRate(term.attendanceRate)}</TableCell>
+                      <TableCell>{formatRate(term.runningRate)}</TableCell>
+                    </TableRow>
+                  ))
+                ) : (
+                  <TableRow>
+                    <TableCell colSpan={6} className="h-16 text-center">
+                      No terms are set up for this year.
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Attendance History</CardTitle>
+            <CardDescription>Every register this student was marked in.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="rounded-md border max-h-96 overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Register</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Reason</TableHead>
+                    <TableHead>Notes</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {yearRecords.length > 0 ? (
+                    yearRecords.map((record) => (
+                      <TableRow key={record.id}>
+                        <TableCell>{record.date}</TableCell>
+                        <TableCell>{getRegisterLabel(record)}</TableCell>
+                        <TableCell>
+                          <span className="inline-flex items-center gap-1">
+                            {getStatusLabel(record.status, attendanceCodes)}
+                            {record.minutesLate > 0 && (
+                              <span className="text-xs text-amber-600">({formatMinutesLate(record.minutesLate)})</span>
+                            )}
+                          </span>
+                        </TableCell>
+                        <TableCell>{record.reasonId ? reasonNames.get(record.reasonId) : "—"}</TableCell>
+                        <TableCell className="text-muted-foreground">{record.notes || ""}</TableCell>
+                      </TableRow>
+                    ))
+                  ) : (
+                    <TableRow>
+                      <TableCell colSpan={5} className="h-16 text-center">
+                        {isLoadingAttendance ? "Loading attendance..." : "No attendance recorded in this period."}
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Notes</CardTitle>
+              <CardDescription>Visible to all staff.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Textarea
+                  placeholder="Add a note about this student"
+                  value={newNote}
+                  onChange={(e) => setNewNote(e.target.value)}
+                />
+                <Button
+                  onClick={handleAddNote}
+                  disabled={!newNote.trim() || addNoteMutation.isPending}
+                  size="sm"
+                >
+                  Add Note
+                </Button>
+              </div>
+              {notes.length > 0 ? (
+                <ul className="space-y-3">
+                  {notes.map((note) => (
+                    <li key={note.id} className="flex items-start justify-between gap-2 border-b pb-3 last:border-0">
+                      <div>
+                        <p className="text-sm whitespace-pre-wrap">{note.note}</p>
+                        <p className="text-xs text-muted-foreground">{new Date(note.createdAt).toLocaleString()}</p>
+                      </div>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-8 w-8 p-0 text-destructive hover:text-destructive hover:bg-destructive/10"
+                        onClick={() => deleteNoteMutation.mutate(note.id)}
+                        disabled={deleteNoteMutation.isPending}
+                        title="Delete Note"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-sm text-muted-foreground">No notes yet.</p>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Notifications Sent</CardTitle>
+              <CardDescription>Messages sent to this student's family.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {notifications.length > 0 ? (
+                <ul className="space-y-3">
+                  {notifications.map((notification) => (
+                    <li key={notification.id} className="border-b pb-3 last:border-0">
+                      <div className="flex items-center gap-2 text-xs text-muted-foreground mb-1">
+                        {notification.channel === 'email' ? <Mail className="h-3 w-3" /> : <Phone className="h-3 w-3" />}
+                        {new Date(notification.sentAt).toLocaleString()}
+                        {!notification.success && <Badge variant="destructive">Failed</Badge>}
+                      </div>
+                      <p className="text-sm">{notification.message}</p>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-sm text-muted-foreground">No notifications have been sent.</p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      <TransferStudentDialog
+        student={isTransferring ? student : null}
+        onOpenChange={setIsTransferring}
+      />
+
+      <StudentFormDialog
+        open={isEditing}
+        onOpenChange={setIsEditing}
+        student={student}
+        onSave={(values) => updateStudentMutation.mutate(values)}
+        isSaving={updateStudentMutation.isPending}
+      />
+    </MainLayout>
+  );
+};
+
+export default StudentProfile;
@@ -1,23 +1,51 @@
 import MainLayout from "@/components/layout/MainLayout";
 import StudentList from "@/components/attendance/StudentList";
 import RecycleBin from "@/components/students/RecycleBin";
+import StudentFormDialog from "@/components/students/StudentFormDialog";
+import TransferStudentDialog from "@/components/students/TransferStudentDialog";
+import AttendanceHistoryDialog from "@/components/attendance/AttendanceHistoryDialog";
+import CorrectionRequestDialog from "@/components/attendance/CorrectionRequestDialog";
+import RapidRegister from "@/components/attendance/RapidRegister";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
-import { getStudents, getDeletedStudents, getAttendanceForDate, recordAttendance, moveStudentToBin, restoreStudent, deleteStudent } from "@/lib/supabaseService";
-import { AttendanceRecord, Student } from "@/lib/types";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { getStudents, getDeletedStudents, getAttendanceForDate, getAttendanceCodes, getAbsenceReasons, getClasses, getPeriods, getSchoolCalendar, getRegisterSubmissions, recordAttendance, submitRegister, unlockRegister, addStudents, updateStudent, moveStudentToBin, restoreStudent, deleteStudent } from "@/lib/supabaseService";
+import { AttendanceRecord, AttendanceSession, RegisterSlot, Student } from "@/lib/types";
+import { SESSION_LABELS } from "@/lib/attendanceRollup";
+import { DEFAULT_ATTENDANCE_CODES, getStatusLabel } from "@/lib/attendanceCodes";
+import { getNonInstructionalReason } from "@/lib/schoolCalendar";
+import { getToday, formatDateOnly } from "@/lib/dateUtils";
+import { applyQueuedMarks, saveMarks } from "@/lib/offlineQueue";
+import { useAttendanceSync } from "@/hooks/use-attendance-sync";
+import { useRealtimeAttendance } from "@/hooks/use-realtime-attendance";
+import { useRegisterPresence } from "@/hooks/use-register-presence";
 import { useState, useEffect } from "react";
-import { Calendar, Trash } from "lucide-react";
+import { Calendar, CheckCheck, Clock, Keyboard, Lock, Trash, UserPlus, Users } from "lucide-react";
 import { useToast } from "@/components/ui/use-toast";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/contexts/AuthContext";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Button } from "@/components/ui/button";
 
 const Students = () => {
-  const [date, setDate] = useState<string>(() => new Date().toISOString().split('T')[0]);
+  const [date, setDate] = useState<string>(() => getToday());
+  // "day", "am", "pm" or a period id
+  const [register, setRegister] = useState<string>("day");
+  // "all" or a class name; registers are submitted one class at a time
+  const [selectedClass, setSelectedClass] = useState<string>("all");
+  const [isConfirmingSubmit, setIsConfirmingSubmit] = useState(false);
+  const [isRapidMode, setIsRapidMode] = useState(false);
   const [studentToDelete, setStudentToDelete] = useState<Student | null>(null);
   const [studentToPermanentlyDelete, setStudentToPermanentlyDelete] = useState<Student | null>(null);
+  const [isStudentFormOpen, setIsStudentFormOpen] = useState(false);
+  const [studentToEdit, setStudentToEdit] = useState<Student | null>(null);
+  const [studentToTransfer, setStudentToTransfer] = useState<Student | null>(null);
+  const [historyStudent, setHistoryStudent] = useState<Student | null>(null);
+  const [correctionStudent, setCorrectionStudent] = useState<Student | null>(null);
   const [activeTab, setActiveTab] = useState<string>("active");
   const { toast } = useToast();
+  const { user, isAdmin } = useAuth();
   const queryClient = useQueryClient();
 
   const { 
@@ -39,20 +67,81 @@ const Students = () => {
     enabled: activeTab === 'bin'
   });
 
+  const { data: classes = [] } = useQuery({
+    queryKey: ['classes'],
+    queryFn: getClasses
+  });
+
+  const { data: periods = [] } = useQuery({
+    queryKey: ['periods'],
+    queryFn: getPeriods
+  });
+
+  const { data: attendanceCodes = DEFAULT_ATTENDANCE_CODES } = useQuery({
+    queryKey: ['attendance-codes'],
+    queryFn: getAttendanceCodes
+  });
+
+  const { data: absenceReasons = [] } = useQuery({
+    queryKey: ['absence-reasons'],
+    queryFn: () => getAbsenceReasons()
+  });
+
+  const { data: schoolCalendar } = useQuery({
+    queryKey: ['school-calendar'],
+    queryFn: getSchoolCalendar
+  });
+
+  // Registers can still be taken on other days, but they won't count towards rates
+  const nonInstructionalReason = schoolCalendar ? getNonInstructionalReason(date, schoolCalendar) : null;
+
+  const selectedPeriod = periods.find(p => p.id === register) || null;
+  const selectedSession: AttendanceSession | null = register === "am" || register === "pm" ? register : null;
+  const registerSlot: RegisterSlot = { periodId: selectedPeriod ? selectedPeriod.id : null, session: selectedSession };
+  const registerLabel = selectedPeriod
+    ? selectedPeriod.name
+    : selectedSession ? SESSION_LABELS[selectedSession] : null;
+
   const { 
-    data: attendanceRecords = [], 
+    data: serverRecords = [], 
     isLoading: isLoadingAttendance,
     error: attendanceError 
   } = useQuery({
-    queryKey: ['attendance', date],
-    queryFn: () => getAttendanceForDate(date),
+    queryKey: ['attendance', date, register],
+    queryFn: () => getAttendanceForDate(date, registerSlot),
     enabled: !!date && activeTab === 'active'
   });
 
+  // Marks still waiting on this device show in place of the server's
+  const { queuedMarks, handleSyncResult } = useAttendanceSync();
+  const attendanceRecords = applyQueuedMarks(serverRecords, queuedMarks, date, registerSlot);
+  const pendingStudentIds = queuedMarks
+    .filter(entry => entry.date === date && (entry.slot.periodId || null) === registerSlot.periodId && (entry.slot.session || null) === registerSlot.session)
+    .map(entry => entry.mark.studentId);
+
+  const { data: registerSubmissions = [] } = useQuery({
+    queryKey: ['register-submissions', date],
+    queryFn: () => getRegisterSubmissions(date),
+    enabled: !!date && activeTab === 'active'
+  });
+
+  // Live changes from other staff, and who else has this class's register open
+  useRealtimeAttendance();
+  const registerEditors = useRegisterPresence(selectedClass === "all" ? null : { className: selectedClass, date });
+  const otherEditorNames = [...new Set(registerEditors
+    .filter(e => e.className === selectedClass && e.date === date)
+    .map(e => e.name))];
+
+  const lockedClasses = registerSubmissions.map(s => s.className);
+  const classSubmission = registerSubmissions.find(s => s.className === selectedClass) || null;
+  const classStudents = students.filter(s => !s.deletedAt && s.class === selectedClass);
+  const unmarkedCount = classStudents.filter(s => !attendanceRecords.some(r => r.studentId === s.id)).length;
+
   const recordAttendanceMutation = useMutation({
-    mutationFn: (data: Omit<AttendanceRecord, 'id'>) => recordAttendance(data),
+    mutationFn: (data: Omit<AttendanceRecord, 'id'>) => recordAttendance(data, user?.id),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['attendance', date] });
+      queryClient.invalidateQueries({ queryKey: ['attendance-history'] });
     },
     onError: (error: any) => {
       toast({
@@ -63,6 +152,84 @@ const Students = () => {
     }
   });
 
+  // Marks, reasons and notes are queued on this device and sent in one batch, so they
+  // survive a dropped connection. Runs offline too, hence networkMode.
+  const recordBatchMutation = useMutation({
+    mutationFn: (marks: Pick<AttendanceRecord, 'studentId' | 'status' | 'notes' | 'reasonId'>[]) =>
+      saveMarks(date, registerSlot, marks, serverRecords),
+    networkMode: 'always',
+    onSuccess: handleSyncResult,
+    onError: (error: Error) => {
+      toast({
+        title: "Error recording attendance",
+        description: error.message || "There was a problem updating the attendance records.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const submitRegisterMutation = useMutation({
+    mutationFn: () => submitRegister(selectedClass, date),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['register-submissions'] });
+      toast({
+        title: "Register submitted",
+        description: `The ${selectedClass} register for ${formatDateOnly(date)} is now locked.`,
+      });
+      setIsConfirmingSubmit(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error submitting register",
+        description: error.message || "There was a problem submitting the register.",
+        variant: "destructive",
+      });
+      setIsConfirmingSubmit(false);
+    }
+  });
+
+  const unlockRegisterMutation = useMutation({
+    mutationFn: (submissionId: string) => unlockRegister(submissionId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['register-submissions'] });
+      toast({
+        title: "Register unlocked",
+        description: `The ${selectedClass} register can be changed again.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error unlocking register",
+        description: error.message || "There was a problem unlocking the register.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const saveStudentMutation = useMutation({
+    mutationFn: (student: Student) => student.id
+      ? updateStudent(student)
+      : addStudents([{ ...student, id: crypto.randomUUID() }]),
+    onSuccess: (_, student) => {
+      queryClient.invalidateQueries({ queryKey: ['students'] });
+      queryClient.invalidateQueries({ queryKey: ['student', student.id] });
+      queryClient.invalidateQueries({ queryKey: ['students-dashboard'] });
+      queryClient.invalidateQueries({ queryKey: ['class-summaries'] });
+      toast({
+        title: student.id ? "Student updated" : "Student added",
+        description: `${student.firstName} ${student.lastName} has been saved.`,
+      });
+      setIsStudentFormOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error saving student",
+        description: error.message || "There was a problem saving the student.",
+        variant: "destructive",
+      });
+    }
+  });
+
   const moveStudentToBinMutation = useMutation({
     mutationFn: (studentId: string) => moveStudentToBin(studentId),
     onSuccess: () => {
@@ -128,26 +295,70 @@ const Students = () => {
   });
 
   const handleRecordAttendance = (studentId: string, status: AttendanceRecord['status']) => {
-    recordAttendanceMutation.mutate({
+    const existing = attendanceRecords.find(r => r.studentId === studentId);
+
+    // Switching e.g. absent to excused keeps the reason and note already given
+    recordBatchMutation.mutate([{
       studentId,
-      date,
       status,
-      notes: ""
+      notes: existing?.notes || "",
+      reasonId: existing?.reasonId
+    }]);
+
+    toast({
+      title: `Marked as ${getStatusLabel(status, attendanceCodes)}`,
+      description: `Student attendance updated for ${formatDateOnly(date)}${registerLabel ? ` (${registerLabel})` : ''}`,
     });
+  };
 
-    const statusMessages = {
-      present: "Present",
-      absent: "Absent",
-      late: "Late",
-      excused: "Excused"
-    };
+  // Everyone not yet marked becomes present; the teacher then only changes the exceptions
+  const handleMarkAllPresent = () => {
+    const unmarked = classStudents.filter(s => !attendanceRecords.some(r => r.studentId === s.id));
 
-    toast({
-      title: `Marked as ${statusMessages[status]}`,
-      description: `Student attendance updated for ${new Date(date).toLocaleDateString()}`,
+    recordBatchMutation.mutate(
+      unmarked.map(student => ({ studentId: student.id, status: 'present', notes: "" })),
+      {
+        onSuccess: () => {
+          toast({
+            title: "Marked as Present",
+            description: `${unmarked.length} ${selectedClass} students marked present for ${formatDateOnly(date)}${registerLabel ? ` (${registerLabel})` : ''}`,
+          });
+        }
+      }
+    );
+  };
+
+  const handleRecordTimes = (studentId: string, times: Pick<AttendanceRecord, 'arrivalTime' | 'departureTime'>) => {
+    const existing = attendanceRecords.find(r => r.studentId === studentId);
+
+    // An arrival time decides present or late; a departure keeps the current status
+    recordAttendanceMutation.mutate({
+      studentId,
+      date,
+      ...registerSlot,
+      status: existing ? existing.status : "present",
+      notes: existing?.notes || "",
+      ...times
     });
   };
 
+  const handleRecordReason = (studentId: string, details: Pick<AttendanceRecord, 'reasonId' | 'notes'>) => {
+    const existing = attendanceRecords.find(r => r.studentId === studentId);
+    if (!existing) return;
+
+    recordBatchMutation.mutate([{
+      studentId,
+      status: existing.status,
+      reasonId: details.reasonId !== undefined ? details.reasonId : existing.reasonId,
+      notes: details.notes !== undefined ? details.notes : existing.notes || ""
+    }]);
+  };
+
+  const openStudentForm = (student: Student | null) => {
+    setStudentToEdit(student);
+    setIsStudentFormOpen(true);
+  };
+
   const handleDeleteStudent = (studentId: string) => {
     console.log("Preparing to move student to bin:", studentId);
     const student = students.find(s => s.id === studentId);
@@ -229,6 +440,7 @@ const Students = () => {
     isLoadingDeletedStudents || 
     isLoadingAttendance || 
     recordAttendanceMutation.isPending || 
+    recordBatchMutation.isPending || 
     moveStudentToBinMutation.isPending || 
     restoreStudentMutation.isPending || 
     deleteStudentMutation.isPending;
@@ -244,23 +456,57 @@ const Students = () => {
             </p>
           </div>
           {activeTab === 'active' && (
-            <div className="flex items-center gap-2">
+            <div className="flex flex-wrap items-center gap-2">
+              <Button onClick={() => openStudentForm(null)} className="flex items-center gap-2">
+                <UserPlus className="h-4 w-4" />
+                Add Student
+              </Button>
               <Calendar className="h-4 w-4 text-muted-foreground" />
               <Input
                 type="date"
                 value={date}
                 onChange={(e) => setDate(e.target.value)}
                 className="w-auto"
-                disabled={isLoading}
+                disabled={isLoading || isRapidMode}
               />
+              <Clock className="h-4 w-4 text-muted-foreground ml-2" />
+              <Select value={register} onValueChange={setRegister} disabled={isLoading || isRapidMode}>
+                <SelectTrigger className="w-[200px]">
+                  <SelectValue placeholder="Select register" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="day">Whole day</SelectItem>
+                  <SelectItem value="am">{SESSION_LABELS.am}</SelectItem>
+                  <SelectItem value="pm">{SESSION_LABELS.pm}</SelectItem>
+                  {periods.map(period => (
+                    <SelectItem key={period.id} value={period.id}>
+                      {period.name} ({period.startTime}–{period.endTime})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Users className="h-4 w-4 text-muted-foreground ml-2" />
+              <Select value={selectedClass} onValueChange={setSelectedClass} disabled={isLoading || isRapidMode}>
+                <SelectTrigger className="w-[160px]">
+                  <SelectValue placeholder="Select class" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All classes</SelectItem>
+                  {classes.map(schoolClass => (
+                    <SelectItem key={schoolClass.id} value={schoolClass.name}>
+                      {schoolClass.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             </div>
           )}
         </div>
 
         <Tabs defaultValue="active" value={activeTab} onValueChange={setActiveTab}>
           <TabsList>
-            <TabsTrigger value="active">Active Students</TabsTrigger>
-            <TabsTrigger value="bin" className="flex items-center gap-1">
+            <TabsTrigger value="active" disabled={isRapidMode}>Active Students</TabsTrigger>
+            <TabsTrigger value="bin" className="flex items-center gap-1" disabled={isRapidMode}>
               <Trash className="h-4 w-4" />
               Recycle Bin
               {deletedStudents.length > 0 && (
@@ -276,16 +522,79 @@ const Students = () => {
               <CardHeader>
                 <CardTitle>Attendance Sheet</CardTitle>
                 <CardDescription>
-                  {new Date(date).toLocaleDateString('en-US', {
+                  {formatDateOnly(date, {
                     weekday: 'long',
                     year: 'numeric',
                     month: 'long',
                     day: 'numeric'
-                  })}
+                  }, 'en-US')}
+                  {selectedPeriod && ` · ${selectedPeriod.name}, ${selectedPeriod.startTime}–${selectedPeriod.endTime}`}
+                  {selectedSession && ` · ${SESSION_LABELS[selectedSession]}`}
                 </CardDescription>
+                {nonInstructionalReason && (
+                  <p className="text-sm text-amber-600">
+                    Not a school day ({nonInstructionalReason}). Attendance taken on this day is not counted in attendance rates.
+                  </p>
+                )}
+                {otherEditorNames.length > 0 && (
+                  <p className="flex items-center gap-1 text-sm text-amber-600">
+                    <Users className="h-4 w-4" />
+                    {otherEditorNames.join(", ")} {otherEditorNames.length === 1 ? "also has" : "also have"} this register open.
+                  </p>
+                )}
+                {selectedClass === "all" ? (
+                  lockedClasses.length > 0 && (
+                    <p className="text-sm text-muted-foreground">
+                      Submitted and locked: {lockedClasses.join(", ")}. Choose a class to submit its register.
+                    </p>
+                  )
+                ) : classSubmission ? (
+                  <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+                    <Lock className="h-4 w-4" />
+                    Submitted by {classSubmission.submittedByName || "unknown"} at {new Date(classSubmission.submittedAt).toLocaleTimeString()}. Changes need an admin to unlock the register, or a correction request.
+                    {isAdmin && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => unlockRegisterMutation.mutate(classSubmission.id)}
+                        disabled={unlockRegisterMutation.isPending}
+                      >
+                        {unlockRegisterMutation.isPending ? "Unlocking..." : "Unlock"}
+                      </Button>
+                    )}
+                  </div>
+                ) : !isRapidMode && (
+                  <div className="flex flex-wrap gap-2">
+                    <Button size="sm" variant="outline" onClick={() => setIsRapidMode(true)} disabled={isLoading || classStudents.length === 0}>
+                      <Keyboard className="h-4 w-4 mr-1" />
+                      Rapid Register
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={handleMarkAllPresent} disabled={isLoading || unmarkedCount === 0}>
+                      <CheckCheck className="h-4 w-4 mr-1" />
+                      {unmarkedCount > 0 && unmarkedCount < classStudents.length
+                        ? `Mark ${unmarkedCount} Unmarked Present`
+                        : "Mark All Present"}
+                    </Button>
+                    <Button size="sm" onClick={() => setIsConfirmingSubmit(true)} disabled={isLoading || classStudents.length === 0}>
+                      Submit {selectedClass} Register
+                    </Button>
+                  </div>
+                )}
               </CardHeader>
               <CardContent>
-                {isLoading ? (
+                {/* Rapid mode stays mounted while saving so its queue isn't lost */}
+                {isRapidMode ? (
+                  <RapidRegister
+                    students={[...classStudents].sort((a, b) => a.lastName.localeCompare(b.lastName) || a.firstName.localeCompare(b.firstName))}
+                    attendanceRecords={attendanceRecords}
+                    attendanceCodes={attendanceCodes}
+                    lockedClasses={lockedClasses}
+                    registerLabel={registerLabel}
+                    onSave={(marks) => recordBatchMutation.mutateAsync(marks)}
+                    isSaving={recordBatchMutation.isPending}
+                    onExit={() => setIsRapidMode(false)}
+                  />
+                ) : isLoading ? (
                   <div className="flex justify-center py-8">
                     <div className="animate-spin h-8 w-8 border-4 border-primary border-t-transparent rounded-full"></div>
                   </div>
@@ -293,9 +602,21 @@ const Students = () => {
                   <StudentList
                     students={students.filter(s => !s.deletedAt)}
                     date={date}
+                    registerLabel={registerLabel}
                     attendanceRecords={attendanceRecords}
+                    attendanceCodes={attendanceCodes}
+                    absenceReasons={absenceReasons}
                     onRecordAttendance={handleRecordAttendance}
+                    onRecordTimes={handleRecordTimes}
+                    onRecordReason={handleRecordReason}
+                    pendingStudentIds={pendingStudentIds}
+                    onViewHistory={setHistoryStudent}
+                    onRequestCorrection={setCorrectionStudent}
+                    onEditStudent={openStudentForm}
+                    onTransferStudent={setStudentToTransfer}
                     onDeleteStudent={handleDeleteStudent}
+                    selectedClass={selectedClass === "all" ? null : selectedClass}
+                    lockedClasses={lockedClasses}
                     isLoading={isLoading}
                   />
                 )}
@@ -330,6 +651,64 @@ const Students = () => {
         </Tabs>
       </div>
 
+      <StudentFormDialog
+        open={isStudentFormOpen}
+        onOpenChange={setIsStudentFormOpen}
+        student={studentToEdit}
+        otherStudents={students}
+        onSave={(student) => saveStudentMutation.mutate(student)}
+        isSaving={saveStudentMutation.isPending}
+      />
+
+      <AttendanceHistoryDialog
+        student={historyStudent}
+        date={date}
+        onOpenChange={(open) => !open && setHistoryStudent(null)}
+        attendanceCodes={attendanceCodes}
+        absenceReasons={absenceReasons}
+        periods={periods}
+      />
+
+      <CorrectionRequestDialog
+        student={correctionStudent}
+        date={date}
+        registerSlot={registerSlot}
+        registerLabel={registerLabel}
+        record={correctionStudent ? attendanceRecords.find(r => r.studentId === correctionStudent.id) : undefined}
+        attendanceCodes={attendanceCodes}
+        absenceReasons={absenceReasons}
+        onOpenChange={(open) => !open && setCorrectionStudent(null)}
+      />
+
+      <TransferStudentDialog
+        student={studentToTransfer}
+        onOpenChange={(open) => !open && setStudentToTransfer(null)}
+      />
+
+      <AlertDialog open={isConfirmingSubmit} onOpenChange={setIsConfirmingSubmit}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Submit the {selectedClass} register?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This locks attendance for {selectedClass} on {formatDateOnly(date)}, on every register for the day.
+              After submitting, changes need an admin to unlock the register.
+              {unmarkedCount > 0 && (
+                <> <strong>{unmarkedCount} of {classStudents.length} students</strong> have no mark on the {registerLabel || "whole day"} register.</>
+              )}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={submitRegisterMutation.isPending}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => submitRegisterMutation.mutate()}
+              disabled={submitRegisterMutation.isPending}
+            >
+              {submitRegisterMutation.isPending ? 'Submitting...' : 'Submit Register'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       <AlertDialog open={!!studentToDelete} onOpenChange={(open) => !open && setStudentToDelete(null)}>
         <AlertDialogContent>
           <AlertDialogHeader>
@@ -13,7 +13,7 @@ const corsHeaders = {
 
 interface RequestBody {
   studentId: string;
-  date: string;
+  date?: string; // YYYY-MM-DD, defaults to today at the school
   notificationType?: "sms" | "whatsapp" | "email";
   message?: string;
 }
@@ -62,6 +62,13 @@ async function sendSmsNotification(to: string, message: string): Promise<any> {
   }
 }
 
+// Today's date at the school. The function runs in UTC, so it can't use its own clock.
+async function getSchoolToday(supabase: ReturnType<typeof createClient>): Promise<string> {
+  const { data, error } = await supabase.rpc("school_today");
+  if (error) throw error;
+  return data as string;
+}
+
 serve(async (req) => {
   console.log("Processing notification request");
   
@@ -94,12 +101,12 @@ serve(async (req) => {
     
     const { studentId, date, notificationType = "sms", message } = requestBody as RequestBody;
     
-    if (!studentId || !date) {
-      console.error("Missing required parameters: studentId or date");
+    if (!studentId) {
+      console.error("Missing required parameter: studentId");
       return new Response(
         JSON.stringify({
           success: false,
-          message: "Student ID and date are required"
+          message: "Student ID is required"
         }),
         {
           status: 400,
@@ -111,6 +118,7 @@ serve(async (req) => {
     // Create Supabase client
     console.log("Creating Supabase client");
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const absenceDate = date || await getSchoolToday(supabase);
     
     // Fetch student details
     console.log(`Fetching student details for ID: ${studentId}`);
@@ -154,7 +162,7 @@ serve(async (req) => {
     const studentName = `${student.first_name} ${student.last_name}`;
     
     // Default notification message
-    const defaultMessage = `This is an automated notification from the school attendance system. ${studentName} was marked absent on ${date}. Please contact the school for more information.`;
+    const defaultMessage = `This is an automated notification from the school attendance system. ${studentName} was marked absent on ${absenceDate}. Please contact the school for more information.`;
     
     // Use custom message if provided, otherwise use default
     const notificationMessage = message || defaultMessage;
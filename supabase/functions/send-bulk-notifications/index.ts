@@ -12,7 +12,7 @@ const corsHeaders = {
 
 interface RequestBody {
   studentIds: string[];
-  date: string;
+  date?: string; // YYYY-MM-DD, defaults to today at the school
   notificationType?: "sms" | "whatsapp" | "email";
   message?: string;
 }
@@ -61,6 +61,13 @@ async function sendSmsNotification(to: string, message: string): Promise<any> {
   }
 }
 
+// Today's date at the school. The function runs in UTC, so it can't use its own clock.
+async function getSchoolToday(supabase: ReturnType<typeof createClient>): Promise<string> {
+  const { data, error } = await supabase.rpc("school_today");
+  if (error) throw error;
+  return data as string;
+}
+
 serve(async (req) => {
   console.log("Processing bulk notifications request");
   
@@ -110,6 +117,7 @@ serve(async (req) => {
     // Create Supabase client
     console.log("Creating Supabase client");
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const absenceDate = date || await getSchoolToday(supabase);
     
     // Fetch students details
     console.log(`Fetching details for ${studentIds.length} students`);
@@ -168,7 +176,7 @@ serve(async (req) => {
         const studentName = `${student.first_name} ${student.last_name}`;
         
         // Default notification message
-        const defaultMessage = `This is an automated notification from the school attendance system. ${studentName} was marked absent on ${date}. Please contact the school for more information.`;
+        const defaultMessage = `This is an automated notification from the school attendance system. ${studentName} was marked absent on ${absenceDate}. Please contact the school for more information.`;
         
         // Use custom message if provided, otherwise use default
         const notificationMessage = message || defaultMessage;
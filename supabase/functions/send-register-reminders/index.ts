@@ -0,0 +1,227 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.43.3";
+
+const supabaseUrl = Deno.env.get("SUPABASE_URL") || "";
+const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || "";
+
+// CORS headers
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// A row from get_due_register_reminders
+interface DueReminder {
+  class_name: string;
+  date: string;
+  kind: "reminder" | "escalation";
+  homeroom_teacher: string | null;
+  homeroom_teacher_email: string | null;
+  teacher_user_id: string | null;
+  students: number;
+  marked: number;
+}
+
+// Helper function to send email notification. This is the same sending path as the absence
+// notifications, which only log the email for now; in-app notifications are delivered.
+async function sendEmailNotification(to: string, subject: string, message: string): Promise<{ success: boolean; id: string; to: string }> {
+  console.log(`Sending email notification to ${to}`);
+
+  try {
+    // Simple email notification implementation using console log for now
+    console.log(`EMAIL TO: ${to}`);
+    console.log(`SUBJECT: ${subject}`);
+    console.log(`MESSAGE: ${message}`);
+
+    // Simulating successful email delivery
+    return {
+      success: true,
+      id: `email-${Date.now()}`,
+      to: to
+    };
+  } catch (error) {
+    console.error("Error sending email:", error);
+    throw error;
+  }
+}
+
+const describeRegister = (due: DueReminder): string =>
+  `The ${due.class_name} register for ${due.date} hasn't been taken (none of its ${due.students} students are marked).`;
+
+// Called every five minutes by pg_cron with the service role key (see the
+// register_reminders_delivery migration); anyone else is turned away. A reminder is
+// recorded in register_reminders once it has reached someone, so one that couldn't be
+// delivered is tried again on the next run.
+serve(async (req) => {
+  console.log("Processing register reminders");
+
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      headers: corsHeaders,
+      status: 200
+    });
+  }
+
+  try {
+    if (!supabaseUrl || !supabaseServiceKey) {
+      console.error("Missing Supabase credentials");
+      return new Response(
+        JSON.stringify({
+          success: false,
+          message: "Server configuration error: Missing Supabase credentials"
+        }),
+        {
+          status: 500,
+          headers: { ...corsHeaders, "Content-Type": "application/json" }
+        }
+      );
+    }
+
+    if (req.headers.get("Authorization") !== `Bearer ${supabaseServiceKey}`) {
+      return new Response(
+        JSON.stringify({ success: false, message: "Unauthorized" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: dueReminders, error: dueError } = await supabase.rpc("get_due_register_reminders");
+    if (dueError) throw dueError;
+
+    const due = (dueReminders || []) as DueReminder[];
+    console.log(`${due.length} register reminders due`);
+
+    if (due.length === 0) {
+      return new Response(
+        JSON.stringify({ success: true, message: "No register reminders due", sent: 0 }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Escalations go to the office: the admins in the app, and the office email
+    const [settingsResult, adminsResult] = await Promise.all([
+      supabase.from("school_settings").select("office_email").maybeSingle(),
+      supabase.from("user_roles").select("user_id").eq("role", "admin")
+    ]);
+    if (settingsResult.error) throw settingsResult.error;
+    if (adminsResult.error) throw adminsResult.error;
+
+    const officeEmail = settingsResult.data?.office_email || null;
+    const adminIds = (adminsResult.data || []).map(role => role.user_id);
+
+    const results = {
+      sent: 0,
+      skipped: 0,
+      details: [] as { className: string; kind: string; emails: string[]; inApp: number }[]
+    };
+
+    for (const reminder of due) {
+      const isEscalation = reminder.kind === "escalation";
+      const title = isEscalation
+        ? `${reminder.class_name} register still missing`
+        : `${reminder.class_name} register not taken`;
+      const message = isEscalation
+        ? `${describeRegister(reminder)}${reminder.homeroom_teacher ? ` Homeroom teacher: ${reminder.homeroom_teacher}.` : ""}`
+        : `${describeRegister(reminder)} Please take and submit it.`;
+
+      const emails = [
+        ...(isEscalation && officeEmail ? [officeEmail] : []),
+        ...(reminder.homeroom_teacher_email ? [reminder.homeroom_teacher_email] : [])
+      ];
+      const userIds = [
+        ...new Set([
+          ...(isEscalation ? adminIds : []),
+          ...(reminder.teacher_user_id ? [reminder.teacher_user_id] : [])
+        ])
+      ];
+
+      const recipients: string[] = [];
+      for (const email of emails) {
+        try {
+          await sendEmailNotification(email, title, message);
+          recipients.push(email);
+        } catch (emailError) {
+          console.error(`Failed to send email to ${email}:`, emailError);
+        }
+      }
+
+      let notified = 0;
+      if (userIds.length > 0) {
+        const { error: notifyError } = await supabase
+          .from("user_notifications")
+          .insert(userIds.map(userId => ({
+            user_id: userId,
+            title,
+            body: message,
+            link: isEscalation ? "/" : "/students"
+          })));
+
+        if (notifyError) {
+          console.warn(`Could not create in-app notifications for ${reminder.class_name}:`, notifyError);
+        } else {
+          notified = userIds.length;
+        }
+      }
+
+      if (emails.length === 0 && userIds.length === 0) {
+        console.warn(`No one to tell about the ${reminder.class_name} register: no teacher email, office email or admins`);
+        continue;
+      }
+
+      if (recipients.length === 0 && notified === 0) {
+        console.warn(`The ${reminder.class_name} ${reminder.kind} reached no one; trying again next run`);
+        continue;
+      }
+
+      // A unique violation means an overlapping run already sent this reminder
+      const { error: logError } = await supabase
+        .from("register_reminders")
+        .insert({ class: reminder.class_name, date: reminder.date, kind: reminder.kind, recipients });
+
+      if (logError) {
+        if (logError.code === "23505") {
+          results.skipped++;
+          continue;
+        }
+        throw logError;
+      }
+
+      results.sent++;
+      results.details.push({
+        className: reminder.class_name,
+        kind: reminder.kind,
+        emails: recipients,
+        inApp: notified
+      });
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        message: `Sent ${results.sent} register reminders${results.skipped ? `, ${results.skipped} already sent` : ""}.`,
+        sent: results.sent,
+        details: results.details
+      }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, "Content-Type": "application/json" }
+      }
+    );
+
+  } catch (error) {
+    console.error("Error processing register reminders:", error);
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        message: error.message || "An unknown error occurred"
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" }
+      }
+    );
+  }
+});
@@ -0,0 +1,34 @@
+-- Bell schedule: the lessons (periods) a register can be taken for
+create table if not exists public.periods (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  start_time time not null,
+  end_time time not null,
+  sort_order integer not null default 0,
+  created_at timestamptz not null default now(),
+  constraint periods_time_range check (end_time > start_time)
+);
+
+alter table public.periods enable row level security;
+
+create policy "Authenticated users can read periods"
+  on public.periods for select
+  to authenticated
+  using (true);
+
+create policy "Authenticated users can manage periods"
+  on public.periods for all
+  to authenticated
+  using (true)
+  with check (true);
+
+-- A null period_id is a whole-day register, otherwise the record is for one lesson
+alter table public.attendance_records
+  add column if not exists period_id uuid references public.periods (id) on delete cascade;
+
+create unique index if not exists attendance_records_student_date_period_key
+  on public.attendance_records (
+    student_id,
+    date,
+    coalesce(period_id, '00000000-0000-0000-0000-000000000000'::uuid)
+  );
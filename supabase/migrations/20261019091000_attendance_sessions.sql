@@ -0,0 +1,24 @@
+-- Half-day sessions: a register can be taken for the morning or afternoon
+alter table public.periods
+  add column if not exists session text not null default 'am'
+  check (session in ('am', 'pm'));
+
+-- A session register has a session and no period. Lesson registers take their
+-- session from the period, and whole-day registers have neither.
+alter table public.attendance_records
+  add column if not exists session text
+  check (session in ('am', 'pm'));
+
+alter table public.attendance_records
+  add constraint attendance_records_session_or_period
+  check (session is null or period_id is null);
+
+drop index if exists public.attendance_records_student_date_period_key;
+
+create unique index if not exists attendance_records_student_date_register_key
+  on public.attendance_records (
+    student_id,
+    date,
+    coalesce(period_id, '00000000-0000-0000-0000-000000000000'::uuid),
+    coalesce(session, '')
+  );
@@ -0,0 +1,30 @@
+-- Arrival and departure times on attendance records. minutes_late is worked out
+-- against the late cutoff when the arrival is recorded, so later cutoff changes
+-- do not rewrite history.
+alter table public.attendance_records
+  add column if not exists arrival_time time,
+  add column if not exists departure_time time,
+  add column if not exists minutes_late integer check (minutes_late >= 0);
+
+-- School-wide attendance settings (a single row)
+create table if not exists public.school_settings (
+  id boolean primary key default true check (id),
+  late_cutoff_time time not null default '08:00',
+  updated_at timestamptz not null default now()
+);
+
+insert into public.school_settings (id) values (true)
+  on conflict (id) do nothing;
+
+alter table public.school_settings enable row level security;
+
+create policy "Authenticated users can read school settings"
+  on public.school_settings for select
+  to authenticated
+  using (true);
+
+create policy "Authenticated users can update school settings"
+  on public.school_settings for update
+  to authenticated
+  using (true)
+  with check (true);
@@ -0,0 +1,54 @@
+-- Admin-defined attendance status codes. counts_as decides how a code feeds the
+-- metrics: present and absent count towards attendance and absence rates,
+-- neutral codes are left out of both.
+create table if not exists public.attendance_codes (
+  code text primary key check (code ~ '^[a-z][a-z0-9_]*$'),
+  label text not null,
+  color text not null default '#64748b',
+  icon text not null default 'circle',
+  counts_as text not null check (counts_as in ('present', 'absent', 'neutral')),
+  is_system boolean not null default false,
+  sort_order integer not null default 0,
+  created_at timestamptz not null default now()
+);
+
+insert into public.attendance_codes (code, label, color, icon, counts_as, is_system, sort_order) values
+  ('present', 'Present', '#16a34a', 'check-circle', 'present', true, 0),
+  ('absent', 'Absent', '#dc2626', 'x-circle', 'absent', true, 1),
+  ('late', 'Late', '#d97706', 'clock', 'present', true, 2),
+  ('excused', 'Excused', '#2563eb', 'alert-circle', 'neutral', true, 3)
+on conflict (code) do nothing;
+
+alter table public.attendance_codes enable row level security;
+
+create policy "Authenticated users can read attendance codes"
+  on public.attendance_codes for select
+  to authenticated
+  using (true);
+
+create policy "Authenticated users can manage attendance codes"
+  on public.attendance_codes for all
+  to authenticated
+  using (true)
+  with check (true);
+
+-- The built-in codes are used by the app itself and cannot be removed
+create or replace function public.protect_system_attendance_codes()
+returns trigger
+language plpgsql
+as $$
+begin
+  if old.is_system then
+    raise exception 'Built-in attendance code "%" cannot be deleted', old.code;
+  end if;
+  return old;
+end;
+$$;
+
+create trigger attendance_codes_protect_system
+  before delete on public.attendance_codes
+  for each row execute function public.protect_system_attendance_codes();
+
+alter table public.attendance_records
+  add constraint attendance_records_status_fkey
+  foreign key (status) references public.attendance_codes (code) on update cascade;
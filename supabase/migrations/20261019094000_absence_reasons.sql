@@ -0,0 +1,52 @@
+-- Managed list of reasons a student was absent, late or excused, so absences can
+-- be reported by reason. attendance_records.notes stays as optional extra detail.
+create table if not exists public.absence_reasons (
+  id uuid primary key default gen_random_uuid(),
+  name text not null unique,
+  is_active boolean not null default true,
+  sort_order integer not null default 0,
+  created_at timestamptz not null default now()
+);
+
+insert into public.absence_reasons (name, sort_order) values
+  ('Illness', 0),
+  ('Medical appointment', 1),
+  ('Transport', 2),
+  ('Family reasons', 3),
+  ('Religious observance', 4),
+  ('Holiday during term', 5),
+  ('Unexplained', 6),
+  ('Other', 7)
+on conflict (name) do nothing;
+
+alter table public.absence_reasons enable row level security;
+
+create policy "Authenticated users can read absence reasons"
+  on public.absence_reasons for select
+  to authenticated
+  using (true);
+
+create policy "Authenticated users can manage absence reasons"
+  on public.absence_reasons for all
+  to authenticated
+  using (true)
+  with check (true);
+
+-- Retiring a reason (is_active = false) keeps it on past records; deleting one clears it
+alter table public.attendance_records
+  add column if not exists reason_id uuid references public.absence_reasons (id) on delete set null;
+
+create index if not exists attendance_records_reason_id_idx
+  on public.attendance_records (reason_id);
+
+-- Best-effort backfill of the most common free-text notes
+update public.attendance_records r
+set reason_id = a.id
+from public.absence_reasons a
+where r.reason_id is null
+  and r.status <> 'present'
+  and a.name = case
+    when r.notes ~* '(sick|ill|fever|flu)' then 'Illness'
+    when r.notes ~* '(doctor|dentist|hospital|appointment)' then 'Medical appointment'
+    when r.notes ~* '(bus|traffic|transport)' then 'Transport'
+  end;
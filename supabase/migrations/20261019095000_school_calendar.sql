@@ -0,0 +1,55 @@
+-- School calendar: a day counts towards attendance only if it falls inside an
+-- academic term, is not a weekend day and is not covered by a closure.
+create table if not exists public.academic_terms (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  start_date date not null,
+  end_date date not null,
+  created_at timestamptz not null default now(),
+  constraint academic_terms_date_range check (end_date >= start_date)
+);
+
+-- Public holidays, school holidays inside a term, closures (e.g. cyclone days)
+-- and staff days with no pupils
+create table if not exists public.calendar_closures (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  start_date date not null,
+  end_date date not null,
+  closure_type text not null default 'public_holiday'
+    check (closure_type in ('public_holiday', 'school_holiday', 'closure', 'staff_day')),
+  created_at timestamptz not null default now(),
+  constraint calendar_closures_date_range check (end_date >= start_date)
+);
+
+create index if not exists calendar_closures_dates_idx
+  on public.calendar_closures (start_date, end_date);
+
+alter table public.academic_terms enable row level security;
+alter table public.calendar_closures enable row level security;
+
+create policy "Authenticated users can read academic terms"
+  on public.academic_terms for select
+  to authenticated
+  using (true);
+
+create policy "Authenticated users can manage academic terms"
+  on public.academic_terms for all
+  to authenticated
+  using (true)
+  with check (true);
+
+create policy "Authenticated users can read calendar closures"
+  on public.calendar_closures for select
+  to authenticated
+  using (true);
+
+create policy "Authenticated users can manage calendar closures"
+  on public.calendar_closures for all
+  to authenticated
+  using (true)
+  with check (true);
+
+-- Days of the week with no school, 0 = Sunday ... 6 = Saturday
+alter table public.school_settings
+  add column if not exists weekend_days smallint[] not null default '{0,6}';
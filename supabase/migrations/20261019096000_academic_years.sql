@@ -0,0 +1,175 @@
+-- Academic years. Attendance is tagged with the year it falls in, and a year is
+-- archived at rollover, after which its registers can no longer be changed.
+create table if not exists public.academic_years (
+  id uuid primary key default gen_random_uuid(),
+  name text not null unique,
+  start_date date not null,
+  end_date date not null,
+  is_current boolean not null default false,
+  status text not null default 'active' check (status in ('active', 'archived')),
+  created_at timestamptz not null default now(),
+  constraint academic_years_date_range check (end_date > start_date)
+);
+
+create unique index if not exists academic_years_one_current_key
+  on public.academic_years (is_current) where is_current;
+
+alter table public.academic_years enable row level security;
+
+create policy "Authenticated users can read academic years"
+  on public.academic_years for select
+  to authenticated
+  using (true);
+
+create policy "Authenticated users can manage academic years"
+  on public.academic_years for all
+  to authenticated
+  using (true)
+  with check (true);
+
+-- Each student's class and grade as they were in an archived year
+create table if not exists public.student_year_records (
+  student_id uuid not null references public.students (id) on delete cascade,
+  academic_year_id uuid not null references public.academic_years (id) on delete cascade,
+  class text not null,
+  grade_level integer not null,
+  outcome text not null check (outcome in ('promoted', 'graduated')),
+  primary key (student_id, academic_year_id)
+);
+
+alter table public.student_year_records enable row level security;
+
+create policy "Authenticated users can read student year records"
+  on public.student_year_records for select
+  to authenticated
+  using (true);
+
+alter table public.students
+  add column if not exists graduated_at date;
+
+alter table public.attendance_records
+  add column if not exists academic_year_id uuid references public.academic_years (id) on delete set null;
+
+create index if not exists attendance_records_academic_year_id_idx
+  on public.attendance_records (academic_year_id);
+
+-- Tag each record with the year its date falls in and keep archived years read-only.
+-- Deletes are still allowed so a student can be removed for good.
+create or replace function public.set_attendance_academic_year()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_year public.academic_years;
+begin
+  select * into v_year from public.academic_years
+  where new.date between start_date and end_date
+  order by is_current desc
+  limit 1;
+
+  if v_year.status = 'archived' then
+    raise exception 'Attendance for the archived academic year % cannot be changed', v_year.name;
+  end if;
+
+  new.academic_year_id := v_year.id;
+  return new;
+end;
+$$;
+
+create trigger attendance_records_set_academic_year
+  before insert or update on public.attendance_records
+  for each row execute function public.set_attendance_academic_year();
+
+-- Start with the current calendar year, as most schools here run January to December
+insert into public.academic_years (name, start_date, end_date, is_current)
+select
+  extract(year from current_date)::text,
+  date_trunc('year', current_date)::date,
+  (date_trunc('year', current_date) + interval '1 year - 1 day')::date,
+  true
+where not exists (select 1 from public.academic_years);
+
+update public.attendance_records r
+set academic_year_id = y.id
+from public.academic_years y
+where r.academic_year_id is null
+  and r.date between y.start_date and y.end_date;
+
+-- End-of-year rollover, all or nothing:
+--   1. record every active student's class and grade against the year
+--   2. archive the year and its attendance
+--   3. open the next year as the current one
+--   4. graduate students in the final grade
+--   5. promote everyone else a grade, moving classes as p_class_map says
+--      ({"10A": "11A", ...}; unmapped classes keep their name)
+create or replace function public.rollover_academic_year(
+  p_year_id uuid,
+  p_next_name text,
+  p_next_start date,
+  p_next_end date,
+  p_final_grade integer,
+  p_class_map jsonb default '{}'::jsonb
+)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_year public.academic_years;
+  v_archived integer;
+  v_graduated integer;
+  v_promoted integer;
+begin
+  select * into v_year from public.academic_years where id = p_year_id for update;
+
+  if v_year.id is null then
+    raise exception 'Academic year not found';
+  end if;
+
+  if v_year.status = 'archived' then
+    raise exception 'Academic year % has already been rolled over', v_year.name;
+  end if;
+
+  if p_next_start <= v_year.end_date then
+    raise exception 'The next academic year must start after % ends', v_year.name;
+  end if;
+
+  insert into public.student_year_records (student_id, academic_year_id, class, grade_level, outcome)
+  select id, v_year.id, class, grade_level,
+    case when grade_level >= p_final_grade then 'graduated' else 'promoted' end
+  from public.students
+  where deleted_at is null and graduated_at is null;
+
+  update public.attendance_records
+  set academic_year_id = v_year.id
+  where date between v_year.start_date and v_year.end_date
+    and academic_year_id is distinct from v_year.id;
+
+  select count(*) into v_archived
+  from public.attendance_records
+  where academic_year_id = v_year.id;
+
+  update public.academic_years
+  set status = 'archived', is_current = false
+  where id = v_year.id;
+
+  insert into public.academic_years (name, start_date, end_date, is_current)
+  values (p_next_name, p_next_start, p_next_end, true);
+
+  update public.students
+  set graduated_at = v_year.end_date
+  where deleted_at is null and graduated_at is null and grade_level >= p_final_grade;
+  get diagnostics v_graduated = row_count;
+
+  update public.students
+  set grade_level = grade_level + 1,
+      class = coalesce(p_class_map ->> class, class)
+  where deleted_at is null and graduated_at is null;
+  get diagnostics v_promoted = row_count;
+
+  return jsonb_build_object(
+    'archived_records', v_archived,
+    'graduated', v_graduated,
+    'promoted', v_promoted
+  );
+end;
+$$;
@@ -0,0 +1,50 @@
+-- Log of messages sent to families. The notification edge functions already write
+-- here with the service role; the student profile lists them.
+create table if not exists public.attendance_notifications (
+  id uuid primary key default gen_random_uuid(),
+  student_id uuid not null references public.students (id) on delete cascade,
+  notification_type text not null,
+  notification_date timestamptz not null default now(),
+  message text not null,
+  success boolean not null default false,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists attendance_notifications_student_id_idx
+  on public.attendance_notifications (student_id, notification_date desc);
+
+alter table public.attendance_notifications enable row level security;
+
+create policy "Authenticated users can read attendance notifications"
+  on public.attendance_notifications for select
+  to authenticated
+  using (true);
+
+-- Staff notes about a student, separate from the per-register notes on attendance records
+create table if not exists public.student_notes (
+  id uuid primary key default gen_random_uuid(),
+  student_id uuid not null references public.students (id) on delete cascade,
+  note text not null check (length(trim(note)) > 0),
+  created_by uuid references auth.users (id) default auth.uid(),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists student_notes_student_id_idx
+  on public.student_notes (student_id, created_at desc);
+
+alter table public.student_notes enable row level security;
+
+create policy "Authenticated users can read student notes"
+  on public.student_notes for select
+  to authenticated
+  using (true);
+
+create policy "Authenticated users can add student notes"
+  on public.student_notes for insert
+  to authenticated
+  with check (true);
+
+create policy "Authors can delete their student notes"
+  on public.student_notes for delete
+  to authenticated
+  using (created_by = auth.uid());
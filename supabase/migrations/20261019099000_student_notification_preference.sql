@@ -0,0 +1,5 @@
+-- How a student's family prefers to be contacted. Null leaves the choice to whoever
+-- sends the notification.
+alter table public.students
+  add column if not exists notification_preference text
+  check (notification_preference in ('sms', 'whatsapp', 'email'));
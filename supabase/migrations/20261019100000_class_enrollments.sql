@@ -0,0 +1,229 @@
+-- Which class a student was in, and when. students.class stays as the current class;
+-- class statistics use these records so a transfer doesn't move past attendance with it.
+create table if not exists public.class_enrollments (
+  id uuid primary key default gen_random_uuid(),
+  student_id uuid not null references public.students (id) on delete cascade,
+  class text not null references public.classes (name) on update cascade,
+  start_date date not null,
+  end_date date, -- inclusive; null while the student is still in the class
+  created_at timestamptz not null default now(),
+  check (end_date is null or end_date >= start_date)
+);
+
+create unique index if not exists class_enrollments_current_idx
+  on public.class_enrollments (student_id)
+  where end_date is null;
+
+create index if not exists class_enrollments_student_id_idx
+  on public.class_enrollments (student_id, start_date);
+
+alter table public.class_enrollments enable row level security;
+
+create policy "Authenticated users can read class enrollments"
+  on public.class_enrollments for select
+  to authenticated
+  using (true);
+
+-- Backfill: archived years from the rollover snapshots, then the current class from the
+-- day after the student's last archived year (or their first register, if they have none)
+insert into public.class_enrollments (student_id, class, start_date, end_date)
+select sy.student_id, sy.class, y.start_date, y.end_date
+from public.student_year_records sy
+join public.academic_years y on y.id = sy.academic_year_id;
+
+insert into public.class_enrollments (student_id, class, start_date)
+select s.id, s.class, coalesce(
+  (select max(y.end_date) + 1
+   from public.student_year_records sy
+   join public.academic_years y on y.id = sy.academic_year_id
+   where sy.student_id = s.id),
+  least(s.created_at::date, (select min(r.date) from public.attendance_records r where r.student_id = s.id))
+)
+from public.students s
+where s.graduated_at is null;
+
+-- New students start in their class today. Changing students.class directly (e.g. fixing
+-- a typo on the edit form) corrects the current enrollment; transfers go through
+-- transfer_student so the old class keeps its history.
+create or replace function public.sync_current_enrollment()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' then
+    insert into public.class_enrollments (student_id, class, start_date)
+    values (new.id, new.class, current_date);
+  elsif new.class is distinct from old.class then
+    update public.class_enrollments
+    set class = new.class
+    where student_id = new.id and end_date is null and class <> new.class;
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger students_sync_current_enrollment
+  after insert or update of class on public.students
+  for each row execute function public.sync_current_enrollment();
+
+-- Move a student to another class from a given date. Attendance before that date stays
+-- with the old class. The student's grade follows the new class.
+create or replace function public.transfer_student(
+  p_student_id uuid,
+  p_class text,
+  p_effective_date date
+)
+returns void
+language plpgsql
+as $$
+declare
+  v_current public.class_enrollments;
+  v_grade integer;
+begin
+  select grade_level into v_grade from public.classes where name = p_class;
+
+  if v_grade is null then
+    raise exception 'There is no class called %', p_class;
+  end if;
+
+  if p_effective_date > current_date then
+    raise exception 'A transfer cannot take effect in the future';
+  end if;
+
+  select * into v_current
+  from public.class_enrollments
+  where student_id = p_student_id and end_date is null
+  for update;
+
+  if v_current.id is not null then
+    if v_current.class = p_class then
+      raise exception 'The student is already in %', p_class;
+    end if;
+
+    if p_effective_date < v_current.start_date then
+      raise exception 'The student only joined % on %', v_current.class, v_current.start_date;
+    end if;
+
+    -- Moved on their first day: the old enrollment never really started
+    if p_effective_date = v_current.start_date then
+      delete from public.class_enrollments where id = v_current.id;
+    else
+      update public.class_enrollments
+      set end_date = p_effective_date - 1
+      where id = v_current.id;
+    end if;
+  end if;
+
+  insert into public.class_enrollments (student_id, class, start_date)
+  values (p_student_id, p_class, p_effective_date);
+
+  update public.students
+  set class = p_class, grade_level = v_grade
+  where id = p_student_id;
+end;
+$$;
+
+-- Rollover closes this year's enrollments and opens next year's
+create or replace function public.rollover_academic_year(
+  p_year_id uuid,
+  p_next_name text,
+  p_next_start date,
+  p_next_end date,
+  p_final_grade integer,
+  p_class_map jsonb default '{}'::jsonb
+)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_year public.academic_years;
+  v_archived integer;
+  v_graduated integer;
+  v_promoted integer;
+begin
+  select * into v_year from public.academic_years where id = p_year_id for update;
+
+  if v_year.id is null then
+    raise exception 'Academic year not found';
+  end if;
+
+  if v_year.status = 'archived' then
+    raise exception 'Academic year % has already been rolled over', v_year.name;
+  end if;
+
+  if p_next_start <= v_year.end_date then
+    raise exception 'The next academic year must start after % ends', v_year.name;
+  end if;
+
+  insert into public.student_year_records (student_id, academic_year_id, class, grade_level, outcome)
+  select id, v_year.id, class, grade_level,
+    case when grade_level >= p_final_grade then 'graduated' else 'promoted' end
+  from public.students
+  where deleted_at is null and graduated_at is null;
+
+  update public.attendance_records
+  set academic_year_id = v_year.id
+  where date between v_year.start_date and v_year.end_date
+    and academic_year_id is distinct from v_year.id;
+
+  select count(*) into v_archived
+  from public.attendance_records
+  where academic_year_id = v_year.id;
+
+  update public.academic_years
+  set status = 'archived', is_current = false
+  where id = v_year.id;
+
+  insert into public.academic_years (name, start_date, end_date, is_current)
+  values (p_next_name, p_next_start, p_next_end, true);
+
+  -- Everyone's place in this year's class ends with the year
+  update public.class_enrollments e
+  set end_date = v_year.end_date
+  from public.students s
+  where e.student_id = s.id
+    and e.end_date is null
+    and e.start_date <= v_year.end_date
+    and s.deleted_at is null
+    and s.graduated_at is null;
+
+  update public.students
+  set graduated_at = v_year.end_date
+  where deleted_at is null and graduated_at is null and grade_level >= p_final_grade;
+  get diagnostics v_graduated = row_count;
+
+  -- Missing classes are created one grade up with the same capacity; teachers and
+  -- rooms for the new year are assigned on the Classes page
+  insert into public.classes (name, grade_level, homeroom_teacher, homeroom_teacher_email, room, capacity)
+  select distinct on (map.value) map.value, c.grade_level + 1, null::text, null::text, null::text, c.capacity
+  from jsonb_each_text(p_class_map) map
+  join public.classes c on c.name = map.key
+  order by map.value
+  on conflict (name) do nothing;
+
+  update public.students
+  set grade_level = grade_level + 1,
+      class = coalesce(p_class_map ->> class, class)
+  where deleted_at is null and graduated_at is null;
+  get diagnostics v_promoted = row_count;
+
+  insert into public.class_enrollments (student_id, class, start_date)
+  select s.id, s.class, p_next_start
+  from public.students s
+  where s.deleted_at is null
+    and s.graduated_at is null
+    and not exists (
+      select 1 from public.class_enrollments e
+      where e.student_id = s.id and e.end_date is null
+    );
+
+  return jsonb_build_object(
+    'archived_records', v_archived,
+    'graduated', v_graduated,
+    'promoted', v_promoted
+  );
+end;
+$$;
@@ -0,0 +1,102 @@
+-- Who last changed each attendance record, and when
+alter table public.attendance_records
+  add column if not exists updated_at timestamptz,
+  add column if not exists updated_by uuid references auth.users (id);
+
+create or replace function public.set_attendance_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+create trigger attendance_records_set_updated_at
+  before update on public.attendance_records
+  for each row execute function public.set_attendance_updated_at();
+
+-- Append-only history of every change to a register mark. Rows are only ever written by
+-- the trigger below; nobody can edit or delete them.
+create table if not exists public.attendance_record_history (
+  id uuid primary key default gen_random_uuid(),
+  record_id uuid not null,
+  student_id uuid not null references public.students (id) on delete cascade,
+  date date not null,
+  period_id uuid,
+  session text,
+  old_status text, -- null when the record was first created
+  new_status text not null,
+  old_notes text,
+  new_notes text,
+  old_reason_id uuid,
+  new_reason_id uuid,
+  changed_by uuid,
+  changed_by_name text, -- kept so the history still reads after an account is removed
+  changed_at timestamptz not null default now()
+);
+
+create index if not exists attendance_record_history_student_date_idx
+  on public.attendance_record_history (student_id, date, changed_at);
+
+alter table public.attendance_record_history enable row level security;
+
+create policy "Authenticated users can read attendance history"
+  on public.attendance_record_history for select
+  to authenticated
+  using (true);
+
+revoke insert, update, delete on public.attendance_record_history from anon, authenticated;
+
+create or replace function public.log_attendance_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user uuid;
+  v_name text;
+begin
+  -- Only changes to what was recorded; tagging a record with its academic year is not one
+  if tg_op = 'UPDATE'
+    and new.status is not distinct from old.status
+    and new.notes is not distinct from old.notes
+    and new.reason_id is not distinct from old.reason_id
+    and new.arrival_time is not distinct from old.arrival_time
+    and new.departure_time is not distinct from old.departure_time then
+    return new;
+  end if;
+
+  v_user := coalesce(
+    case when tg_op = 'UPDATE' then new.updated_by else new.created_by end,
+    auth.uid()
+  );
+
+  select coalesce(
+    nullif(trim(concat_ws(' ', u.raw_user_meta_data ->> 'first_name', u.raw_user_meta_data ->> 'last_name')), ''),
+    u.email
+  ) into v_name
+  from auth.users u
+  where u.id = v_user;
+
+  insert into public.attendance_record_history (
+    record_id, student_id, date, period_id, session,
+    old_status, new_status, old_notes, new_notes, old_reason_id, new_reason_id,
+    changed_by, changed_by_name
+  ) values (
+    new.id, new.student_id, new.date, new.period_id, new.session,
+    case when tg_op = 'UPDATE' then old.status end, new.status,
+    case when tg_op = 'UPDATE' then old.notes end, new.notes,
+    case when tg_op = 'UPDATE' then old.reason_id end, new.reason_id,
+    v_user, v_name
+  );
+
+  return new;
+end;
+$$;
+
+create trigger attendance_records_log_change
+  after insert or update on public.attendance_records
+  for each row execute function public.log_attendance_change();
@@ -0,0 +1,138 @@
+-- Staff roles. Everyone signed in is a teacher; admins are granted by hand, e.g.
+--   insert into public.user_roles (user_id, role) values ('<auth user id>', 'admin');
+create type public.app_role as enum ('admin', 'teacher');
+
+create table if not exists public.user_roles (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  role public.app_role not null,
+  created_at timestamptz not null default now(),
+  unique (user_id, role)
+);
+
+alter table public.user_roles enable row level security;
+
+-- Security definer so policies can check roles without recursing into user_roles' own policies
+create or replace function public.has_role(p_user_id uuid, p_role public.app_role)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.user_roles where user_id = p_user_id and role = p_role
+  );
+$$;
+
+create policy "Users can read their own roles"
+  on public.user_roles for select
+  to authenticated
+  using (user_id = auth.uid() or public.has_role(auth.uid(), 'admin'));
+
+create policy "Admins can manage roles"
+  on public.user_roles for all
+  to authenticated
+  using (public.has_role(auth.uid(), 'admin'))
+  with check (public.has_role(auth.uid(), 'admin'));
+
+-- A submitted register locks a class's attendance for a day, across every register
+-- (whole day, sessions and lessons). Unlocking deletes the submission.
+create table if not exists public.register_submissions (
+  id uuid primary key default gen_random_uuid(),
+  class text not null references public.classes (name) on update cascade on delete cascade,
+  date date not null,
+  submitted_by uuid references auth.users (id) on delete set null,
+  submitted_by_name text,
+  submitted_at timestamptz not null default now(),
+  unique (class, date)
+);
+
+alter table public.register_submissions enable row level security;
+
+create policy "Authenticated users can read register submissions"
+  on public.register_submissions for select
+  to authenticated
+  using (true);
+
+create policy "Authenticated users can submit registers"
+  on public.register_submissions for insert
+  to authenticated
+  with check (true);
+
+create policy "Admins can unlock registers"
+  on public.register_submissions for delete
+  to authenticated
+  using (public.has_role(auth.uid(), 'admin'));
+
+create or replace function public.set_register_submitter()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  new.submitted_by := auth.uid();
+  new.submitted_at := now();
+
+  select coalesce(
+    nullif(trim(concat_ws(' ', u.raw_user_meta_data ->> 'first_name', u.raw_user_meta_data ->> 'last_name')), ''),
+    u.email
+  ) into new.submitted_by_name
+  from auth.users u
+  where u.id = new.submitted_by;
+
+  return new;
+end;
+$$;
+
+create trigger register_submissions_set_submitter
+  before insert on public.register_submissions
+  for each row execute function public.set_register_submitter();
+
+-- Refuse changes to a record whose class register has been submitted for that day.
+-- The class is the one the student was enrolled in on the record's date.
+create or replace function public.enforce_register_lock()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_class text;
+begin
+  -- Only changes to what was recorded; tagging a record with its academic year is not one
+  if tg_op = 'UPDATE'
+    and new.status is not distinct from old.status
+    and new.notes is not distinct from old.notes
+    and new.reason_id is not distinct from old.reason_id
+    and new.arrival_time is not distinct from old.arrival_time
+    and new.departure_time is not distinct from old.departure_time then
+    return new;
+  end if;
+
+  select coalesce(
+    (select e.class
+     from public.class_enrollments e
+     where e.student_id = new.student_id
+       and e.start_date <= new.date
+       and (e.end_date is null or new.date <= e.end_date)
+     limit 1),
+    (select s.class from public.students s where s.id = new.student_id)
+  ) into v_class;
+
+  if exists (
+    select 1 from public.register_submissions
+    where class = v_class and date = new.date
+  ) then
+    raise exception 'The % register for % has been submitted and is locked', v_class, new.date
+      using hint = 'Ask an admin to unlock it, or request a correction.';
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger attendance_records_enforce_register_lock
+  before insert or update on public.attendance_records
+  for each row execute function public.enforce_register_lock();
@@ -0,0 +1,226 @@
+-- In-app notifications for staff, e.g. the decision on a correction they asked for
+create table if not exists public.user_notifications (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  title text not null,
+  body text,
+  link text, -- an in-app path such as /corrections
+  read_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists user_notifications_user_id_idx
+  on public.user_notifications (user_id, created_at desc);
+
+alter table public.user_notifications enable row level security;
+
+create policy "Users can read their own notifications"
+  on public.user_notifications for select
+  to authenticated
+  using (user_id = auth.uid());
+
+create policy "Users can mark their own notifications read"
+  on public.user_notifications for update
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+-- A teacher's request to change a mark on a submitted register. Admins approve or
+-- reject it through review_attendance_correction, which applies approved changes.
+create table if not exists public.attendance_corrections (
+  id uuid primary key default gen_random_uuid(),
+  student_id uuid not null references public.students (id) on delete cascade,
+  date date not null,
+  period_id uuid references public.periods (id) on delete cascade,
+  session text check (session in ('am', 'pm')),
+  current_status text, -- the mark when the request was made; null if there was none
+  requested_status text not null,
+  requested_reason_id uuid references public.absence_reasons (id),
+  requested_notes text,
+  reason text not null check (length(trim(reason)) > 0), -- why the change is needed
+  status text not null default 'pending' check (status in ('pending', 'approved', 'rejected')),
+  requested_by uuid references auth.users (id) on delete set null default auth.uid(),
+  requested_by_name text,
+  requested_at timestamptz not null default now(),
+  reviewed_by uuid references auth.users (id) on delete set null,
+  reviewed_by_name text,
+  reviewed_at timestamptz,
+  review_note text,
+  check (session is null or period_id is null)
+);
+
+create index if not exists attendance_corrections_status_idx
+  on public.attendance_corrections (status, requested_at);
+
+alter table public.attendance_corrections enable row level security;
+
+create policy "Authenticated users can read correction requests"
+  on public.attendance_corrections for select
+  to authenticated
+  using (true);
+
+create policy "Authenticated users can request corrections"
+  on public.attendance_corrections for insert
+  to authenticated
+  with check (requested_by = auth.uid() and status = 'pending');
+
+create or replace function public.get_user_display_name(p_user_id uuid)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(
+    nullif(trim(concat_ws(' ', u.raw_user_meta_data ->> 'first_name', u.raw_user_meta_data ->> 'last_name')), ''),
+    u.email
+  )
+  from auth.users u
+  where u.id = p_user_id;
+$$;
+
+create or replace function public.set_correction_requester()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  new.requested_by_name := public.get_user_display_name(new.requested_by);
+  return new;
+end;
+$$;
+
+create trigger attendance_corrections_set_requester
+  before insert on public.attendance_corrections
+  for each row execute function public.set_correction_requester();
+
+-- Approved corrections are the one way to change a submitted register without unlocking it
+create or replace function public.enforce_register_lock()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_class text;
+begin
+  if current_setting('attendance.applying_correction', true) = 'on' then
+    return new;
+  end if;
+
+  -- Only changes to what was recorded; tagging a record with its academic year is not one
+  if tg_op = 'UPDATE'
+    and new.status is not distinct from old.status
+    and new.notes is not distinct from old.notes
+    and new.reason_id is not distinct from old.reason_id
+    and new.arrival_time is not distinct from old.arrival_time
+    and new.departure_time is not distinct from old.departure_time then
+    return new;
+  end if;
+
+  select coalesce(
+    (select e.class
+     from public.class_enrollments e
+     where e.student_id = new.student_id
+       and e.start_date <= new.date
+       and (e.end_date is null or new.date <= e.end_date)
+     limit 1),
+    (select s.class from public.students s where s.id = new.student_id)
+  ) into v_class;
+
+  if exists (
+    select 1 from public.register_submissions
+    where class = v_class and date = new.date
+  ) then
+    raise exception 'The % register for % has been submitted and is locked', v_class, new.date
+      using hint = 'Ask an admin to unlock it, or request a correction.';
+  end if;
+
+  return new;
+end;
+$$;
+
+create or replace function public.review_attendance_correction(
+  p_correction_id uuid,
+  p_approve boolean,
+  p_review_note text default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_correction public.attendance_corrections;
+  v_student public.students;
+begin
+  if not public.has_role(auth.uid(), 'admin') then
+    raise exception 'Only an admin can review correction requests';
+  end if;
+
+  select * into v_correction
+  from public.attendance_corrections
+  where id = p_correction_id
+  for update;
+
+  if v_correction.id is null then
+    raise exception 'Correction request not found';
+  end if;
+
+  if v_correction.status <> 'pending' then
+    raise exception 'This correction request has already been %', v_correction.status;
+  end if;
+
+  if p_approve then
+    perform set_config('attendance.applying_correction', 'on', true);
+
+    update public.attendance_records
+    set status = v_correction.requested_status,
+        reason_id = case when v_correction.requested_status = 'present' then null else v_correction.requested_reason_id end,
+        notes = coalesce(v_correction.requested_notes, ''),
+        minutes_late = case when v_correction.requested_status in ('present', 'late') then minutes_late end,
+        updated_by = auth.uid()
+    where student_id = v_correction.student_id
+      and date = v_correction.date
+      and period_id is not distinct from v_correction.period_id
+      and session is not distinct from v_correction.session;
+
+    if not found then
+      insert into public.attendance_records (student_id, date, period_id, session, status, reason_id, notes, created_by)
+      values (
+        v_correction.student_id, v_correction.date, v_correction.period_id, v_correction.session,
+        v_correction.requested_status,
+        case when v_correction.requested_status = 'present' then null else v_correction.requested_reason_id end,
+        coalesce(v_correction.requested_notes, ''),
+        auth.uid()
+      );
+    end if;
+
+    perform set_config('attendance.applying_correction', 'off', true);
+  end if;
+
+  update public.attendance_corrections
+  set status = case when p_approve then 'approved' else 'rejected' end,
+      reviewed_by = auth.uid(),
+      reviewed_by_name = public.get_user_display_name(auth.uid()),
+      reviewed_at = now(),
+      review_note = nullif(trim(p_review_note), '')
+  where id = p_correction_id;
+
+  if v_correction.requested_by is not null then
+    select * into v_student from public.students where id = v_correction.student_id;
+
+    insert into public.user_notifications (user_id, title, body, link)
+    values (
+      v_correction.requested_by,
+      case when p_approve then 'Correction approved' else 'Correction rejected' end,
+      format('Your correction for %s %s on %s was %s.%s',
+        v_student.first_name, v_student.last_name, to_char(v_correction.date, 'DD Mon YYYY'),
+        case when p_approve then 'approved and applied' else 'rejected' end,
+        coalesce(' ' || nullif(trim(p_review_note), ''), '')),
+      '/corrections'
+    );
+  end if;
+end;
+$$;
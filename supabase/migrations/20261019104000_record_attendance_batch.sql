@@ -0,0 +1,41 @@
+-- Save many marks on one register in a single call, e.g. a whole class marked present.
+-- p_records is an array of {student_id, status, notes, reason_id}, each the full mark
+-- to store. Runs as the caller, so register locks and the audit trail apply as they do
+-- to single saves. Arrival and departure times are left as they are.
+create or replace function public.record_attendance_batch(
+  p_date date,
+  p_period_id uuid,
+  p_session text,
+  p_records jsonb
+)
+returns setof public.attendance_records
+language sql
+as $$
+  insert into public.attendance_records as r (
+    student_id, date, period_id, session, status, notes, reason_id, created_by
+  )
+  select
+    (item ->> 'student_id')::uuid,
+    p_date,
+    p_period_id,
+    case when p_period_id is null then p_session end,
+    item ->> 'status',
+    coalesce(item ->> 'notes', ''),
+    -- A present mark never carries an absence reason
+    case when item ->> 'status' <> 'present' then (item ->> 'reason_id')::uuid end,
+    auth.uid()
+  from jsonb_array_elements(p_records) item
+  on conflict (
+    student_id,
+    date,
+    coalesce(period_id, '00000000-0000-0000-0000-000000000000'::uuid),
+    coalesce(session, '')
+  )
+  do update set
+    status = excluded.status,
+    notes = excluded.notes,
+    reason_id = excluded.reason_id,
+    minutes_late = case when excluded.status in ('present', 'late') then r.minutes_late end,
+    updated_by = auth.uid()
+  returning r.*;
+$$;
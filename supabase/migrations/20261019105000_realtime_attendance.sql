@@ -0,0 +1,4 @@
+-- Broadcast register and student changes so open dashboards update without a refresh
+alter publication supabase_realtime add table public.attendance_records;
+alter publication supabase_realtime add table public.students;
+alter publication supabase_realtime add table public.register_submissions;
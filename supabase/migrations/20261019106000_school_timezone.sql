@@ -0,0 +1,110 @@
+-- The school's timezone. Attendance dates are calendar dates at the school, so "today"
+-- has to be worked out there rather than in UTC (the database and edge functions default).
+alter table public.school_settings
+  add column if not exists timezone text not null default 'UTC';
+
+create or replace function public.validate_school_timezone()
+returns trigger
+language plpgsql
+as $$
+begin
+  if not exists (select 1 from pg_timezone_names where name = new.timezone) then
+    raise exception 'Unknown timezone: %', new.timezone;
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger school_settings_validate_timezone
+  before insert or update of timezone on public.school_settings
+  for each row execute function public.validate_school_timezone();
+
+-- Today's date at the school
+create or replace function public.school_today()
+returns date
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select (now() at time zone coalesce((select timezone from public.school_settings limit 1), 'UTC'))::date;
+$$;
+
+grant execute on function public.school_today() to authenticated;
+
+-- New students start in their class on the school's today
+create or replace function public.sync_current_enrollment()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' then
+    insert into public.class_enrollments (student_id, class, start_date)
+    values (new.id, new.class, public.school_today());
+  elsif new.class is distinct from old.class then
+    update public.class_enrollments
+    set class = new.class
+    where student_id = new.id and end_date is null and class <> new.class;
+  end if;
+
+  return new;
+end;
+$$;
+
+create or replace function public.transfer_student(
+  p_student_id uuid,
+  p_class text,
+  p_effective_date date
+)
+returns void
+language plpgsql
+as $$
+declare
+  v_current public.class_enrollments;
+  v_grade integer;
+begin
+  select grade_level into v_grade from public.classes where name = p_class;
+
+  if v_grade is null then
+    raise exception 'There is no class called %', p_class;
+  end if;
+
+  if p_effective_date > public.school_today() then
+    raise exception 'A transfer cannot take effect in the future';
+  end if;
+
+  select * into v_current
+  from public.class_enrollments
+  where student_id = p_student_id and end_date is null
+  for update;
+
+  if v_current.id is not null then
+    if v_current.class = p_class then
+      raise exception 'The student is already in %', p_class;
+    end if;
+
+    if p_effective_date < v_current.start_date then
+      raise exception 'The student only joined % on %', v_current.class, v_current.start_date;
+    end if;
+
+    -- Moved on their first day: the old enrollment never really started
+    if p_effective_date = v_current.start_date then
+      delete from public.class_enrollments where id = v_current.id;
+    else
+      update public.class_enrollments
+      set end_date = p_effective_date - 1
+      where id = v_current.id;
+    end if;
+  end if;
+
+  insert into public.class_enrollments (student_id, class, start_date)
+  values (p_student_id, p_class, p_effective_date);
+
+  update public.students
+  set class = p_class, grade_level = v_grade
+  where id = p_student_id;
+end;
+$$;
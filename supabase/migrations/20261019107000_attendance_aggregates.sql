@@ -0,0 +1,319 @@
+-- Attendance metrics computed in the database, so a dashboard widget is one request rather
+-- than one per class or per student. The day rules mirror src/lib/attendanceRollup.ts, the
+-- school day rules src/lib/schoolCalendar.ts and the rates src/lib/metrics.ts; change them
+-- together.
+
+-- How a status counts. Unknown codes (e.g. one deleted after use) are neutral.
+create or replace function public.attendance_status_category(p_status text)
+returns text
+language sql
+stable
+as $$
+  select case when p_status is not null then
+    coalesce((select counts_as from public.attendance_codes where code = p_status), 'neutral')
+  end;
+$$;
+
+-- Weekends, closures and, once terms are set up, days between terms are not school days
+create or replace function public.is_instructional_day(p_date date)
+returns boolean
+language sql
+stable
+as $$
+  select not (
+    extract(dow from p_date)::smallint = any(
+      coalesce((select weekend_days from public.school_settings limit 1), '{0,6}'::smallint[])
+    )
+    or exists (
+      select 1 from public.calendar_closures where p_date between start_date and end_date
+    )
+    or (
+      exists (select 1 from public.academic_terms)
+      and not exists (select 1 from public.academic_terms where p_date between start_date and end_date)
+    )
+  );
+$$;
+
+-- One status from a run of registers in bell order: the missed status if none was attended
+-- (a single status if they all agree, else the first absent one), the first register's
+-- status if it was attended, otherwise late
+create or replace function public.roll_up_period_status(p_statuses text[], p_categories text[])
+returns text
+language plpgsql
+immutable
+as $$
+begin
+  if coalesce(array_length(p_statuses, 1), 0) = 0 then
+    return null;
+  end if;
+
+  if not ('present' = any(p_categories)) then
+    if p_statuses <@ array[p_statuses[1]] then
+      return p_statuses[1];
+    end if;
+
+    for i in 1 .. array_length(p_statuses, 1) loop
+      if p_categories[i] = 'absent' then
+        return p_statuses[i];
+      end if;
+    end loop;
+
+    return p_statuses[1];
+  end if;
+
+  return case when p_categories[1] = 'present' then p_statuses[1] else 'late' end;
+end;
+$$;
+
+-- The day from its morning and afternoon statuses. Present in one session and absent in
+-- the other is a half-day absence. A whole-day register is passed as both sessions.
+create or replace function public.derive_attendance_day(
+  p_am text,
+  p_pm text,
+  out status text,
+  out category text,
+  out absence_days numeric,
+  out is_half_day_absence boolean
+)
+language plpgsql
+stable
+as $$
+declare
+  v_am_category text := public.attendance_status_category(p_am);
+  v_pm_category text := public.attendance_status_category(p_pm);
+begin
+  is_half_day_absence := false;
+  absence_days := 0;
+
+  if p_am is null or p_pm is null or (v_am_category <> 'present' and v_pm_category <> 'present') then
+    status := case
+      when p_am is null or p_pm is null then coalesce(p_am, p_pm)
+      else public.roll_up_period_status(array[p_am, p_pm], array[v_am_category, v_pm_category])
+    end;
+    category := public.attendance_status_category(status);
+    if category = 'absent' then
+      absence_days := 1;
+    end if;
+  elsif v_am_category = 'present' and v_pm_category = 'present' then
+    status := p_am;
+    category := 'present';
+  else
+    status := case when v_am_category = 'present' then p_am else p_pm end;
+    category := 'present';
+    is_half_day_absence := (case when v_am_category = 'present' then v_pm_category else v_am_category end) = 'absent';
+    if is_half_day_absence then
+      absence_days := 0.5;
+    end if;
+  end if;
+end;
+$$;
+
+-- One row per student per school day, rolled up from whole-day, session and lesson
+-- registers. A null bound or student list means no limit.
+create or replace function public.daily_attendance(
+  p_from date,
+  p_to date,
+  p_student_ids uuid[] default null
+)
+returns table (
+  student_id uuid,
+  date date,
+  status text,
+  category text,
+  absence_days numeric,
+  is_half_day_absence boolean,
+  minutes_late integer
+)
+language sql
+stable
+as $$
+  with marks as (
+    select
+      r.student_id,
+      r.date,
+      r.status,
+      r.period_id,
+      r.session,
+      coalesce(c.counts_as, 'neutral') as category,
+      p.sort_order,
+      p.session as period_session,
+      coalesce(r.minutes_late, 0) as minutes_late,
+      -- Minutes late come from the first register attended: the whole-day register, else
+      -- the morning before the afternoon with lessons in bell order
+      case
+        when r.period_id is null and r.session is null then -1
+        else (case when coalesce(p.session, r.session) = 'pm' then 100000 else 0 end) + coalesce(p.sort_order + 1, 0)
+      end as arrival_rank
+    from public.attendance_records r
+    left join public.attendance_codes c on c.code = r.status
+    left join public.periods p on p.id = r.period_id
+    where (p_from is null or r.date >= p_from)
+      and (p_to is null or r.date <= p_to)
+      and (p_student_ids is null or r.student_id = any(p_student_ids))
+  ),
+  school_days as (
+    select d.date
+    from (select distinct m.date from marks m) d
+    where public.is_instructional_day(d.date)
+  ),
+  registers as (
+    select
+      m.student_id,
+      m.date,
+      (array_agg(m.status) filter (where m.period_id is null and m.session is null))[1] as whole_day,
+      coalesce(
+        (array_agg(m.status) filter (where m.period_id is null and m.session = 'am'))[1],
+        public.roll_up_period_status(
+          array_agg(m.status order by m.sort_order) filter (where m.period_session = 'am'),
+          array_agg(m.category order by m.sort_order) filter (where m.period_session = 'am')
+        )
+      ) as am,
+      coalesce(
+        (array_agg(m.status) filter (where m.period_id is null and m.session = 'pm'))[1],
+        public.roll_up_period_status(
+          array_agg(m.status order by m.sort_order) filter (where m.period_session = 'pm'),
+          array_agg(m.category order by m.sort_order) filter (where m.period_session = 'pm')
+        )
+      ) as pm,
+      -- Lessons without a known period still count towards the day
+      public.roll_up_period_status(
+        array_agg(m.status) filter (where m.period_id is not null and m.period_session is null),
+        array_agg(m.category) filter (where m.period_id is not null and m.period_session is null)
+      ) as unplaced,
+      coalesce((array_agg(m.minutes_late order by m.arrival_rank) filter (where m.category = 'present'))[1], 0) as minutes_late
+    from marks m
+    join school_days s on s.date = m.date
+    group by m.student_id, m.date
+  )
+  select
+    r.student_id,
+    r.date,
+    d.status,
+    d.category,
+    d.absence_days,
+    d.is_half_day_absence,
+    r.minutes_late
+  from registers r
+  cross join lateral public.derive_attendance_day(
+    coalesce(r.whole_day, case when r.am is null and r.pm is null then r.unplaced else r.am end),
+    coalesce(r.whole_day, r.pm)
+  ) d;
+$$;
+
+-- Totals for the dashboard stat cards. A half-day absence counts as half a day present;
+-- neutral days are left out of the rate, which is null when there are no counted days.
+create or replace function public.get_period_attendance(
+  p_from date,
+  p_to date,
+  p_student_ids uuid[] default null
+)
+returns table (
+  presences integer,
+  absences numeric,
+  attendance_rate numeric,
+  days_marked integer
+)
+language sql
+stable
+as $$
+  select
+    (count(*) filter (where d.category = 'present'))::integer,
+    coalesce(sum(d.absence_days), 0),
+    sum(case when d.category = 'present' then 1 - d.absence_days else 0 end)
+      / nullif(count(*) filter (where d.category <> 'neutral'), 0) * 100,
+    count(distinct d.date)::integer
+  from public.daily_attendance(p_from, p_to, p_student_ids) d;
+$$;
+
+-- Rates per class. Each day counts towards the class the student was enrolled in on that
+-- date, or their current class when no enrollment covers it. Present and half-day absent
+-- counts are for p_last_day.
+create or replace function public.get_class_attendance(
+  p_from date,
+  p_to date,
+  p_student_ids uuid[],
+  p_last_day date
+)
+returns table (
+  class_name text,
+  attendance_rate numeric,
+  present_count integer,
+  half_day_absent_count integer
+)
+language sql
+stable
+as $$
+  with days as (
+    select d.*, coalesce(e.class, s.class) as class_name
+    from public.daily_attendance(p_from, p_to, p_student_ids) d
+    join public.students s on s.id = d.student_id
+    left join lateral (
+      select ce.class
+      from public.class_enrollments ce
+      where ce.student_id = d.student_id
+        and ce.start_date <= d.date
+        and (ce.end_date is null or d.date <= ce.end_date)
+      limit 1
+    ) e on true
+  )
+  select
+    days.class_name,
+    sum(case when days.category = 'present' then 1 - days.absence_days else 0 end)
+      / nullif(count(*) filter (where days.category <> 'neutral'), 0) * 100,
+    (count(*) filter (where days.date = p_last_day and days.category = 'present'))::integer,
+    (count(*) filter (where days.date = p_last_day and days.is_half_day_absence))::integer
+  from days
+  group by days.class_name;
+$$;
+
+-- Per-student counts for the trends and alerts list. consecutive_absences is the longest
+-- run of full-day absences; days with no school have no row, so a run carries over them.
+create or replace function public.get_attendance_trends(
+  p_from date,
+  p_to date,
+  p_student_ids uuid[]
+)
+returns table (
+  student_id uuid,
+  present integer,
+  absent numeric,
+  half_day_absences integer,
+  late integer,
+  excused integer,
+  neutral integer,
+  total integer,
+  late_days integer,
+  total_minutes_late integer,
+  consecutive_absences integer
+)
+language sql
+stable
+as $$
+  with days as (
+    select
+      d.*,
+      row_number() over (partition by d.student_id order by d.date)
+        - row_number() over (partition by d.student_id, d.category = 'absent' order by d.date) as run
+    from public.daily_attendance(p_from, p_to, p_student_ids) d
+  ),
+  runs as (
+    select days.student_id, count(*)::integer as length
+    from days
+    where days.category = 'absent'
+    group by days.student_id, days.run
+  )
+  select
+    days.student_id,
+    (count(*) filter (where days.category = 'present'))::integer,
+    coalesce(sum(days.absence_days), 0),
+    (count(*) filter (where days.is_half_day_absence))::integer,
+    (count(*) filter (where days.status = 'late'))::integer,
+    (count(*) filter (where days.status = 'excused'))::integer,
+    (count(*) filter (where days.category = 'neutral'))::integer,
+    (count(*) filter (where days.category <> 'neutral'))::integer,
+    (count(*) filter (where days.minutes_late > 0))::integer,
+    coalesce(sum(days.minutes_late), 0)::integer,
+    coalesce((select max(runs.length) from runs where runs.student_id = days.student_id), 0)
+  from days
+  group by days.student_id;
+$$;
@@ -0,0 +1,406 @@
+-- Attendance rolled up ahead of time, so reports over long ranges read stored totals
+-- instead of recomputing every day from attendance_records.
+--   student_attendance_days: one row per student per school day, as daily_attendance()
+--     works it out, with the class the student was in that day
+--   attendance_daily_summary: those rows totalled per day, class and status
+-- Triggers keep both current. rebuild_attendance_summary() recomputes a date range from
+-- scratch, e.g. after a bulk import or restoring a backup:
+--   select public.rebuild_attendance_summary('2026-01-01', '2026-12-31');
+
+-- No foreign key to students: a hard-deleted student's rows are removed by the refresh
+-- that follows their attendance being deleted, which also corrects the daily totals.
+create table if not exists public.student_attendance_days (
+  student_id uuid not null,
+  date date not null,
+  class_name text not null,
+  status text not null,
+  category text not null,
+  absence_days numeric not null default 0,
+  is_half_day_absence boolean not null default false,
+  minutes_late integer not null default 0,
+  primary key (student_id, date)
+);
+
+create index if not exists student_attendance_days_date_idx
+  on public.student_attendance_days (date, class_name);
+
+create table if not exists public.attendance_daily_summary (
+  date date not null,
+  class_name text not null,
+  status text not null,
+  category text not null,
+  students integer not null,
+  absence_days numeric not null default 0, -- a half-day absence counts as half
+  half_day_absences integer not null default 0,
+  late_arrivals integer not null default 0, -- students with minutes late recorded
+  minutes_late integer not null default 0,
+  primary key (date, class_name, status)
+);
+
+alter table public.student_attendance_days enable row level security;
+alter table public.attendance_daily_summary enable row level security;
+
+create policy "Authenticated users can read student attendance days"
+  on public.student_attendance_days for select
+  to authenticated
+  using (true);
+
+create policy "Authenticated users can read the attendance summary"
+  on public.attendance_daily_summary for select
+  to authenticated
+  using (true);
+
+-- Recompute the daily totals for the given dates from the stored student days
+create or replace function public.refresh_attendance_summary(p_dates date[])
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  delete from public.attendance_daily_summary where date = any(p_dates);
+
+  insert into public.attendance_daily_summary (
+    date, class_name, status, category, students, absence_days, half_day_absences, late_arrivals, minutes_late
+  )
+  select
+    d.date,
+    d.class_name,
+    d.status,
+    d.category,
+    count(*),
+    sum(d.absence_days),
+    count(*) filter (where d.is_half_day_absence),
+    count(*) filter (where d.minutes_late > 0),
+    sum(d.minutes_late)
+  from public.student_attendance_days d
+  where d.date = any(p_dates)
+  group by d.date, d.class_name, d.status, d.category;
+end;
+$$;
+
+-- Recompute the stored days for some students (null for everyone) over a date range (null
+-- bounds for all time), then the totals for every date that changed. Students in the bin
+-- are left out until they are restored.
+create or replace function public.refresh_attendance_days(
+  p_student_ids uuid[],
+  p_from date,
+  p_to date
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_removed date[];
+  v_added date[];
+begin
+  with removed as (
+    delete from public.student_attendance_days d
+    where (p_student_ids is null or d.student_id = any(p_student_ids))
+      and (p_from is null or d.date >= p_from)
+      and (p_to is null or d.date <= p_to)
+    returning d.date
+  )
+  select array_agg(distinct removed.date) into v_removed from removed;
+
+  with added as (
+    insert into public.student_attendance_days (
+      student_id, date, class_name, status, category, absence_days, is_half_day_absence, minutes_late
+    )
+    select
+      d.student_id,
+      d.date,
+      coalesce(e.class, s.class),
+      d.status,
+      d.category,
+      d.absence_days,
+      d.is_half_day_absence,
+      d.minutes_late
+    from public.daily_attendance(p_from, p_to, p_student_ids) d
+    join public.students s on s.id = d.student_id and s.deleted_at is null
+    left join lateral (
+      select ce.class
+      from public.class_enrollments ce
+      where ce.student_id = d.student_id
+        and ce.start_date <= d.date
+        and (ce.end_date is null or d.date <= ce.end_date)
+      limit 1
+    ) e on true
+    returning date
+  )
+  select array_agg(distinct added.date) into v_added from added;
+
+  perform public.refresh_attendance_summary(coalesce(v_removed, '{}') || coalesce(v_added, '{}'));
+end;
+$$;
+
+-- Recompute a date range from scratch (null bounds for all time). Admins only, or a
+-- direct database connection with no signed-in user.
+create or replace function public.rebuild_attendance_summary(
+  p_from date default null,
+  p_to date default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is not null and not public.has_role(auth.uid(), 'admin') then
+    raise exception 'Only an admin can rebuild the attendance summary';
+  end if;
+
+  perform public.refresh_attendance_days(null, p_from, p_to);
+end;
+$$;
+
+-- The refreshes run from the triggers below; only the rebuild is for calling directly
+revoke execute on function public.refresh_attendance_summary(date[]) from public, anon, authenticated;
+revoke execute on function public.refresh_attendance_days(uuid[], date, date) from public, anon, authenticated;
+
+-- Marks saved, changed or deleted. Statement triggers, so a batch save refreshes once.
+create or replace function public.refresh_attendance_days_from_records()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_student_ids uuid[];
+  v_from date;
+  v_to date;
+begin
+  if tg_op = 'INSERT' then
+    select array_agg(distinct r.student_id), min(r.date), max(r.date)
+    into v_student_ids, v_from, v_to
+    from new_rows r;
+  elsif tg_op = 'UPDATE' then
+    select array_agg(distinct r.student_id), min(r.date), max(r.date)
+    into v_student_ids, v_from, v_to
+    from (
+      select student_id, date from old_rows
+      union all
+      select student_id, date from new_rows
+    ) r;
+  else
+    select array_agg(distinct r.student_id), min(r.date), max(r.date)
+    into v_student_ids, v_from, v_to
+    from old_rows r;
+  end if;
+
+  if v_student_ids is not null then
+    perform public.refresh_attendance_days(v_student_ids, v_from, v_to);
+  end if;
+
+  return null;
+end;
+$$;
+
+create trigger attendance_records_refresh_days_insert
+  after insert on public.attendance_records
+  referencing new table as new_rows
+  for each statement execute function public.refresh_attendance_days_from_records();
+
+create trigger attendance_records_refresh_days_update
+  after update on public.attendance_records
+  referencing old table as old_rows new table as new_rows
+  for each statement execute function public.refresh_attendance_days_from_records();
+
+create trigger attendance_records_refresh_days_delete
+  after delete on public.attendance_records
+  referencing old table as old_rows
+  for each statement execute function public.refresh_attendance_days_from_records();
+
+-- A transfer or class change moves the student's days to another class; putting a student
+-- in the bin or restoring them removes or brings back their days
+create or replace function public.refresh_attendance_days_for_student()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_student_id uuid;
+begin
+  if tg_table_name = 'students' then
+    v_student_id := new.id;
+  elsif tg_op = 'DELETE' then
+    v_student_id := old.student_id;
+  else
+    v_student_id := new.student_id;
+  end if;
+
+  perform public.refresh_attendance_days(array[v_student_id], null, null);
+  return null;
+end;
+$$;
+
+create trigger class_enrollments_refresh_days
+  after insert or update or delete on public.class_enrollments
+  for each row execute function public.refresh_attendance_days_for_student();
+
+create trigger students_refresh_days
+  after update of deleted_at on public.students
+  for each row
+  when (old.deleted_at is distinct from new.deleted_at)
+  execute function public.refresh_attendance_days_for_student();
+
+-- Closures only change the days they cover
+create or replace function public.refresh_attendance_days_for_closure()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op in ('UPDATE', 'DELETE') then
+    perform public.refresh_attendance_days(null, old.start_date, old.end_date);
+  end if;
+
+  if tg_op in ('INSERT', 'UPDATE') then
+    perform public.refresh_attendance_days(null, new.start_date, new.end_date);
+  end if;
+
+  return null;
+end;
+$$;
+
+create trigger calendar_closures_refresh_days
+  after insert or update or delete on public.calendar_closures
+  for each row execute function public.refresh_attendance_days_for_closure();
+
+-- Codes, the bell schedule, terms and weekend days can change any day's roll-up
+create or replace function public.refresh_all_attendance_days()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.refresh_attendance_days(null, null, null);
+  return null;
+end;
+$$;
+
+create trigger attendance_codes_refresh_days
+  after insert or update or delete on public.attendance_codes
+  for each statement execute function public.refresh_all_attendance_days();
+
+create trigger periods_refresh_days
+  after insert or update or delete on public.periods
+  for each statement execute function public.refresh_all_attendance_days();
+
+create trigger academic_terms_refresh_days
+  after insert or update or delete on public.academic_terms
+  for each statement execute function public.refresh_all_attendance_days();
+
+create trigger school_settings_refresh_days
+  after update of weekend_days on public.school_settings
+  for each statement execute function public.refresh_all_attendance_days();
+
+-- The dashboard reads the stored totals from here on
+drop function if exists public.get_period_attendance(date, date, uuid[]);
+drop function if exists public.get_class_attendance(date, date, uuid[], date);
+
+create or replace function public.get_period_attendance(p_from date, p_to date)
+returns table (
+  presences integer,
+  absences numeric,
+  attendance_rate numeric,
+  days_marked integer
+)
+language sql
+stable
+as $$
+  select
+    coalesce(sum(s.students) filter (where s.category = 'present'), 0)::integer,
+    coalesce(sum(s.absence_days), 0),
+    sum(case when s.category = 'present' then s.students - s.absence_days else 0 end)
+      / nullif(sum(s.students) filter (where s.category <> 'neutral'), 0) * 100,
+    count(distinct s.date)::integer
+  from public.attendance_daily_summary s
+  where s.date between p_from and p_to;
+$$;
+
+create or replace function public.get_class_attendance(
+  p_from date,
+  p_to date,
+  p_last_day date
+)
+returns table (
+  class_name text,
+  attendance_rate numeric,
+  present_count integer,
+  half_day_absent_count integer
+)
+language sql
+stable
+as $$
+  select
+    s.class_name,
+    sum(case when s.category = 'present' then s.students - s.absence_days else 0 end)
+      / nullif(sum(s.students) filter (where s.category <> 'neutral'), 0) * 100,
+    coalesce(sum(s.students) filter (where s.date = p_last_day and s.category = 'present'), 0)::integer,
+    coalesce(sum(s.half_day_absences) filter (where s.date = p_last_day), 0)::integer
+  from public.attendance_daily_summary s
+  where (p_from is null or s.date >= p_from)
+    and (p_to is null or s.date <= p_to)
+  group by s.class_name;
+$$;
+
+create or replace function public.get_attendance_trends(
+  p_from date,
+  p_to date,
+  p_student_ids uuid[]
+)
+returns table (
+  student_id uuid,
+  present integer,
+  absent numeric,
+  half_day_absences integer,
+  late integer,
+  excused integer,
+  neutral integer,
+  total integer,
+  late_days integer,
+  total_minutes_late integer,
+  consecutive_absences integer
+)
+language sql
+stable
+as $$
+  with days as (
+    select
+      d.*,
+      row_number() over (partition by d.student_id order by d.date)
+        - row_number() over (partition by d.student_id, d.category = 'absent' order by d.date) as run
+    from public.student_attendance_days d
+    where d.date between p_from and p_to
+      and d.student_id = any(p_student_ids)
+  ),
+  runs as (
+    select days.student_id, count(*)::integer as length
+    from days
+    where days.category = 'absent'
+    group by days.student_id, days.run
+  )
+  select
+    days.student_id,
+    (count(*) filter (where days.category = 'present'))::integer,
+    coalesce(sum(days.absence_days), 0),
+    (count(*) filter (where days.is_half_day_absence))::integer,
+    (count(*) filter (where days.status = 'late'))::integer,
+    (count(*) filter (where days.status = 'excused'))::integer,
+    (count(*) filter (where days.category = 'neutral'))::integer,
+    (count(*) filter (where days.category <> 'neutral'))::integer,
+    (count(*) filter (where days.minutes_late > 0))::integer,
+    coalesce(sum(days.minutes_late), 0)::integer,
+    coalesce((select max(runs.length) from runs where runs.student_id = days.student_id), 0)
+  from days
+  group by days.student_id;
+$$;
+
+-- Fill both tables from the attendance already recorded
+select public.refresh_attendance_days(null, null, null);
@@ -0,0 +1,88 @@
+-- The school's rules for attendance rates, applied everywhere a rate is shown. They mirror
+-- src/lib/metrics.ts; change them together.
+--   late_counts_as_present: a late day is attended; otherwise it counts but isn't attended
+--   exclude_neutral_from_rates: neutral days (excused, by default) are left out of rates;
+--     otherwise they count as days not attended
+-- Rates are worked out when they're read, so changing a rule needs no rebuild.
+alter table public.school_settings
+  add column if not exists late_counts_as_present boolean not null default true,
+  add column if not exists exclude_neutral_from_rates boolean not null default true;
+
+create or replace function public.attendance_metric_rules()
+returns table (
+  late_counts_as_present boolean,
+  exclude_neutral boolean
+)
+language sql
+stable
+as $$
+  select
+    coalesce((select s.late_counts_as_present from public.school_settings s limit 1), true),
+    coalesce((select s.exclude_neutral_from_rates from public.school_settings s limit 1), true);
+$$;
+
+-- How much of a day (or of a summary row's student-days) was attended
+create or replace function public.attended_days(
+  p_category text,
+  p_status text,
+  p_days numeric,
+  p_absence_days numeric,
+  p_late_counts_as_present boolean
+)
+returns numeric
+language sql
+immutable
+as $$
+  select case
+    when p_category = 'present' and (p_late_counts_as_present or p_status <> 'late') then p_days - p_absence_days
+    else 0
+  end;
+$$;
+
+create or replace function public.get_period_attendance(p_from date, p_to date)
+returns table (
+  presences integer,
+  absences numeric,
+  attendance_rate numeric,
+  days_marked integer
+)
+language sql
+stable
+as $$
+  select
+    coalesce(sum(s.students) filter (where s.category = 'present'), 0)::integer,
+    coalesce(sum(s.absence_days), 0),
+    sum(public.attended_days(s.category, s.status, s.students, s.absence_days, r.late_counts_as_present))
+      / nullif(sum(s.students) filter (where s.category <> 'neutral' or not r.exclude_neutral), 0) * 100,
+    count(distinct s.date)::integer
+  from public.attendance_daily_summary s
+  cross join public.attendance_metric_rules() r
+  where s.date between p_from and p_to;
+$$;
+
+create or replace function public.get_class_attendance(
+  p_from date,
+  p_to date,
+  p_last_day date
+)
+returns table (
+  class_name text,
+  attendance_rate numeric,
+  present_count integer,
+  half_day_absent_count integer
+)
+language sql
+stable
+as $$
+  select
+    s.class_name,
+    sum(public.attended_days(s.category, s.status, s.students, s.absence_days, r.late_counts_as_present))
+      / nullif(sum(s.students) filter (where s.category <> 'neutral' or not r.exclude_neutral), 0) * 100,
+    coalesce(sum(s.students) filter (where s.date = p_last_day and s.category = 'present'), 0)::integer,
+    coalesce(sum(s.half_day_absences) filter (where s.date = p_last_day), 0)::integer
+  from public.attendance_daily_summary s
+  cross join public.attendance_metric_rules() r
+  where (p_from is null or s.date >= p_from)
+    and (p_to is null or s.date <= p_to)
+  group by s.class_name;
+$$;
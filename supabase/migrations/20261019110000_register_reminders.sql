@@ -0,0 +1,131 @@
+-- Reminders for class registers not submitted by a set time. The send-register-reminders
+-- edge function runs every five minutes (scheduled below). At the reminder time it emails
+-- and notifies each missing class's homeroom teacher; at the escalation time, if the
+-- register is still missing, it tells the office (the admins and the office email).
+-- A null time turns that step off.
+alter table public.school_settings
+  add column if not exists register_reminder_time time default '09:00',
+  add column if not exists register_escalation_time time default '10:30',
+  add column if not exists office_email text;
+
+alter table public.school_settings
+  add constraint school_settings_escalation_after_reminder check (
+    register_reminder_time is null
+    or register_escalation_time is null
+    or register_escalation_time > register_reminder_time
+  );
+
+-- Each reminder that went out, so none is sent twice for a class on a day
+create table if not exists public.register_reminders (
+  id uuid primary key default gen_random_uuid(),
+  class text not null references public.classes (name) on update cascade on delete cascade,
+  date date not null,
+  kind text not null check (kind in ('reminder', 'escalation')),
+  recipients text[] not null default '{}', -- email addresses written to
+  sent_at timestamptz not null default now(),
+  unique (class, date, kind)
+);
+
+alter table public.register_reminders enable row level security;
+
+create policy "Authenticated users can read register reminders"
+  on public.register_reminders for select
+  to authenticated
+  using (true);
+
+-- Today's registers that are still missing and have a reminder due that hasn't been sent.
+-- Only school days, and only classes with students. The teacher's account is found by
+-- their email, for the in-app notification.
+create or replace function public.get_due_register_reminders()
+returns table (
+  class_name text,
+  date date,
+  kind text,
+  homeroom_teacher text,
+  homeroom_teacher_email text,
+  teacher_user_id uuid,
+  students integer,
+  marked integer
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with settings as (
+    select
+      public.school_today() as today,
+      (now() at time zone coalesce(s.timezone, 'UTC'))::time as now_time,
+      s.register_reminder_time,
+      s.register_escalation_time
+    from public.school_settings s
+    limit 1
+  ),
+  due as (
+    -- Once it's time to escalate, a teacher who was never reminded isn't reminded as well
+    select 'reminder'::text as kind
+    from settings
+    where register_reminder_time is not null
+      and now_time >= register_reminder_time
+      and (register_escalation_time is null or now_time < register_escalation_time)
+    union all
+    select 'escalation'
+    from settings
+    where register_escalation_time is not null
+      and now_time >= register_escalation_time
+  ),
+  class_students as (
+    select
+      st.class,
+      count(*)::integer as students,
+      (count(*) filter (where exists (
+        select 1 from public.attendance_records r where r.student_id = st.id and r.date = settings.today
+      )))::integer as marked
+    from public.students st
+    cross join settings
+    where st.deleted_at is null
+      and st.graduated_at is null
+    group by st.class
+  )
+  select
+    c.name,
+    settings.today,
+    due.kind,
+    c.homeroom_teacher,
+    c.homeroom_teacher_email,
+    u.id,
+    cs.students,
+    cs.marked
+  from public.classes c
+  join class_students cs on cs.class = c.name
+  cross join settings
+  cross join due
+  left join auth.users u on lower(u.email) = lower(c.homeroom_teacher_email)
+  where public.is_instructional_day(settings.today)
+    and not exists (
+      select 1 from public.register_submissions rs where rs.class = c.name and rs.date = settings.today
+    )
+    and not exists (
+      select 1 from public.register_reminders rr
+      where rr.class = c.name and rr.date = settings.today and rr.kind = due.kind
+    )
+  order by c.name, due.kind;
+$$;
+
+-- Only the edge function, with the service role, reads this
+revoke execute on function public.get_due_register_reminders() from public, anon, authenticated;
+
+create extension if not exists pg_cron with schema pg_catalog;
+create extension if not exists pg_net with schema extensions;
+
+select cron.schedule(
+  'send-register-reminders',
+  '*/5 * * * *',
+  $$
+  select net.http_post(
+    url := 'https://aywxtonoyuyhpkldkzhc.supabase.co/functions/v1/send-register-reminders',
+    headers := '{"Content-Type": "application/json"}'::jsonb,
+    body := '{}'::jsonb
+  );
+  $$
+);
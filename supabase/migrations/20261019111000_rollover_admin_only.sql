@@ -0,0 +1,109 @@
+-- The rollover archives the year's snapshots and moves every student on, which needs
+-- writes that row level security doesn't give signed-in users (student_year_records and
+-- class_enrollments are read-only to them). It runs as the owner, so only admins may call it.
+create or replace function public.rollover_academic_year(
+  p_year_id uuid,
+  p_next_name text,
+  p_next_start date,
+  p_next_end date,
+  p_final_grade integer,
+  p_class_map jsonb default '{}'::jsonb
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_year public.academic_years;
+  v_archived integer;
+  v_graduated integer;
+  v_promoted integer;
+begin
+  if not public.has_role(auth.uid(), 'admin') then
+    raise exception 'Only an admin can roll over the academic year';
+  end if;
+
+  select * into v_year from public.academic_years where id = p_year_id for update;
+
+  if v_year.id is null then
+    raise exception 'Academic year not found';
+  end if;
+
+  if v_year.status = 'archived' then
+    raise exception 'Academic year % has already been rolled over', v_year.name;
+  end if;
+
+  if p_next_start <= v_year.end_date then
+    raise exception 'The next academic year must start after % ends', v_year.name;
+  end if;
+
+  insert into public.student_year_records (student_id, academic_year_id, class, grade_level, outcome)
+  select id, v_year.id, class, grade_level,
+    case when grade_level >= p_final_grade then 'graduated' else 'promoted' end
+  from public.students
+  where deleted_at is null and graduated_at is null;
+
+  update public.attendance_records
+  set academic_year_id = v_year.id
+  where date between v_year.start_date and v_year.end_date
+    and academic_year_id is distinct from v_year.id;
+
+  select count(*) into v_archived
+  from public.attendance_records
+  where academic_year_id = v_year.id;
+
+  update public.academic_years
+  set status = 'archived', is_current = false
+  where id = v_year.id;
+
+  insert into public.academic_years (name, start_date, end_date, is_current)
+  values (p_next_name, p_next_start, p_next_end, true);
+
+  -- Everyone's place in this year's class ends with the year
+  update public.class_enrollments e
+  set end_date = v_year.end_date
+  from public.students s
+  where e.student_id = s.id
+    and e.end_date is null
+    and e.start_date <= v_year.end_date
+    and s.deleted_at is null
+    and s.graduated_at is null;
+
+  update public.students
+  set graduated_at = v_year.end_date
+  where deleted_at is null and graduated_at is null and grade_level >= p_final_grade;
+  get diagnostics v_graduated = row_count;
+
+  -- Missing classes are created one grade up with the same capacity; teachers and
+  -- rooms for the new year are assigned on the Classes page
+  insert into public.classes (name, grade_level, homeroom_teacher, homeroom_teacher_email, room, capacity)
+  select distinct on (map.value) map.value, c.grade_level + 1, null::text, null::text, null::text, c.capacity
+  from jsonb_each_text(p_class_map) map
+  join public.classes c on c.name = map.key
+  order by map.value
+  on conflict (name) do nothing;
+
+  update public.students
+  set grade_level = grade_level + 1,
+      class = coalesce(p_class_map ->> class, class)
+  where deleted_at is null and graduated_at is null;
+  get diagnostics v_promoted = row_count;
+
+  insert into public.class_enrollments (student_id, class, start_date)
+  select s.id, s.class, p_next_start
+  from public.students s
+  where s.deleted_at is null
+    and s.graduated_at is null
+    and not exists (
+      select 1 from public.class_enrollments e
+      where e.student_id = s.id and e.end_date is null
+    );
+
+  return jsonb_build_object(
+    'archived_records', v_archived,
+    'graduated', v_graduated,
+    'promoted', v_promoted
+  );
+end;
+$$;
@@ -0,0 +1,137 @@
+-- Everyone signed in is a teacher. Grant the role for real, so functions that change
+-- enrollments can check it: existing accounts now, new ones as they sign up.
+insert into public.user_roles (user_id, role)
+select id, 'teacher' from auth.users
+on conflict (user_id, role) do nothing;
+
+create or replace function public.grant_teacher_role()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.user_roles (user_id, role)
+  values (new.id, 'teacher')
+  on conflict (user_id, role) do nothing;
+
+  return new;
+end;
+$$;
+
+create trigger on_auth_user_created_grant_teacher
+  after insert on auth.users
+  for each row execute function public.grant_teacher_role();
+
+-- Changing students.class directly (the edit form) moves the student from today: the old
+-- enrollment ends yesterday and a new one starts, so past attendance stays with the old
+-- class. A class set on the day the enrollment started is a correction and is changed in
+-- place. Students with no open enrollment are left alone, since whoever closed it (a
+-- transfer or the rollover) opens the next one.
+create or replace function public.sync_current_enrollment()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_current public.class_enrollments;
+  v_today date := public.school_today();
+begin
+  if tg_op = 'INSERT' then
+    insert into public.class_enrollments (student_id, class, start_date)
+    values (new.id, new.class, v_today);
+    return new;
+  end if;
+
+  if new.class is not distinct from old.class then
+    return new;
+  end if;
+
+  select * into v_current
+  from public.class_enrollments
+  where student_id = new.id and end_date is null and class <> new.class
+  for update;
+
+  if v_current.id is null then
+    return new;
+  end if;
+
+  if v_current.start_date >= v_today then
+    update public.class_enrollments
+    set class = new.class
+    where id = v_current.id;
+  else
+    update public.class_enrollments
+    set end_date = v_today - 1
+    where id = v_current.id;
+
+    insert into public.class_enrollments (student_id, class, start_date)
+    values (new.id, new.class, v_today);
+  end if;
+
+  return new;
+end;
+$$;
+
+-- class_enrollments is read-only to signed-in users, so the transfer runs as the owner
+create or replace function public.transfer_student(
+  p_student_id uuid,
+  p_class text,
+  p_effective_date date
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_current public.class_enrollments;
+  v_grade integer;
+begin
+  if not (public.has_role(auth.uid(), 'admin') or public.has_role(auth.uid(), 'teacher')) then
+    raise exception 'Only staff can transfer students';
+  end if;
+
+  select grade_level into v_grade from public.classes where name = p_class;
+
+  if v_grade is null then
+    raise exception 'There is no class called %', p_class;
+  end if;
+
+  if p_effective_date > public.school_today() then
+    raise exception 'A transfer cannot take effect in the future';
+  end if;
+
+  select * into v_current
+  from public.class_enrollments
+  where student_id = p_student_id and end_date is null
+  for update;
+
+  if v_current.id is not null then
+    if v_current.class = p_class then
+      raise exception 'The student is already in %', p_class;
+    end if;
+
+    if p_effective_date < v_current.start_date then
+      raise exception 'The student only joined % on %', v_current.class, v_current.start_date;
+    end if;
+
+    -- Moved on their first day: the old enrollment never really started
+    if p_effective_date = v_current.start_date then
+      delete from public.class_enrollments where id = v_current.id;
+    else
+      update public.class_enrollments
+      set end_date = p_effective_date - 1
+      where id = v_current.id;
+    end if;
+  end if;
+
+  insert into public.class_enrollments (student_id, class, start_date)
+  values (p_student_id, p_class, p_effective_date);
+
+  update public.students
+  set class = p_class, grade_level = v_grade
+  where id = p_student_id;
+end;
+$$;
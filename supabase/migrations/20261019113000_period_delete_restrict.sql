@@ -0,0 +1,11 @@
+-- Deleting a period from the bell schedule used to delete every mark and correction ever
+-- taken for it. A period that has been used now can't be deleted.
+alter table public.attendance_records
+  drop constraint if exists attendance_records_period_id_fkey,
+  add constraint attendance_records_period_id_fkey
+    foreign key (period_id) references public.periods (id) on delete restrict;
+
+alter table public.attendance_corrections
+  drop constraint if exists attendance_corrections_period_id_fkey,
+  add constraint attendance_corrections_period_id_fkey
+    foreign key (period_id) references public.periods (id) on delete restrict;
@@ -0,0 +1,104 @@
+-- Register reminders are for registers that haven't been taken at all: a class where
+-- someone has been marked is under way, and the dashboard shows it as not submitted.
+--
+-- The cron job now reads the project URL and the service role key from Vault, and sends
+-- the key so the edge function can tell the call is from the schedule. Create the secrets
+-- once per project:
+--   select vault.create_secret('https://<project-ref>.supabase.co', 'project_url');
+--   select vault.create_secret('<service role key>', 'service_role_key');
+
+-- Today's registers with no one marked that have a reminder due that hasn't been sent
+create or replace function public.get_due_register_reminders()
+returns table (
+  class_name text,
+  date date,
+  kind text,
+  homeroom_teacher text,
+  homeroom_teacher_email text,
+  teacher_user_id uuid,
+  students integer,
+  marked integer
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with settings as (
+    select
+      public.school_today() as today,
+      (now() at time zone coalesce(s.timezone, 'UTC'))::time as now_time,
+      s.register_reminder_time,
+      s.register_escalation_time
+    from public.school_settings s
+    limit 1
+  ),
+  due as (
+    -- Once it's time to escalate, a teacher who was never reminded isn't reminded as well
+    select 'reminder'::text as kind
+    from settings
+    where register_reminder_time is not null
+      and now_time >= register_reminder_time
+      and (register_escalation_time is null or now_time < register_escalation_time)
+    union all
+    select 'escalation'
+    from settings
+    where register_escalation_time is not null
+      and now_time >= register_escalation_time
+  ),
+  class_students as (
+    select
+      st.class,
+      count(*)::integer as students,
+      (count(*) filter (where exists (
+        select 1 from public.attendance_records r where r.student_id = st.id and r.date = settings.today
+      )))::integer as marked
+    from public.students st
+    cross join settings
+    where st.deleted_at is null
+      and st.graduated_at is null
+    group by st.class
+  )
+  select
+    c.name,
+    settings.today,
+    due.kind,
+    c.homeroom_teacher,
+    c.homeroom_teacher_email,
+    u.id,
+    cs.students,
+    cs.marked
+  from public.classes c
+  join class_students cs on cs.class = c.name
+  cross join settings
+  cross join due
+  left join auth.users u on lower(u.email) = lower(c.homeroom_teacher_email)
+  where public.is_instructional_day(settings.today)
+    and cs.marked = 0
+    and not exists (
+      select 1 from public.register_submissions rs where rs.class = c.name and rs.date = settings.today
+    )
+    and not exists (
+      select 1 from public.register_reminders rr
+      where rr.class = c.name and rr.date = settings.today and rr.kind = due.kind
+    )
+  order by c.name, due.kind;
+$$;
+
+select cron.unschedule('send-register-reminders');
+
+select cron.schedule(
+  'send-register-reminders',
+  '*/5 * * * *',
+  $$
+  select net.http_post(
+    url := (select decrypted_secret from vault.decrypted_secrets where name = 'project_url')
+      || '/functions/v1/send-register-reminders',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (select decrypted_secret from vault.decrypted_secrets where name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,85 @@
+-- An approved correction keeps minutes late on any mark that counts as present, including
+-- the school's own codes, as a batch save does.
+create or replace function public.review_attendance_correction(
+  p_correction_id uuid,
+  p_approve boolean,
+  p_review_note text default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_correction public.attendance_corrections;
+  v_student public.students;
+begin
+  if not public.has_role(auth.uid(), 'admin') then
+    raise exception 'Only an admin can review correction requests';
+  end if;
+
+  select * into v_correction
+  from public.attendance_corrections
+  where id = p_correction_id
+  for update;
+
+  if v_correction.id is null then
+    raise exception 'Correction request not found';
+  end if;
+
+  if v_correction.status <> 'pending' then
+    raise exception 'This correction request has already been %', v_correction.status;
+  end if;
+
+  if p_approve then
+    perform set_config('attendance.applying_correction', 'on', true);
+
+    update public.attendance_records
+    set status = v_correction.requested_status,
+        reason_id = case when v_correction.requested_status = 'present' then null else v_correction.requested_reason_id end,
+        notes = coalesce(v_correction.requested_notes, ''),
+        minutes_late = case when public.attendance_status_category(v_correction.requested_status) = 'present' then minutes_late end,
+        updated_by = auth.uid()
+    where student_id = v_correction.student_id
+      and date = v_correction.date
+      and period_id is not distinct from v_correction.period_id
+      and session is not distinct from v_correction.session;
+
+    if not found then
+      insert into public.attendance_records (student_id, date, period_id, session, status, reason_id, notes, created_by)
+      values (
+        v_correction.student_id, v_correction.date, v_correction.period_id, v_correction.session,
+        v_correction.requested_status,
+        case when v_correction.requested_status = 'present' then null else v_correction.requested_reason_id end,
+        coalesce(v_correction.requested_notes, ''),
+        auth.uid()
+      );
+    end if;
+
+    perform set_config('attendance.applying_correction', 'off', true);
+  end if;
+
+  update public.attendance_corrections
+  set status = case when p_approve then 'approved' else 'rejected' end,
+      reviewed_by = auth.uid(),
+      reviewed_by_name = public.get_user_display_name(auth.uid()),
+      reviewed_at = now(),
+      review_note = nullif(trim(p_review_note), '')
+  where id = p_correction_id;
+
+  if v_correction.requested_by is not null then
+    select * into v_student from public.students where id = v_correction.student_id;
+
+    insert into public.user_notifications (user_id, title, body, link)
+    values (
+      v_correction.requested_by,
+      case when p_approve then 'Correction approved' else 'Correction rejected' end,
+      format('Your correction for %s %s on %s was %s.%s',
+        v_student.first_name, v_student.last_name, to_char(v_correction.date, 'DD Mon YYYY'),
+        case when p_approve then 'approved and applied' else 'rejected' end,
+        coalesce(' ' || nullif(trim(p_review_note), ''), '')),
+      '/corrections'
+    );
+  end if;
+end;
+$$;
@@ -0,0 +1,59 @@
+-- A submitted register can't lose marks either: deleting a record is locked the same way
+-- as changing one.
+create or replace function public.enforce_register_lock()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_record public.attendance_records;
+  v_class text;
+begin
+  if tg_op = 'DELETE' then
+    v_record := old;
+  else
+    v_record := new;
+  end if;
+
+  if current_setting('attendance.applying_correction', true) = 'on' then
+    return v_record;
+  end if;
+
+  -- Only changes to what was recorded; tagging a record with its academic year is not one
+  if tg_op = 'UPDATE'
+    and new.status is not distinct from old.status
+    and new.notes is not distinct from old.notes
+    and new.reason_id is not distinct from old.reason_id
+    and new.arrival_time is not distinct from old.arrival_time
+    and new.departure_time is not distinct from old.departure_time then
+    return new;
+  end if;
+
+  select coalesce(
+    (select e.class
+     from public.class_enrollments e
+     where e.student_id = v_record.student_id
+       and e.start_date <= v_record.date
+       and (e.end_date is null or v_record.date <= e.end_date)
+     limit 1),
+    (select s.class from public.students s where s.id = v_record.student_id)
+  ) into v_class;
+
+  if exists (
+    select 1 from public.register_submissions
+    where class = v_class and date = v_record.date
+  ) then
+    raise exception 'The % register for % has been submitted and is locked', v_class, v_record.date
+      using hint = 'Ask an admin to unlock it, or request a correction.';
+  end if;
+
+  return v_record;
+end;
+$$;
+
+drop trigger if exists attendance_records_enforce_register_lock on public.attendance_records;
+
+create trigger attendance_records_enforce_register_lock
+  before insert or update or delete on public.attendance_records
+  for each row execute function public.enforce_register_lock();
@@ -0,0 +1,161 @@
+-- A day with only one session marked, e.g. an afternoon register that was never taken,
+-- takes that session's status. An absence there is a half-day absence: a full-day absence
+-- needs both sessions missed. Mirrors deriveDayStatus in src/lib/attendanceRollup.ts.
+create or replace function public.derive_attendance_day(
+  p_am text,
+  p_pm text,
+  out status text,
+  out category text,
+  out absence_days numeric,
+  out is_half_day_absence boolean
+)
+language plpgsql
+stable
+as $$
+declare
+  v_am_category text := public.attendance_status_category(p_am);
+  v_pm_category text := public.attendance_status_category(p_pm);
+begin
+  is_half_day_absence := false;
+  absence_days := 0;
+
+  if p_am is null or p_pm is null then
+    status := coalesce(p_am, p_pm);
+    category := public.attendance_status_category(status);
+    is_half_day_absence := category is not distinct from 'absent';
+    if is_half_day_absence then
+      absence_days := 0.5;
+    end if;
+  elsif v_am_category <> 'present' and v_pm_category <> 'present' then
+    status := public.roll_up_period_status(array[p_am, p_pm], array[v_am_category, v_pm_category]);
+    category := public.attendance_status_category(status);
+    if category = 'absent' then
+      absence_days := 1;
+    end if;
+  elsif v_am_category = 'present' and v_pm_category = 'present' then
+    status := p_am;
+    category := 'present';
+  else
+    status := case when v_am_category = 'present' then p_am else p_pm end;
+    category := 'present';
+    is_half_day_absence := (case when v_am_category = 'present' then v_pm_category else v_am_category end) = 'absent';
+    if is_half_day_absence then
+      absence_days := 0.5;
+    end if;
+  end if;
+end;
+$$;
+
+-- Lessons without a known period count as a whole day, not only the morning
+create or replace function public.daily_attendance(
+  p_from date,
+  p_to date,
+  p_student_ids uuid[] default null
+)
+returns table (
+  student_id uuid,
+  date date,
+  status text,
+  category text,
+  absence_days numeric,
+  is_half_day_absence boolean,
+  minutes_late integer
+)
+language sql
+stable
+as $$
+  with marks as (
+    select
+      r.student_id,
+      r.date,
+      r.status,
+      r.period_id,
+      r.session,
+      coalesce(c.counts_as, 'neutral') as category,
+      p.sort_order,
+      p.session as period_session,
+      coalesce(r.minutes_late, 0) as minutes_late,
+      -- Minutes late come from the first register attended: the whole-day register, else
+      -- the morning before the afternoon with lessons in bell order
+      case
+        when r.period_id is null and r.session is null then -1
+        else (case when coalesce(p.session, r.session) = 'pm' then 100000 else 0 end) + coalesce(p.sort_order + 1, 0)
+      end as arrival_rank
+    from public.attendance_records r
+    left join public.attendance_codes c on c.code = r.status
+    left join public.periods p on p.id = r.period_id
+    where (p_from is null or r.date >= p_from)
+      and (p_to is null or r.date <= p_to)
+      and (p_student_ids is null or r.student_id = any(p_student_ids))
+  ),
+  school_days as (
+    select d.date
+    from (select distinct m.date from marks m) d
+    where public.is_instructional_day(d.date)
+  ),
+  registers as (
+    select
+      m.student_id,
+      m.date,
+      (array_agg(m.status) filter (where m.period_id is null and m.session is null))[1] as whole_day,
+      coalesce(
+        (array_agg(m.status) filter (where m.period_id is null and m.session = 'am'))[1],
+        public.roll_up_period_status(
+          array_agg(m.status order by m.sort_order) filter (where m.period_session = 'am'),
+          array_agg(m.category order by m.sort_order) filter (where m.period_session = 'am')
+        )
+      ) as am,
+      coalesce(
+        (array_agg(m.status) filter (where m.period_id is null and m.session = 'pm'))[1],
+        public.roll_up_period_status(
+          array_agg(m.status order by m.sort_order) filter (where m.period_session = 'pm'),
+          array_agg(m.category order by m.sort_order) filter (where m.period_session = 'pm')
+        )
+      ) as pm,
+      -- Lessons without a known period still count towards the day
+      public.roll_up_period_status(
+        array_agg(m.status) filter (where m.period_id is not null and m.period_session is null),
+        array_agg(m.category) filter (where m.period_id is not null and m.period_session is null)
+      ) as unplaced,
+      coalesce((array_agg(m.minutes_late order by m.arrival_rank) filter (where m.category = 'present'))[1], 0) as minutes_late
+    from marks m
+    join school_days s on s.date = m.date
+    group by m.student_id, m.date
+  )
+  select
+    r.student_id,
+    r.date,
+    d.status,
+    d.category,
+    d.absence_days,
+    d.is_half_day_absence,
+    r.minutes_late
+  from registers r
+  cross join lateral public.derive_attendance_day(
+    coalesce(r.whole_day, case when r.am is null and r.pm is null then r.unplaced else r.am end),
+    coalesce(r.whole_day, case when r.am is null and r.pm is null then r.unplaced else r.pm end)
+  ) d;
+$$;
+
+-- A half-day absence attends half a day, whether the other session was attended or not
+-- marked, as in src/lib/metrics.ts
+create or replace function public.attended_days(
+  p_category text,
+  p_status text,
+  p_days numeric,
+  p_absence_days numeric,
+  p_late_counts_as_present boolean
+)
+returns numeric
+language sql
+immutable
+as $$
+  select case
+    when p_category = 'absent' then p_days - p_absence_days
+    when p_category = 'present' and (p_late_counts_as_present or p_status <> 'late') then p_days - p_absence_days
+    else 0
+  end;
+$$;
+
+-- Recompute the stored days under the new rule
+select public.refresh_attendance_days(null, null, null);
@@ -0,0 +1,62 @@
+-- Enrollment changes refresh the students' days once per statement, not once per row, so
+-- the rollover or a bulk transfer recomputes each student a single time.
+create or replace function public.refresh_attendance_days_from_enrollments()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_student_ids uuid[];
+begin
+  if tg_op = 'INSERT' then
+    select array_agg(distinct e.student_id) into v_student_ids from new_rows e;
+  elsif tg_op = 'UPDATE' then
+    select array_agg(distinct e.student_id)
+    into v_student_ids
+    from (
+      select student_id from old_rows
+      union all
+      select student_id from new_rows
+    ) e;
+  else
+    select array_agg(distinct e.student_id) into v_student_ids from old_rows e;
+  end if;
+
+  if v_student_ids is not null then
+    perform public.refresh_attendance_days(v_student_ids, null, null);
+  end if;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists class_enrollments_refresh_days on public.class_enrollments;
+
+create trigger class_enrollments_refresh_days_insert
+  after insert on public.class_enrollments
+  referencing new table as new_rows
+  for each statement execute function public.refresh_attendance_days_from_enrollments();
+
+create trigger class_enrollments_refresh_days_update
+  after update on public.class_enrollments
+  referencing old table as old_rows new table as new_rows
+  for each statement execute function public.refresh_attendance_days_from_enrollments();
+
+create trigger class_enrollments_refresh_days_delete
+  after delete on public.class_enrollments
+  referencing old table as old_rows
+  for each statement execute function public.refresh_attendance_days_from_enrollments();
+
+-- Now only putting a student in the bin or restoring them
+create or replace function public.refresh_attendance_days_for_student()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.refresh_attendance_days(array[new.id], null, null);
+  return null;
+end;
+$$;
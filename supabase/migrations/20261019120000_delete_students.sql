@@ -0,0 +1,86 @@
+-- Permanently deleting students, with their marks, isn't held up by submitted registers.
+create or replace function public.enforce_register_lock()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_record public.attendance_records;
+  v_class text;
+begin
+  if tg_op = 'DELETE' then
+    v_record := old;
+  else
+    v_record := new;
+  end if;
+
+  if current_setting('attendance.applying_correction', true) = 'on' then
+    return v_record;
+  end if;
+
+  -- The lock is on single marks: deleting the student takes their marks with them, through
+  -- delete_students or a cascade from students, where the student row is already gone
+  if tg_op = 'DELETE' and (
+    current_setting('attendance.deleting_students', true) = 'on'
+    or not exists (select 1 from public.students s where s.id = old.student_id)
+  ) then
+    return old;
+  end if;
+
+  -- Only changes to what was recorded; tagging a record with its academic year is not one
+  if tg_op = 'UPDATE'
+    and new.status is not distinct from old.status
+    and new.notes is not distinct from old.notes
+    and new.reason_id is not distinct from old.reason_id
+    and new.arrival_time is not distinct from old.arrival_time
+    and new.departure_time is not distinct from old.departure_time then
+    return new;
+  end if;
+
+  select coalesce(
+    (select e.class
+     from public.class_enrollments e
+     where e.student_id = v_record.student_id
+       and e.start_date <= v_record.date
+       and (e.end_date is null or v_record.date <= e.end_date)
+     limit 1),
+    (select s.class from public.students s where s.id = v_record.student_id)
+  ) into v_class;
+
+  if exists (
+    select 1 from public.register_submissions
+    where class = v_class and date = v_record.date
+  ) then
+    raise exception 'The % register for % has been submitted and is locked', v_class, v_record.date
+      using hint = 'Ask an admin to unlock it, or request a correction.';
+  end if;
+
+  return v_record;
+end;
+$$;
+
+-- Delete students and everything recorded for them; a null list deletes every student.
+-- Used for permanent deletes, the recycle bin purge and clearing students before an import.
+create or replace function public.delete_students(p_student_ids uuid[] default null)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not (public.has_role(auth.uid(), 'admin') or public.has_role(auth.uid(), 'teacher')) then
+    raise exception 'Only staff can delete students';
+  end if;
+
+  perform set_config('attendance.deleting_students', 'on', true);
+
+  delete from public.attendance_records
+  where p_student_ids is null or student_id = any(p_student_ids);
+
+  delete from public.students
+  where p_student_ids is null or id = any(p_student_ids);
+
+  perform set_config('attendance.deleting_students', 'off', true);
+end;
+$$;
@@ -0,0 +1,65 @@
+-- Missing every register taken that day is a full-day absence again, even when only one
+-- session had a register: periods default to the morning, and some schools take only a
+-- morning register. Half a day is only for a day where the other session was attended.
+-- Mirrors deriveDayStatus in src/lib/attendanceRollup.ts.
+create or replace function public.derive_attendance_day(
+  p_am text,
+  p_pm text,
+  out status text,
+  out category text,
+  out absence_days numeric,
+  out is_half_day_absence boolean
+)
+language plpgsql
+stable
+as $$
+declare
+  v_am_category text := public.attendance_status_category(p_am);
+  v_pm_category text := public.attendance_status_category(p_pm);
+begin
+  is_half_day_absence := false;
+  absence_days := 0;
+
+  if p_am is null or p_pm is null or (v_am_category <> 'present' and v_pm_category <> 'present') then
+    status := case
+      when p_am is null or p_pm is null then coalesce(p_am, p_pm)
+      else public.roll_up_period_status(array[p_am, p_pm], array[v_am_category, v_pm_category])
+    end;
+    category := public.attendance_status_category(status);
+    if category = 'absent' then
+      absence_days := 1;
+    end if;
+  elsif v_am_category = 'present' and v_pm_category = 'present' then
+    status := p_am;
+    category := 'present';
+  else
+    status := case when v_am_category = 'present' then p_am else p_pm end;
+    category := 'present';
+    is_half_day_absence := (case when v_am_category = 'present' then v_pm_category else v_am_category end) = 'absent';
+    if is_half_day_absence then
+      absence_days := 0.5;
+    end if;
+  end if;
+end;
+$$;
+
+-- Only attended days count towards the rate again, as in src/lib/metrics.ts
+create or replace function public.attended_days(
+  p_category text,
+  p_status text,
+  p_days numeric,
+  p_absence_days numeric,
+  p_late_counts_as_present boolean
+)
+returns numeric
+language sql
+immutable
+as $$
+  select case
+    when p_category = 'present' and (p_late_counts_as_present or p_status <> 'late') then p_days - p_absence_days
+    else 0
+  end;
+$$;
+
+-- Recompute the stored days under the restored rule
+select public.refresh_attendance_days(null, null, null);
@@ -0,0 +1,100 @@
+-- The audit trail records who really made each change. created_by and updated_by are
+-- stamped from the signed-in user, whatever the client sent; with no signed-in user (the
+-- service role or a direct database connection) the values given are kept. Deleted marks
+-- are logged too, with a null new status.
+create or replace function public.set_attendance_author()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'INSERT' then
+    new.created_by := coalesce(auth.uid(), new.created_by);
+  else
+    new.created_by := old.created_by;
+    new.updated_by := coalesce(auth.uid(), new.updated_by);
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger attendance_records_set_author
+  before insert or update on public.attendance_records
+  for each row execute function public.set_attendance_author();
+
+alter table public.attendance_record_history
+  alter column new_status drop not null; -- null when the record was deleted
+
+create or replace function public.log_attendance_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user uuid;
+  v_name text;
+begin
+  if tg_op = 'DELETE' then
+    -- Deleting the student deletes their history with them
+    if current_setting('attendance.deleting_students', true) = 'on'
+      or not exists (select 1 from public.students s where s.id = old.student_id) then
+      return old;
+    end if;
+  -- Only changes to what was recorded; tagging a record with its academic year is not one
+  elsif tg_op = 'UPDATE'
+    and new.status is not distinct from old.status
+    and new.notes is not distinct from old.notes
+    and new.reason_id is not distinct from old.reason_id
+    and new.arrival_time is not distinct from old.arrival_time
+    and new.departure_time is not distinct from old.departure_time then
+    return new;
+  end if;
+
+  v_user := coalesce(
+    auth.uid(),
+    case tg_op when 'INSERT' then new.created_by when 'UPDATE' then new.updated_by end
+  );
+
+  select coalesce(
+    nullif(trim(concat_ws(' ', u.raw_user_meta_data ->> 'first_name', u.raw_user_meta_data ->> 'last_name')), ''),
+    u.email
+  ) into v_name
+  from auth.users u
+  where u.id = v_user;
+
+  if tg_op = 'DELETE' then
+    insert into public.attendance_record_history (
+      record_id, student_id, date, period_id, session,
+      old_status, new_status, old_notes, new_notes, old_reason_id, new_reason_id,
+      changed_by, changed_by_name
+    ) values (
+      old.id, old.student_id, old.date, old.period_id, old.session,
+      old.status, null, old.notes, null, old.reason_id, null,
+      v_user, v_name
+    );
+
+    return old;
+  end if;
+
+  insert into public.attendance_record_history (
+    record_id, student_id, date, period_id, session,
+    old_status, new_status, old_notes, new_notes, old_reason_id, new_reason_id,
+    changed_by, changed_by_name
+  ) values (
+    new.id, new.student_id, new.date, new.period_id, new.session,
+    case when tg_op = 'UPDATE' then old.status end, new.status,
+    case when tg_op = 'UPDATE' then old.notes end, new.notes,
+    case when tg_op = 'UPDATE' then old.reason_id end, new.reason_id,
+    v_user, v_name
+  );
+
+  return new;
+end;
+$$;
+
+drop trigger if exists attendance_records_log_change on public.attendance_records;
+
+create trigger attendance_records_log_change
+  after insert or update or delete on public.attendance_records
+  for each row execute function public.log_attendance_change();